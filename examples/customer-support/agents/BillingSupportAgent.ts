@@ -1,6 +1,8 @@
 import { Agent } from '../../../src/core/agent/Agent';
 import { globalSourceRegistry } from '../../../src/core/retrieval/SourceRegistry';
 import { AgentRegistration } from '../../../src/core/agent/types/AgentMetadata';
+import { createRefundTool } from '../lib/refunds';
+import { confirmInTerminal } from '../lib/approval';
 
 /**
  * Billing Support Agent
@@ -21,6 +23,7 @@ Your role is to help customers with:
 - Subscription pausing and cancellation
 
 Guidelines:
+- Use issue_subscription_refund only for eligible charges; a staff member must approve every refund
 - Be professional and empathetic, especially with billing concerns
 - Clearly explain charges and billing timelines
 - Always cite sources using [n] notation
@@ -35,6 +38,15 @@ You have access to billing knowledge base and FAQ database. Use them to provide
       maxDocuments: 5,
       deduplicate: true,
     });
+
+    this.addTool(
+      createRefundTool(
+        'issue_subscription_refund',
+        'Refund a subscription charge (e.g. duplicate charges or cancellations within 14 days). Requires staff approval.'
+      )
+    );
+    // Refunds move money: pause every refund for a human decision
+    this.setApprovalHandler(confirmInTerminal);
   }
 
   static getRegistration(): AgentRegistration {
@@ -1,6 +1,8 @@
 import { Agent } from '../../../src/core/agent/Agent';
 import { globalSourceRegistry } from '../../../src/core/retrieval/SourceRegistry';
 import { AgentRegistration } from '../../../src/core/agent/types/AgentMetadata';
+import { createRefundTool } from '../lib/refunds';
+import { confirmInTerminal } from '../lib/approval';
 
 /**
  * Returns Agent
@@ -21,6 +23,7 @@ Your role is to help customers with:
 - Missing items or wrong orders
 
 Guidelines:
+- Use issue_return_refund only for eligible returns; a staff member must approve every refund
 - Be empathetic and solution-oriented
 - Clearly explain the return process and requirements
 - Provide specific timelines for refunds
@@ -36,6 +39,15 @@ You have access to returns policy documentation and FAQ database. Use them to pr
       maxDocuments: 4,
       deduplicate: true,
     });
+
+    this.addTool(
+      createRefundTool(
+        'issue_return_refund',
+        'Refund a returned or defective product order. Requires staff approval.'
+      )
+    );
+    // Refunds move money: pause every refund for a human decision
+    this.setApprovalHandler(confirmInTerminal);
   }
 
   static getRegistration(): AgentRegistration {
@@ -0,0 +1,40 @@
+import chalk from 'chalk';
+import readline from 'readline';
+import {
+  ToolApprovalDecision,
+  ToolApprovalRequest,
+} from '../../../src/core/tools/types/ToolApproval';
+
+function ask(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise(resolve =>
+    rl.question(question, answer => {
+      rl.close();
+      resolve(answer.trim());
+    })
+  );
+}
+
+/**
+ * Asks the support operator on the terminal before a sensitive tool runs.
+ * Accepts "y" to approve, "n" to reject with a reason, or a new amount to approve a partial refund.
+ */
+export async function confirmInTerminal(
+  request: ToolApprovalRequest
+): Promise<ToolApprovalDecision> {
+  console.log(chalk.yellow(`\n⚠️  Approval required: ${request.toolName}`));
+  console.log(chalk.gray(JSON.stringify(request.params, null, 2)));
+
+  const answer = await ask('Approve? [y]es / [n]o / new amount: ');
+  if (/^y(es)?$/i.test(answer)) {
+    return { action: 'approve' };
+  }
+
+  const amount = Number(answer);
+  if (answer !== '' && !Number.isNaN(amount)) {
+    return { action: 'edit', params: { ...request.params, amount } };
+  }
+
+  const reason = await ask('Reason for rejecting: ');
+  return { action: 'reject', reason: reason || 'Not approved by support staff' };
+}
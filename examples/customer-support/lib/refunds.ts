@@ -0,0 +1,28 @@
+import { Type } from '@sinclair/typebox';
+import { Tool } from '../../../src/core/tools/types/Tool';
+
+export const RefundParams = Type.Object({
+  orderId: Type.String({ description: 'Order or invoice number to refund' }),
+  amount: Type.Number({ description: 'Amount to refund in USD' }),
+  reason: Type.String({ description: 'Why the customer is being refunded' }),
+});
+
+/**
+ * Refund tool backed by a fake payment system.
+ * Flagged with requiresApproval so no refund is issued until a human confirms it.
+ */
+export function createRefundTool(
+  name: string,
+  description: string
+): Tool<typeof RefundParams, string> {
+  return {
+    name,
+    description,
+    paramsSchema: RefundParams,
+    requiresApproval: true,
+    action: async params => {
+      const refundId = `RF-${Date.now().toString(36).toUpperCase()}`;
+      return `Refund ${refundId} of $${params.amount.toFixed(2)} issued for ${params.orderId}`;
+    },
+  };
+}
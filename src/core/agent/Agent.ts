@@ -6,28 +6,68 @@ import { createDefaultLogger } from '../../infrastructure/logging/implementation
 import { LoggerUtils } from '../../infrastructure/logging/utils/loggerUtils';
 import { Tool, Serializable } from '../tools/types/Tool';
 import { RunOptions } from './types/RunOptions';
-import { TSchema } from '@sinclair/typebox';
+import { RunResult } from './types/RunResult';
+import { TSchema, Static } from '@sinclair/typebox';
 import { RetrievalConfig } from '../retrieval/types/RetrievalConfig';
 import { SourceRegistry } from '../retrieval/SourceRegistry';
+import { StreamEvent } from '../execution/types/StreamEvent';
+import { CancelledError } from '../../shared/errors/ExecutionErrors';
+import { Message } from '../../shared/types/Message';
+import { SessionStore } from '../session/interfaces/SessionStore';
+import { Session } from '../session/types/Session';
+import { InMemorySessionStore } from '../session/implementations/InMemorySessionStore';
+import { CheckpointStore } from '../checkpoint/interfaces/CheckpointStore';
+import { PromptTemplates } from '../execution/types/PromptTemplates';
+import { PlanCache } from '../execution/PlanCache';
+import { ExecutionPlan } from '../execution/types/ExecutionPlan';
+import { ToolApprovalHandler, ToolApprovalPolicy } from '../tools/types/ToolApproval';
+import { HookRunner } from '../hooks/HookRunner';
+import { AgentHooks } from '../hooks/types/AgentHooks';
+import { AgentEventEmitter } from '../events/AgentEventEmitter';
+import { AgentEventListener, AgentEventName } from '../events/types/AgentEvents';
+
+/** Number of prior user/assistant messages replayed to the model as conversation turns */
+const MAX_HISTORY_MESSAGES = 20;
+
+/**
+ * Memory and turn history used by a run: the agent's own, or those of a thread
+ */
+interface Conversation {
+  memoryManager: MemoryManager;
+  history: Message[];
+}
 
 export class Agent {
-  private memoryManager: MemoryManager;
+  private conversation: Conversation;
   protected tools: Tool<any, any>[] = [];
   private prompt: string = '';
   private executionEngine: ExecutionEngine;
   private logger: AgentLogger;
   private loggerUtils: LoggerUtils;
   private retrievalConfig?: RetrievalConfig;
+  private sessionStore: SessionStore = new InMemorySessionStore();
+  private threadMemoryFactory?: () => MemoryManager;
+  /** Tail of the queue of runs on each thread, so runs on one thread never overlap */
+  private threadQueues = new Map<string, Promise<void>>();
+  private approvalHandler?: ToolApprovalHandler;
+  private approvalPolicy?: ToolApprovalPolicy;
+  private hooks: HookRunner;
+  private events: AgentEventEmitter;
 
   constructor(
     memoryManager?: MemoryManager,
     logger?: AgentLogger,
     sourceRegistry?: SourceRegistry
   ) {
-    this.memoryManager = memoryManager || new SlidingWindowMemoryManager();
+    this.conversation = {
+      memoryManager: memoryManager || new SlidingWindowMemoryManager(),
+      history: [],
+    };
     this.logger = logger || createDefaultLogger();
     this.executionEngine = new ExecutionEngine(this.logger, sourceRegistry);
     this.loggerUtils = new LoggerUtils(this.logger);
+    this.hooks = new HookRunner(this.logger);
+    this.events = new AgentEventEmitter(this.logger);
   }
 
   addTool<TParams extends TSchema, TResult extends Serializable = string>(
@@ -37,24 +77,19 @@ export class Agent {
   }
 
   remember(message: string, type: Memory['type'] = 'conversation', importance = 0.5): void {
-    this.memoryManager.addMemory({
-      type,
-      content: message,
-      importance,
-    });
-    this.loggerUtils.logMemoryOperation('add', { type, importance, contentLength: message.length });
+    this._remember(this.conversation, message, type, importance);
   }
 
   getMemory(): Memory[] {
-    return this.memoryManager.getAllMemories();
+    return this.conversation.memoryManager.getAllMemories();
   }
 
   getMemoryCount(): number {
-    return this.memoryManager.getMemoryCount();
+    return this.conversation.memoryManager.getMemoryCount();
   }
 
   getRelevantMemories(context: string, maxCount?: number): Memory[] {
-    return this.memoryManager.getRelevantMemories(context, maxCount);
+    return this.conversation.memoryManager.getRelevantMemories(context, maxCount);
   }
 
   setPrompt(prompt: string) {
@@ -73,67 +108,566 @@ export class Agent {
     return this.retrievalConfig;
   }
 
-  async run(message: string, model: ModelAdapter, options: RunOptions = {}): Promise<string> {
-    this.loggerUtils.logRunStart({
-      message: message.substring(0, 50) + '...',
-      options,
+  /**
+   * Prior conversation turns sent to the model with each request
+   */
+  getHistory(): Message[] {
+    return [...this.conversation.history];
+  }
+
+  clearHistory(): void {
+    this.conversation.history = [];
+  }
+
+  /**
+   * Register lifecycle hooks. Hook sets run in registration order around runs,
+   * model calls and tool calls, and can observe, rewrite or short-circuit them.
+   */
+  use(hooks: AgentHooks) {
+    this.hooks.use(hooks);
+  }
+
+  /**
+   * Subscribe to typed execution progress events; returns a function that unsubscribes
+   */
+  on<K extends AgentEventName>(event: K, listener: AgentEventListener<K>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  once<K extends AgentEventName>(event: K, listener: AgentEventListener<K>): () => void {
+    return this.events.once(event, listener);
+  }
+
+  off<K extends AgentEventName>(event: K, listener: AgentEventListener<K>): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Handler deciding tool calls that require approval, used when a run sets no onApprovalRequired
+   */
+  setApprovalHandler(handler: ToolApprovalHandler) {
+    this.approvalHandler = handler;
+  }
+
+  /**
+   * Policy marking additional tool calls as requiring approval, used when a run sets no approvalPolicy
+   */
+  setApprovalPolicy(policy: ToolApprovalPolicy) {
+    this.approvalPolicy = policy;
+  }
+
+  /**
+   * Store used to persist threads started with RunOptions.threadId (in-memory by default)
+   */
+  setSessionStore(store: SessionStore) {
+    this.sessionStore = store;
+  }
+
+  getSessionStore(): SessionStore {
+    return this.sessionStore;
+  }
+
+  /**
+   * Create the memory of each thread. By default a thread gets an empty manager like the
+   * agent's own (MemoryManager.createEmpty), or a SlidingWindowMemoryManager without one.
+   */
+  setThreadMemoryFactory(factory: () => MemoryManager) {
+    this.threadMemoryFactory = factory;
+  }
+
+  /**
+   * Load the persisted state (memories and turn history) of a thread
+   */
+  async getSession(threadId: string): Promise<Session | undefined> {
+    return this.sessionStore.load(threadId);
+  }
+
+  async deleteSession(threadId: string): Promise<void> {
+    await this.sessionStore.delete(threadId);
+  }
+
+  /**
+   * Replace the planning and conversational prompts and add few-shot example plans.
+   * Throws when a template lacks a required slot.
+   */
+  setPromptTemplates(templates: PromptTemplates) {
+    this.executionEngine.setPromptTemplates(templates);
+  }
+
+  getPromptTemplates(): PromptTemplates {
+    return this.executionEngine.getPromptTemplates();
+  }
+
+  /**
+   * Store receiving a checkpoint of every planned execution after each step,
+   * so interrupted plans can be continued with resumePlan()
+   */
+  setCheckpointStore(store: CheckpointStore) {
+    this.executionEngine.getPlanner().setCheckpointStore(store);
+  }
+
+  getCheckpointStore(): CheckpointStore | undefined {
+    return this.executionEngine.getPlanner().getCheckpointStore();
+  }
+
+  /**
+   * Cache of successful plans; planned runs of a repeated request with the same tools
+   * reuse the cached plan instead of asking the model to plan
+   */
+  setPlanCache(cache: PlanCache | undefined) {
+    this.executionEngine.getPlanner().setPlanCache(cache);
+  }
+
+  getPlanCache(): PlanCache | undefined {
+    return this.executionEngine.getPlanner().getPlanCache();
+  }
+
+  /**
+   * Continue a checkpointed plan with this agent's tools, e.g. after a process restart.
+   * Completed steps are not re-run; returns the raw step output rather than a conversational answer.
+   */
+  async resumePlan(
+    planId: string,
+    options: RunOptions = {}
+  ): Promise<{ plan: ExecutionPlan; output: string }> {
+    return this.executionEngine.getPlanner().resume(planId, this.tools, {
+      ...options,
+      onApprovalRequired: options.onApprovalRequired ?? this.approvalHandler,
+      approvalPolicy: options.approvalPolicy ?? this.approvalPolicy,
     });
-    this.remember(message, 'conversation', 0.8);
-    const response = await this._executeDecisionCycle(message, model, options);
-    this.remember(`Agent response: ${response}`, 'conversation', 0.6);
-    this.loggerUtils.logRunEnd();
-    return response;
   }
 
-  private async _executeDecisionCycle(
+  async run(message: string, model: ModelAdapter, options: RunOptions = {}): Promise<string> {
+    const result = await this.runDetailed(message, model, options);
+    return this._describeOutcome(result);
+  }
+
+  /**
+   * Run a request and return a structured result instead of a bare string.
+   * Failures are reported via `success` and `errors` rather than as response text.
+   */
+  async runDetailed(
     message: string,
     model: ModelAdapter,
-    options: RunOptions
-  ): Promise<string> {
+    options: RunOptions = {}
+  ): Promise<RunResult> {
+    return this._runDetailed(message, model, options);
+  }
+
+  /**
+   * Run a request and return its answer as data validated against a TypeBox schema.
+   * Tools are used as in run(); the final answer is then converted to JSON, re-prompting
+   * with validation errors up to options.maxOutputAttempts. Throws when the run fails
+   * or the model never produces conforming JSON.
+   */
+  async runStructured<T extends TSchema>(
+    message: string,
+    model: ModelAdapter,
+    schema: T,
+    options: RunOptions = {}
+  ): Promise<Static<T>> {
+    const result = await this._runDetailed(message, model, options, schema);
+    if (!result.success) {
+      throw new Error(this._describeOutcome(result));
+    }
+    return result.data as Static<T>;
+  }
+
+  /**
+   * Shared run pipeline: thread loading, logging, memory, the decision cycle and persistence
+   */
+  private async _runDetailed(
+    originalMessage: string,
+    model: ModelAdapter,
+    originalOptions: RunOptions,
+    outputSchema?: TSchema
+  ): Promise<RunResult> {
+    const { message, options, response } = await this.hooks.beforeRun({
+      message: originalMessage,
+      options: originalOptions,
+    });
+    const release = await this._queueThreadRun(options.threadId);
     try {
-      const relevantMemories = this.memoryManager.getRelevantMemories(message, 5);
-      const memoryContext =
-        relevantMemories.length > 0
-          ? relevantMemories.map(m => `[${m.type}] ${m.content}`).join('\n')
-          : 'No relevant context available.';
-
-      this.logger.debug('Retrieved relevant memories', {
-        count: relevantMemories.length,
-        contextLength: memoryContext.length,
+      const { conversation, session } = await this._openConversation(options.threadId);
+      this.loggerUtils.logRunStart({
+        message: message.substring(0, 50) + '...',
+        options,
+        threadId: options.threadId,
+        structured: Boolean(outputSchema),
       });
+      this._remember(conversation, message, 'conversation', 0.8);
+
+      let result =
+        response !== undefined
+          ? this._buildShortCircuitResult(response, model)
+          : await this._executeDecisionCycle(conversation, message, model, options, outputSchema);
+      result = await this.hooks.afterRun({ message, options }, result);
+
+      // A dry run only previews a plan, so it is not recorded as a conversation turn
+      if (result.success && !options.dryRun) {
+        // Remember the overall result
+        this._remember(
+          conversation,
+          `Agent processed request. Result: ${result.content}`,
+          'tool_result',
+          0.6
+        );
+        this._recordTurn(conversation, message, result.content);
+      }
+      this._remember(
+        conversation,
+        `Agent response: ${this._describeOutcome(result)}`,
+        'conversation',
+        0.6
+      );
+      await this._closeConversation(conversation, session);
+      this.loggerUtils.logRunEnd({ executionId: result.executionId, success: result.success });
+      return result;
+    } finally {
+      release();
+    }
+  }
 
-      // Create execution context
-      const executionContext: ExecutionContext = {
-        message,
-        tools: this.tools,
-        memoryContext,
-        systemPrompt: this.prompt,
-        model,
+  /**
+   * Streaming counterpart of run().
+   * Yields text deltas, tool call and plan step events, and ends with a 'final' event.
+   */
+  async *stream(
+    originalMessage: string,
+    model: ModelAdapter,
+    originalOptions: RunOptions = {}
+  ): AsyncGenerator<StreamEvent> {
+    const {
+      message,
+      options,
+      response: hookResponse,
+    } = await this.hooks.beforeRun({
+      message: originalMessage,
+      options: originalOptions,
+    });
+    const release = await this._queueThreadRun(options.threadId);
+    try {
+      const { conversation, session } = await this._openConversation(options.threadId);
+      this.loggerUtils.logRunStart({
+        message: message.substring(0, 50) + '...',
         options,
-        retrieval: this.retrievalConfig,
+        threadId: options.threadId,
+        streaming: true,
+      });
+      this._remember(conversation, message, 'conversation', 0.8);
+
+      // The final event waits for the afterRun hooks, which may replace the content
+      const startTime = Date.now();
+      let result: RunResult | undefined;
+      let thrown: Error | undefined;
+      try {
+        if (hookResponse !== undefined) {
+          result = this._buildShortCircuitResult(hookResponse, model);
+          yield { type: 'text', delta: hookResponse };
+        } else {
+          const executionContext = this._buildExecutionContext(
+            conversation,
+            message,
+            model,
+            options
+          );
+          for await (const event of this.executionEngine.stream(executionContext)) {
+            if (event.type === 'final') {
+              result = event.result;
+              continue;
+            }
+            yield event;
+          }
+          if (!result) {
+            throw new Error('Execution ended without a result');
+          }
+        }
+      } catch (error) {
+        thrown = error instanceof Error ? error : new Error(String(error));
+        result = {
+          content: '',
+          success: false,
+          cancelled: Boolean(options.signal?.aborted) || error instanceof CancelledError,
+          mode: model.supportsNativeTools ? 'native' : 'planned',
+          toolCalls: [],
+          steps: [],
+          errors: [thrown.message],
+          retrievedDocuments: [],
+          durationMs: Date.now() - startTime,
+        };
+      }
+
+      if (!result.success) {
+        const errorText = result.errors[result.errors.length - 1] || 'Execution failed';
+        this.logger.error('Agent streaming execution failed', {
+          executionId: result.executionId,
+          error: errorText,
+          cancelled: result.cancelled,
+        });
+        await this.hooks.onError({ stage: 'run', error: thrown ?? new Error(errorText) });
+        yield { type: 'error', message: errorText };
+      }
+
+      result = await this.hooks.afterRun({ message, options }, result);
+      const response = this._describeOutcome(result);
+      yield { type: 'final', content: response, result };
+
+      if (result.success && !options.dryRun) {
+        this._remember(
+          conversation,
+          `Agent processed request. Result: ${result.content}`,
+          'tool_result',
+          0.6
+        );
+        this._recordTurn(conversation, message, result.content);
+      }
+      this._remember(conversation, `Agent response: ${response}`, 'conversation', 0.6);
+      await this._closeConversation(conversation, session);
+      this.loggerUtils.logRunEnd({ executionId: result.executionId, success: result.success });
+    } finally {
+      release();
+    }
+  }
+
+  private async _executeDecisionCycle(
+    conversation: Conversation,
+    message: string,
+    model: ModelAdapter,
+    options: RunOptions,
+    outputSchema?: TSchema
+  ): Promise<RunResult> {
+    const startTime = Date.now();
+    try {
+      const executionContext = {
+        ...this._buildExecutionContext(conversation, message, model, options),
+        outputSchema,
       };
 
       // Delegate to execution engine
-      const result = await this.executionEngine.execute(executionContext);
+      const result = await this.executionEngine.executeDetailed(executionContext);
+
+      if (!result.success) {
+        this.logger.error('Agent execution failed', {
+          executionId: result.executionId,
+          errors: result.errors,
+        });
+        await this.hooks.onError({
+          stage: 'run',
+          error: new Error(result.errors[result.errors.length - 1] || 'Execution failed'),
+        });
+        return result;
+      }
 
       // Log the overall execution result
       this.logger.debug('Agent execution completed', {
-        executionType: model.supportsNativeTools ? 'native' : 'planned',
-        resultLength: result.length,
+        executionType: result.mode,
+        resultLength: result.content.length,
       });
 
-      // Remember the overall result
-      this.remember(`Agent processed request. Result: ${result}`, 'tool_result', 0.6);
-
       return result;
     } catch (error) {
-      const errorMessage = `Execution failed: ${
-        error instanceof Error ? error.message : String(error)
-      }`;
-      this.logger.error('Agent execution failed', {
-        error: error instanceof Error ? error.message : String(error),
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('Agent execution failed', { error: errorMessage });
+      await this.hooks.onError({
+        stage: 'run',
+        error: error instanceof Error ? error : new Error(errorMessage),
       });
-      return errorMessage;
+      return {
+        content: '',
+        success: false,
+        cancelled: Boolean(options.signal?.aborted),
+        mode: model.supportsNativeTools ? 'native' : 'planned',
+        toolCalls: [],
+        steps: [],
+        errors: [errorMessage],
+        retrievedDocuments: [],
+        durationMs: Date.now() - startTime,
+      };
+    }
+  }
+
+  /**
+   * Result of a run answered by a beforeRun hook without executing anything
+   */
+  private _buildShortCircuitResult(content: string, model: ModelAdapter): RunResult {
+    return {
+      content,
+      success: true,
+      cancelled: false,
+      mode: model.supportsNativeTools ? 'native' : 'planned',
+      toolCalls: [],
+      steps: [],
+      errors: [],
+      retrievedDocuments: [],
+      durationMs: 0,
+    };
+  }
+
+  /**
+   * Resolve the conversation for a run: the agent's own, or a thread loaded from the session store
+   */
+  private async _openConversation(
+    threadId?: string
+  ): Promise<{ conversation: Conversation; session?: Session }> {
+    if (threadId === undefined) {
+      return { conversation: this.conversation };
+    }
+
+    const now = new Date();
+    const session: Session = (await this.sessionStore.load(threadId)) || {
+      id: threadId,
+      memories: [],
+      history: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // Each thread gets its own memory so threads never see each other's context
+    const memoryManager = this._createThreadMemory();
+    if (memoryManager.restoreMemories) {
+      memoryManager.restoreMemories(session.memories);
+    } else {
+      for (const { type, content, importance, metadata } of session.memories) {
+        memoryManager.addMemory({ type, content, importance, metadata });
+      }
     }
+    this.logger.debug('Loaded conversation thread', {
+      threadId,
+      memoryCount: session.memories.length,
+      historyLength: session.history.length,
+    });
+
+    return { conversation: { memoryManager, history: [...session.history] }, session };
+  }
+
+  /**
+   * An empty memory manager for a thread, keeping the agent's memory strategy
+   */
+  private _createThreadMemory(): MemoryManager {
+    if (this.threadMemoryFactory) {
+      return this.threadMemoryFactory();
+    }
+    const own = this.conversation.memoryManager;
+    if (own.createEmpty) {
+      return own.createEmpty();
+    }
+    this.logger.warn(
+      'Thread memory falls back to a SlidingWindowMemoryManager; implement createEmpty() or call setThreadMemoryFactory() to keep a custom memory manager'
+    );
+    return new SlidingWindowMemoryManager();
+  }
+
+  /**
+   * Wait for earlier runs on a thread to finish, so each run loads the session the previous
+   * one saved. Call the returned function once the run is over; runs without a thread never wait.
+   */
+  private async _queueThreadRun(threadId?: string): Promise<() => void> {
+    if (threadId === undefined) {
+      return () => undefined;
+    }
+    const previous = this.threadQueues.get(threadId) ?? Promise.resolve();
+    let release!: () => void;
+    const done = new Promise<void>(resolve => (release = resolve));
+    const tail = previous.then(() => done);
+    this.threadQueues.set(threadId, tail);
+    await previous;
+    return () => {
+      release();
+      if (this.threadQueues.get(threadId) === tail) {
+        this.threadQueues.delete(threadId);
+      }
+    };
+  }
+
+  /**
+   * Persist a thread's memories and turn history back to the session store
+   */
+  private async _closeConversation(conversation: Conversation, session?: Session): Promise<void> {
+    if (!session) return;
+
+    await this.sessionStore.save({
+      ...session,
+      memories: conversation.memoryManager.getAllMemories(),
+      history: conversation.history,
+      updatedAt: new Date(),
+    });
+  }
+
+  private _remember(
+    conversation: Conversation,
+    message: string,
+    type: Memory['type'],
+    importance: number
+  ): void {
+    conversation.memoryManager.addMemory({
+      type,
+      content: message,
+      importance,
+    });
+    this.loggerUtils.logMemoryOperation('add', { type, importance, contentLength: message.length });
+  }
+
+  /**
+   * Append a completed exchange to the conversation history, keeping the most recent turns
+   */
+  private _recordTurn(conversation: Conversation, message: string, response: string): void {
+    conversation.history.push(
+      { role: 'user', content: message },
+      { role: 'assistant', content: response }
+    );
+    if (conversation.history.length > MAX_HISTORY_MESSAGES) {
+      conversation.history = conversation.history.slice(-MAX_HISTORY_MESSAGES);
+    }
+  }
+
+  /**
+   * Render a run result as the plain response text returned by run()
+   */
+  private _describeOutcome(result: RunResult): string {
+    if (result.success) {
+      return result.content;
+    }
+    const lastError = result.errors[result.errors.length - 1];
+    return result.cancelled
+      ? `Execution cancelled: ${lastError}`
+      : `Execution failed: ${lastError}`;
+  }
+
+  /**
+   * Gather relevant memories and assemble the context handed to the execution engine
+   */
+  private _buildExecutionContext(
+    conversation: Conversation,
+    message: string,
+    model: ModelAdapter,
+    options: RunOptions
+  ): ExecutionContext {
+    const relevantMemories = conversation.memoryManager.getRelevantMemories(message, 5);
+    const memoryContext =
+      relevantMemories.length > 0
+        ? relevantMemories.map(m => `[${m.type}] ${m.content}`).join('\n')
+        : 'No relevant context available.';
+
+    this.logger.debug('Retrieved relevant memories', {
+      count: relevantMemories.length,
+      contextLength: memoryContext.length,
+    });
+
+    return {
+      message,
+      tools: this.tools,
+      memoryContext,
+      systemPrompt: this.prompt,
+      model,
+      options: {
+        ...options,
+        onApprovalRequired: options.onApprovalRequired ?? this.approvalHandler,
+        approvalPolicy: options.approvalPolicy ?? this.approvalPolicy,
+      },
+      retrieval: this.retrievalConfig,
+      history: [...conversation.history],
+      hooks: this.hooks,
+      events: this.events,
+    };
   }
 }
@@ -11,4 +11,5 @@ export {
 
 // Agent types
 export type { AgentMetadata, AgentCapability, AgentRegistration } from './types/AgentMetadata';
-export type { RunOptions } from './types/RunOptions';
+export type { RunOptions, ExecutionStrategy } from './types/RunOptions';
+export type { RunResult, StepTiming, ExecutionMode } from './types/RunResult';
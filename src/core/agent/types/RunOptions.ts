@@ -1,6 +1,31 @@
+import { ToolApprovalHandler, ToolApprovalPolicy } from '../../tools/types/ToolApproval';
+import { RetryPolicy } from '../../tools/types/RetryPolicy';
+import { ResponseMode } from '../../execution/types/ResponseMode';
+
+/**
+ * Execution strategy for a run. 'auto' uses native tool calling when the adapter supports it
+ * and the planner otherwise; failures fall back along native → planned → react.
+ */
+export type ExecutionStrategy = 'auto' | 'native' | 'planned' | 'react';
+
 export interface RunOptions {
+  executionMode?: ExecutionStrategy; // first mode to try (default 'auto'); later modes are fallbacks
   maxSteps?: number; // safety ceiling for number of executed steps in a run
   maxDurationMs?: number; // safety ceiling for total elapsed time in a run
   stopOnFirstToolError?: boolean; // if true, stop execution on the first tool failure
+  maxConcurrency?: number; // max independent plan steps run at the same time (default 1)
+  maxPlanAttempts?: number; // model responses allowed for producing a valid plan (default 3)
+  maxReplans?: number; // plan revisions requested from the model after step failures (default 0)
+  toolRetry?: RetryPolicy; // retries for failed tool calls; a tool's own `retry` takes precedence
+  toolTimeoutMs?: number; // time limit for each tool call attempt; a tool's `timeoutMs` takes precedence
+  strictReferences?: boolean; // fail a planned step when a {{reference}} cannot be resolved
+  responseMode?: ResponseMode; // how planned runs turn step results into the response (default 'conversational')
+  dryRun?: boolean; // create, validate and explain a plan without calling any tool
+  usePlanCache?: boolean; // set to false to plan without the planner's plan cache (default true)
   requiredOutputRegex?: string; // if provided, execution attempts to continue until output matches
+  maxOutputAttempts?: number; // total attempts for requiredOutputRegex and structured output (default 3)
+  signal?: AbortSignal; // cancels the run, including in-flight model requests and tool calls
+  threadId?: string; // runs in an isolated conversation thread persisted through the session store
+  onApprovalRequired?: ToolApprovalHandler; // decides tool calls that require approval
+  approvalPolicy?: ToolApprovalPolicy; // marks additional tool calls as requiring approval
 }
@@ -0,0 +1,67 @@
+import { ExecutionPlan } from '../../execution/types/ExecutionPlan';
+import { PlanStep } from '../../execution/types/PlanStep';
+import { PlanPreview } from '../../execution/types/PlanPreview';
+import { ToolExecutionResult } from '../../../infrastructure/adapters/base/base';
+import { RetrievedDocument } from '../../retrieval/types/Document';
+
+/**
+ * How a run was ultimately executed.
+ * 'fallback' means native tool calling was attempted, failed, and the planner took over.
+ * 'react' means the ReAct loop produced the result, either as the selected mode or after
+ * earlier modes failed (their errors are kept in RunResult.errors).
+ */
+export type ExecutionMode = 'native' | 'planned' | 'fallback' | 'react';
+
+/**
+ * Timing information for a single executed plan step
+ */
+export interface StepTiming {
+  stepId: string;
+  toolName: string;
+  status: PlanStep['status'];
+  durationMs?: number;
+}
+
+/**
+ * Structured outcome of an agent run, returned by Agent.runDetailed
+ */
+export interface RunResult {
+  /** Final response content (empty when the run failed before producing output) */
+  content: string;
+
+  /** Parsed structured output, set by Agent.runStructured */
+  data?: unknown;
+
+  /** Whether the run produced a response */
+  success: boolean;
+
+  /** Whether the run was stopped through RunOptions.signal or by exceeding maxDurationMs */
+  cancelled: boolean;
+
+  /** Execution path that produced the result */
+  mode: ExecutionMode;
+
+  /** Execution id shared with the monitoring log events */
+  executionId?: string;
+
+  /** The executed plan (planned and fallback modes) */
+  plan?: ExecutionPlan;
+
+  /** Validation and explanation of the plan, set by dry runs (RunOptions.dryRun) */
+  preview?: PlanPreview;
+
+  /** Tool calls made through native tool calling */
+  toolCalls: ToolExecutionResult['toolCalls'];
+
+  /** Per-step timings of the executed plan, or of the ReAct loop's tool calls */
+  steps: StepTiming[];
+
+  /** Errors encountered, including native failures that triggered a fallback */
+  errors: string[];
+
+  /** Documents retrieved for augmentation, if retrieval is configured */
+  retrievedDocuments: RetrievedDocument[];
+
+  /** Total execution time */
+  durationMs: number;
+}
@@ -0,0 +1,74 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CheckpointStore } from '../interfaces/CheckpointStore';
+import { PlanCheckpoint } from '../types/PlanCheckpoint';
+
+/**
+ * Checkpoint store persisting each plan as a JSON file in a directory
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  private directory: string;
+
+  /**
+   * @param directory Directory for checkpoint files (created on first save)
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async load(planId: string): Promise<PlanCheckpoint | undefined> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath(planId), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    const data = JSON.parse(raw);
+    return {
+      ...data,
+      createdAt: new Date(data.createdAt),
+      updatedAt: new Date(data.updatedAt),
+    };
+  }
+
+  async save(checkpoint: PlanCheckpoint): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write to a temporary file first so a crash never leaves a truncated checkpoint
+    const target = this.filePath(checkpoint.id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(checkpoint, null, 2), 'utf-8');
+    await fs.rename(temp, target);
+  }
+
+  async delete(planId: string): Promise<void> {
+    await fs.rm(this.filePath(planId), { force: true });
+  }
+
+  async list(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return files
+      .filter(file => file.endsWith('.json'))
+      .map(file => decodeURIComponent(file.slice(0, -'.json'.length)));
+  }
+
+  /**
+   * Plan ids are URI-encoded so arbitrary ids map to safe file names
+   */
+  private filePath(planId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(planId)}.json`);
+  }
+}
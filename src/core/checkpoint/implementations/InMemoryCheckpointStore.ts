@@ -0,0 +1,40 @@
+import { CheckpointStore } from '../interfaces/CheckpointStore';
+import { PlanCheckpoint } from '../types/PlanCheckpoint';
+
+/**
+ * Checkpoint store kept in process memory (lost on restart, useful for tests and retries)
+ */
+export class InMemoryCheckpointStore implements CheckpointStore {
+  private checkpoints: Map<string, PlanCheckpoint> = new Map();
+
+  async load(planId: string): Promise<PlanCheckpoint | undefined> {
+    const checkpoint = this.checkpoints.get(planId);
+    return checkpoint ? this.copy(checkpoint) : undefined;
+  }
+
+  async save(checkpoint: PlanCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpoint.id, this.copy(checkpoint));
+  }
+
+  async delete(planId: string): Promise<void> {
+    this.checkpoints.delete(planId);
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.checkpoints.keys());
+  }
+
+  /**
+   * Copy steps and results so callers cannot mutate stored checkpoints in place
+   */
+  private copy(checkpoint: PlanCheckpoint): PlanCheckpoint {
+    return {
+      ...checkpoint,
+      plan: {
+        ...checkpoint.plan,
+        steps: checkpoint.plan.steps.map(step => ({ ...step })),
+        context: { ...checkpoint.plan.context },
+      },
+    };
+  }
+}
@@ -0,0 +1,9 @@
+// Types
+export * from './types/PlanCheckpoint';
+
+// Interfaces
+export * from './interfaces/CheckpointStore';
+
+// Implementations
+export * from './implementations/InMemoryCheckpointStore';
+export * from './implementations/FileCheckpointStore';
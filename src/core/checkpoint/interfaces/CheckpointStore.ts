@@ -0,0 +1,27 @@
+import { PlanCheckpoint } from '../types/PlanCheckpoint';
+
+/**
+ * Interface for persisting plan checkpoints so planned runs can resume after a restart
+ */
+export interface CheckpointStore {
+  /**
+   * Load a checkpoint by plan id
+   * @returns The checkpoint, or undefined if it does not exist
+   */
+  load(planId: string): Promise<PlanCheckpoint | undefined>;
+
+  /**
+   * Create or replace a checkpoint
+   */
+  save(checkpoint: PlanCheckpoint): Promise<void>;
+
+  /**
+   * Delete a checkpoint (no-op if it does not exist)
+   */
+  delete(planId: string): Promise<void>;
+
+  /**
+   * List the plan ids of all stored checkpoints
+   */
+  list(): Promise<string[]>;
+}
@@ -0,0 +1,14 @@
+import { ExecutionPlan } from '../../execution/types/ExecutionPlan';
+
+/**
+ * Persisted state of a planned execution: its steps, statuses and step results
+ */
+export interface PlanCheckpoint {
+  /** Plan identifier (ExecutionPlan.id) */
+  id: string;
+  plan: ExecutionPlan;
+  /** True once no pending steps remain or execution stopped for good */
+  completed: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,61 @@
+import { AgentLogger } from '../../infrastructure/logging/interfaces/AgentLogger';
+import { createDefaultLogger } from '../../infrastructure/logging/implementations/defaultLoggers';
+import { AgentEventListener, AgentEventMap, AgentEventName } from './types/AgentEvents';
+
+/**
+ * Minimal typed event emitter for execution progress.
+ * Listeners run synchronously; a throwing listener is logged and never affects execution.
+ */
+export class AgentEventEmitter {
+  private listeners = new Map<AgentEventName, Set<AgentEventListener<any>>>();
+  private logger: AgentLogger;
+
+  constructor(logger?: AgentLogger) {
+    this.logger = logger || createDefaultLogger();
+  }
+
+  /**
+   * Subscribe to an event; returns a function that removes the listener
+   */
+  on<K extends AgentEventName>(event: K, listener: AgentEventListener<K>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  once<K extends AgentEventName>(event: K, listener: AgentEventListener<K>): () => void {
+    const off = this.on(event, payload => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  off<K extends AgentEventName>(event: K, listener: AgentEventListener<K>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit<K extends AgentEventName>(event: K, payload: AgentEventMap[K]): void {
+    const set = this.listeners.get(event);
+    if (!set) return;
+
+    for (const listener of Array.from(set)) {
+      try {
+        listener(payload);
+      } catch (error) {
+        this.logger.warn('Agent event listener failed', {
+          event,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  listenerCount(event: AgentEventName): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+}
@@ -0,0 +1,10 @@
+// Core Events Domain - Public Interface
+export { AgentEventEmitter } from './AgentEventEmitter';
+
+// Event types
+export type {
+  AgentEventBase,
+  AgentEventMap,
+  AgentEventName,
+  AgentEventListener,
+} from './types/AgentEvents';
@@ -0,0 +1,45 @@
+import { ExecutionPlan } from '../../execution/types/ExecutionPlan';
+import { PlanStep } from '../../execution/types/PlanStep';
+import { RetrievedDocument } from '../../retrieval/types/Document';
+
+/**
+ * Fields shared by every agent event
+ */
+export interface AgentEventBase {
+  /** Execution id shared with the monitoring log events */
+  executionId?: string;
+}
+
+/**
+ * Payloads of the events emitted while an agent executes, keyed by event name
+ */
+export interface AgentEventMap {
+  'plan:created': AgentEventBase & { plan: ExecutionPlan };
+  'step:start': AgentEventBase & { stepId: string; toolName: string };
+  'step:end': AgentEventBase & {
+    stepId: string;
+    toolName: string;
+    status: PlanStep['status'];
+    result?: string;
+    durationMs: number;
+  };
+  /** Emitted once per tool invocation, in native, planned and ReAct execution */
+  'tool:call': AgentEventBase & {
+    toolName: string;
+    params: any;
+    result?: any;
+    error?: string;
+    durationMs: number;
+  };
+  fallback: AgentEventBase & {
+    from: 'native' | 'planned';
+    to: 'planned' | 'react';
+    reason: string;
+    error: string;
+  };
+  'retrieval:done': AgentEventBase & { sources: string[]; documents: RetrievedDocument[] };
+}
+
+export type AgentEventName = keyof AgentEventMap;
+
+export type AgentEventListener<K extends AgentEventName> = (payload: AgentEventMap[K]) => void;
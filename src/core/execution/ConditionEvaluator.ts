@@ -0,0 +1,300 @@
+/**
+ * Parsed form of a step condition or forEach expression
+ */
+export type ConditionNode =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'path'; root: string; path: Array<string | number> }
+  | { type: 'not'; operand: ConditionNode }
+  | { type: 'binary'; operator: string; left: ConditionNode; right: ConditionNode };
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'identifier'; value: string }
+  | { kind: 'operator'; value: string };
+
+const OPERATORS = ['==', '!=', '>=', '<=', '&&', '||', '>', '<', '!', '(', ')', '[', ']', '.'];
+const COMPARISONS = ['==', '!=', '>', '>=', '<', '<='];
+
+/**
+ * Evaluates the small expression language used by conditional and map steps without eval:
+ * step references with property paths (step1.items[0].name, step1.items.length), string,
+ * number, boolean and null literals, comparisons, &&, || and ! with parentheses.
+ * References may also be written as templates ({{step1.count}}).
+ */
+export class ConditionEvaluator {
+  /**
+   * Parse an expression, throwing on syntax errors
+   */
+  parse(expression: string): ConditionNode {
+    let tokens: Token[] = [];
+    let position = 0;
+
+    const peek = (): Token | undefined => tokens[position];
+    const isOperator = (value: string): boolean => {
+      const token = peek();
+      return token?.kind === 'operator' && token.value === value;
+    };
+    const expect = (value: string): void => {
+      if (!isOperator(value)) {
+        throw new Error(`expected '${value}'`);
+      }
+      position++;
+    };
+
+    const parseOr = (): ConditionNode => {
+      let node = parseAnd();
+      while (isOperator('||')) {
+        position++;
+        node = { type: 'binary', operator: '||', left: node, right: parseAnd() };
+      }
+      return node;
+    };
+
+    const parseAnd = (): ConditionNode => {
+      let node = parseComparison();
+      while (isOperator('&&')) {
+        position++;
+        node = { type: 'binary', operator: '&&', left: node, right: parseComparison() };
+      }
+      return node;
+    };
+
+    const parseComparison = (): ConditionNode => {
+      const left = parseUnary();
+      const token = peek();
+      if (token?.kind === 'operator' && COMPARISONS.includes(token.value)) {
+        position++;
+        return { type: 'binary', operator: token.value, left, right: parseUnary() };
+      }
+      return left;
+    };
+
+    const parseUnary = (): ConditionNode => {
+      if (isOperator('!')) {
+        position++;
+        return { type: 'not', operand: parseUnary() };
+      }
+      return parsePrimary();
+    };
+
+    const parsePrimary = (): ConditionNode => {
+      const token = peek();
+      if (!token) {
+        throw new Error('unexpected end of expression');
+      }
+      position++;
+
+      if (token.kind === 'number' || token.kind === 'string') {
+        return { type: 'literal', value: token.value };
+      }
+      if (token.kind === 'operator') {
+        if (token.value !== '(') {
+          throw new Error(`unexpected '${token.value}'`);
+        }
+        const inner = parseOr();
+        expect(')');
+        return inner;
+      }
+      if (token.value === 'true' || token.value === 'false') {
+        return { type: 'literal', value: token.value === 'true' };
+      }
+      if (token.value === 'null') {
+        return { type: 'literal', value: null };
+      }
+
+      const path: Array<string | number> = [];
+      for (;;) {
+        if (isOperator('.')) {
+          position++;
+          const property = peek();
+          if (property?.kind !== 'identifier') {
+            throw new Error(`expected a property name after '.'`);
+          }
+          position++;
+          path.push(property.value);
+        } else if (isOperator('[')) {
+          position++;
+          const key = peek();
+          if (key?.kind !== 'number' && key?.kind !== 'string') {
+            throw new Error(`expected an index or quoted key inside '[]'`);
+          }
+          position++;
+          expect(']');
+          path.push(key.value);
+        } else {
+          break;
+        }
+      }
+      return { type: 'path', root: token.value, path };
+    };
+
+    try {
+      tokens = this.tokenize(expression.replace(/\{\{\s*([^}]+?)\s*\}\}/g, '$1'));
+      const node = parseOr();
+      const rest = peek();
+      if (rest) {
+        throw new Error(`unexpected '${rest.value}'`);
+      }
+      return node;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid expression "${expression}": ${reason}`);
+    }
+  }
+
+  /**
+   * Evaluate an expression against step results keyed by step id
+   */
+  evaluate(expression: string | ConditionNode, results: { [stepId: string]: any }): unknown {
+    const node = typeof expression === 'string' ? this.parse(expression) : expression;
+
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+      case 'path':
+        return node.path.reduce(
+          (value: unknown, key) => this.readProperty(value, key),
+          results[node.root]
+        );
+      case 'not':
+        return !this.evaluate(node.operand, results);
+      case 'binary': {
+        const left = this.evaluate(node.left, results);
+        if (node.operator === '&&') return left && this.evaluate(node.right, results);
+        if (node.operator === '||') return left || this.evaluate(node.right, results);
+        return this.compare(node.operator, left, this.evaluate(node.right, results));
+      }
+    }
+  }
+
+  /**
+   * Ids referenced by an expression (the roots of its paths)
+   */
+  references(expression: string | ConditionNode): string[] {
+    const node = typeof expression === 'string' ? this.parse(expression) : expression;
+    switch (node.type) {
+      case 'literal':
+        return [];
+      case 'path':
+        return [node.root];
+      case 'not':
+        return this.references(node.operand);
+      case 'binary':
+        return Array.from(new Set([...this.references(node.left), ...this.references(node.right)]));
+    }
+  }
+
+  private tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+      const char = source[i];
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        let value = '';
+        let j = i + 1;
+        while (j < source.length && source[j] !== char) {
+          value += source[j] === '\\' && j + 1 < source.length ? source[++j] : source[j];
+          j++;
+        }
+        if (j >= source.length) {
+          throw new Error('unterminated string');
+        }
+        tokens.push({ kind: 'string', value });
+        i = j + 1;
+        continue;
+      }
+
+      const number = source.slice(i).match(/^-?\d+(\.\d+)?/);
+      if (number && (char !== '-' || tokens[tokens.length - 1]?.kind !== 'number')) {
+        tokens.push({ kind: 'number', value: Number(number[0]) });
+        i += number[0].length;
+        continue;
+      }
+
+      const identifier = source.slice(i).match(/^[A-Za-z_$@][\w$-]*/);
+      if (identifier) {
+        tokens.push({ kind: 'identifier', value: identifier[0] });
+        i += identifier[0].length;
+        continue;
+      }
+
+      const operator = OPERATORS.find(op => source.startsWith(op, i));
+      if (!operator) {
+        throw new Error(`unexpected character '${char}'`);
+      }
+      tokens.push({ kind: 'operator', value: operator });
+      i += operator.length;
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Read an own property (or length) of a value, parsing JSON strings produced by tools first,
+   * as references do, so the length of a JSON array is its item count
+   */
+  private readProperty(value: unknown, key: string | number): unknown {
+    if (typeof value === 'string') {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        // Plain text only has a length
+        if (key !== 'length') return undefined;
+      }
+    }
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+    if (key === 'length' && (Array.isArray(value) || typeof value === 'string')) {
+      return value.length;
+    }
+    return Object.prototype.hasOwnProperty.call(value, key)
+      ? (value as Record<string | number, unknown>)[key]
+      : undefined;
+  }
+
+  private compare(operator: string, left: unknown, right: unknown): boolean {
+    // Tool results are often strings, so numeric-looking strings compare as numbers
+    const toNumber = (value: unknown): number | undefined => {
+      if (typeof value === 'number') return value;
+      if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+        return Number(value);
+      }
+      return undefined;
+    };
+    const leftNumber = toNumber(left);
+    const rightNumber = toNumber(right);
+    const numeric = leftNumber !== undefined && rightNumber !== undefined;
+    const [a, b] = numeric ? [leftNumber, rightNumber] : [left, right];
+
+    switch (operator) {
+      case '==':
+        return a === b;
+      case '!=':
+        return a !== b;
+    }
+
+    if (!numeric && (typeof a !== 'string' || typeof b !== 'string')) {
+      return false;
+    }
+    const x = a as number | string;
+    const y = b as number | string;
+    switch (operator) {
+      case '>':
+        return x > y;
+      case '>=':
+        return x >= y;
+      case '<':
+        return x < y;
+      default:
+        return x <= y;
+    }
+  }
+}
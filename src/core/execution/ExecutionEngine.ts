@@ -1,11 +1,16 @@
 import { ModelAdapter } from '../../infrastructure/adapters/base/base';
 import { Planner } from './Planner';
+import { ReActExecutor } from './ReActExecutor';
 import { ResponseProcessor } from './ResponseProcessor';
+import { StructuredOutputProcessor } from './StructuredOutputProcessor';
+import { toolInvocationOptions } from './StepInvocation';
 import { AgentLogger } from '../../infrastructure/logging/interfaces/AgentLogger';
 import { createDefaultLogger } from '../../infrastructure/logging/implementations/defaultLoggers';
 import { LoggerUtils } from '../../infrastructure/logging/utils/loggerUtils';
 import { Tool } from '../tools/types/Tool';
 import { RunOptions } from '../agent/types/RunOptions';
+import { ReActResult } from './types/ReActResult';
+import { RunResult, ExecutionMode } from '../agent/types/RunResult';
 import { withExecutionMonitoring } from '../../infrastructure/monitoring/decorators/monitoring';
 import {
   withFallbackMonitoring,
@@ -14,6 +19,33 @@ import {
 import { RetrievalConfig } from '../retrieval/types/RetrievalConfig';
 import { RetrievalAugmentor } from '../retrieval/RetrievalAugmentor';
 import { SourceRegistry } from '../retrieval/SourceRegistry';
+import { StreamEvent } from './types/StreamEvent';
+import { AsyncQueue } from '../../shared/utils/asyncQueue';
+import { ExecutionPlan } from './types/ExecutionPlan';
+import { PlanPreview } from './types/PlanPreview';
+import { PlanStep } from './types/PlanStep';
+import { PromptTemplates } from './types/PromptTemplates';
+import { RetrievedDocument } from '../retrieval/types/Document';
+import { ToolExecutionResult, ToolExecutionOptions } from '../../infrastructure/adapters/base/base';
+import { TSchema } from '@sinclair/typebox';
+import { Message } from '../../shared/types/Message';
+import { MessageUtils } from '../../infrastructure/adapters/utils/messageUtils';
+import { HookRunner } from '../hooks/HookRunner';
+import {
+  categorizeFallbackReason,
+  generateExecutionId,
+} from '../../infrastructure/monitoring/utils/executionClassification';
+import { AgentEventEmitter } from '../events/AgentEventEmitter';
+import { AgentEventMap, AgentEventName } from '../events/types/AgentEvents';
+import { PlanExecutionCallbacks } from './types/PlanExecutionCallbacks';
+import { abortError, linkAbortSignal, throwIfAborted } from '../../shared/utils/abort';
+
+/** Default total number of attempts for requiredOutputRegex and structured output */
+const DEFAULT_MAX_OUTPUT_ATTEMPTS = 3;
+
+/** Execution methods in fallback order */
+type ExecutionMethod = 'native' | 'planned' | 'react';
+const FALLBACK_CHAIN: ExecutionMethod[] = ['native', 'planned', 'react'];
 
 /**
  * Context for execution requests
@@ -26,14 +58,28 @@ export interface ExecutionContext {
   model: ModelAdapter;
   options: RunOptions;
   retrieval?: RetrievalConfig;
+  /** Prior conversation turns, sent to the model before the current request */
+  history?: Message[];
+  /** When set, the final answer is converted into JSON validated against this schema */
+  outputSchema?: TSchema;
+  /** Lifecycle hooks applied to model calls, tool calls and fallbacks */
+  hooks?: HookRunner;
+  /** Receives typed progress events for the run */
+  events?: AgentEventEmitter;
+  /** Set by the engine for the duration of a run */
+  executionId?: string;
+  /** Set by the engine: when the run's maxDurationMs runs out, in ms since the epoch */
+  deadline?: number;
 }
 
 /**
- * Handles execution decisions and orchestration between native and planned execution
+ * Handles execution decisions and orchestration between native, planned and ReAct execution
  */
 export class ExecutionEngine {
   private planner: Planner;
+  private reactExecutor: ReActExecutor;
   private responseProcessor = new ResponseProcessor();
+  private structuredOutputProcessor: StructuredOutputProcessor;
   private logger: AgentLogger;
   private loggerUtils: LoggerUtils;
   private retrievalAugmentor?: RetrievalAugmentor;
@@ -46,6 +92,8 @@ export class ExecutionEngine {
     this.logger = logger || createDefaultLogger();
     this.loggerUtils = new LoggerUtils(this.logger);
     this.planner = new Planner(this.logger);
+    this.reactExecutor = new ReActExecutor(this.logger);
+    this.structuredOutputProcessor = new StructuredOutputProcessor(this.logger);
 
     if (sourceRegistry) {
       this.retrievalAugmentor = new RetrievalAugmentor(sourceRegistry);
@@ -53,131 +101,904 @@ export class ExecutionEngine {
   }
 
   /**
-   * Execute a request using the most appropriate method (native or planned)
+   * Planner used for planned execution and fallback
+   */
+  getPlanner(): Planner {
+    return this.planner;
+  }
+
+  /**
+   * Prompt templates for plan creation and conversational answers
+   */
+  setPromptTemplates(templates: PromptTemplates) {
+    this.planner.setPromptTemplates(templates);
+    this.responseProcessor.setPromptTemplates(templates);
+  }
+
+  getPromptTemplates(): PromptTemplates {
+    return this.planner.getPromptTemplates();
+  }
+
+  /**
+   * Execute a request using the most appropriate method (native, planned or ReAct)
    */
-  @withExecutionMonitoring
   async execute(context: ExecutionContext): Promise<string> {
-    // Clean logic - decorators handle all monitoring
-    if (context.model.supportsNativeTools) {
-      try {
-        return await this._tryNativeExecution(context);
-      } catch (nativeError) {
-        // Fallback to planner execution
-        return await this._executePlanned(context);
+    const result = await this.executeDetailed(context);
+    if (!result.success) {
+      throw new Error(result.errors[result.errors.length - 1]);
+    }
+    return result.content;
+  }
+
+  /**
+   * Execute a request and return a structured result.
+   * Failures are reported through `success` and `errors` instead of being thrown.
+   * Aborting options.signal (or exceeding maxDurationMs) yields a result with `cancelled: true`.
+   */
+  @withExecutionMonitoring
+  async executeDetailed(context: ExecutionContext): Promise<RunResult> {
+    const { signal, dispose } = linkAbortSignal(
+      context.options.signal,
+      context.options.maxDurationMs
+    );
+    try {
+      return await this._executeDetailed(
+        this._prepareRun(context, signal, this._currentExecutionId)
+      );
+    } finally {
+      dispose();
+    }
+  }
+
+  /**
+   * Run the execution methods in fallback order under an already linked signal
+   */
+  private async _executeDetailed(context: ExecutionContext): Promise<RunResult> {
+    const { signal } = context.options;
+    const startTime = Date.now();
+    const executionId = this._currentExecutionId;
+    const errors: string[] = [];
+    const chain = this._executionChain(context);
+    let mode: ExecutionMode = chain[0];
+
+    const buildResult = (partial: Partial<RunResult>): RunResult => ({
+      content: '',
+      success: true,
+      cancelled: false,
+      mode,
+      executionId,
+      toolCalls: [],
+      steps: [],
+      errors,
+      retrievedDocuments: [],
+      durationMs: Date.now() - startTime,
+      ...partial,
+    });
+
+    try {
+      if (context.options.dryRun) {
+        mode = 'planned';
+        const preview = await this._dryRun(context);
+        return buildResult({ content: preview.explanation, plan: preview.plan, preview });
+      }
+
+      let outcome: { result: Partial<RunResult>; outputError?: string } | undefined;
+
+      for (let i = 0; !outcome; i++) {
+        try {
+          outcome = await this._executeMethod(chain[i], context);
+        } catch (error) {
+          errors.push(error instanceof Error ? error.message : String(error));
+          // A cancelled run never falls back
+          if (signal?.aborted) {
+            return buildResult({ success: false, cancelled: true });
+          }
+          const next = chain[i + 1];
+          if (!next || !(await this._shouldFallback(context, error, chain[i], next))) {
+            return buildResult({ success: false });
+          }
+          mode = next === 'planned' ? 'fallback' : next;
+        }
+      }
+
+      if (outcome.outputError) {
+        errors.push(outcome.outputError);
+        return buildResult({ ...outcome.result, success: false });
+      }
+
+      if (context.outputSchema) {
+        const structured = await this.structuredOutputProcessor.generate(
+          context.message,
+          outcome.result.content || '',
+          context.outputSchema,
+          context.model,
+          {
+            systemPrompt: context.systemPrompt,
+            signal,
+            maxAttempts: context.options.maxOutputAttempts ?? DEFAULT_MAX_OUTPUT_ATTEMPTS,
+          }
+        );
+        if (structured.error) {
+          errors.push(structured.error);
+          return buildResult({ ...outcome.result, success: false });
+        }
+        return buildResult({ ...outcome.result, data: structured.data });
+      }
+
+      return buildResult(outcome.result);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+      return buildResult({ success: false, cancelled: Boolean(signal?.aborted) });
+    }
+  }
+
+  /**
+   * Methods to try for a run, starting with the selected one (RunOptions.executionMode).
+   * Native tool calling is left out for adapters that do not support it.
+   */
+  private _executionChain(context: ExecutionContext): ExecutionMethod[] {
+    const selected = context.options.executionMode ?? 'auto';
+    const start = selected === 'auto' ? 'native' : selected;
+    return FALLBACK_CHAIN.slice(FALLBACK_CHAIN.indexOf(start)).filter(
+      method => method !== 'native' || context.model.supportsNativeTools
+    );
+  }
+
+  /**
+   * Run a single execution method, throwing when it fails
+   */
+  private async _executeMethod(
+    method: ExecutionMethod,
+    context: ExecutionContext
+  ): Promise<{ result: Partial<RunResult>; outputError?: string }> {
+    switch (method) {
+      case 'native': {
+        const native = await this._tryNativeExecution(context);
+        return {
+          result: {
+            content: native.content,
+            toolCalls: native.toolCalls,
+            retrievedDocuments: native.documents,
+          },
+          outputError: native.outputError,
+        };
+      }
+      case 'planned': {
+        const planned = await this._executePlanned(context);
+        return {
+          result: {
+            content: planned.content,
+            plan: planned.plan,
+            steps: this._stepTimings(planned.plan.steps),
+          },
+          outputError: planned.outputError,
+        };
+      }
+      case 'react': {
+        const react = await this._executeReAct(context);
+        return {
+          result: { content: react.content, steps: this._stepTimings(react.steps) },
+          outputError: react.outputError,
+        };
       }
-    } else {
-      // Use planner execution directly
-      return await this._executePlanned(context);
     }
   }
 
+  /**
+   * Run options for the planner, with maxDurationMs reduced to what is left of the run's
+   * budget, so time spent before a fallback to planning counts towards it
+   */
+  private _plannerOptions(context: ExecutionContext): RunOptions {
+    const { options, deadline } = context;
+    return deadline === undefined
+      ? options
+      : { ...options, maxDurationMs: Math.max(0, deadline - Date.now()) };
+  }
+
+  private _stepTimings(steps: PlanStep[]): RunResult['steps'] {
+    return steps.map(step => ({
+      stepId: step.id,
+      toolName: step.toolName,
+      status: step.status,
+      durationMs: step.durationMs,
+    }));
+  }
+
+  /**
+   * Create and explain a plan without calling any tool. Native tool calling is never used,
+   * as the model would run tools while deciding what to do.
+   */
+  private _dryRun(context: ExecutionContext): Promise<PlanPreview> {
+    const { message, tools, memoryContext, systemPrompt, model, options } = context;
+    return this.planner.dryRun(
+      message,
+      tools,
+      memoryContext,
+      systemPrompt,
+      model,
+      options,
+      this._planCallbacks(context)
+    );
+  }
+
   /**
    * Attempt native tool execution
    */
   @withFallbackMonitoring
-  private async _tryNativeExecution(context: ExecutionContext): Promise<string> {
-    const { message, tools, memoryContext, systemPrompt, model, retrieval } = context;
+  private async _tryNativeExecution(
+    context: ExecutionContext
+  ): Promise<ToolExecutionResult & { documents: RetrievedDocument[]; outputError?: string }> {
+    const { message, tools, model, options } = context;
 
-    // Build the full prompt with context (and retrieval if configured)
-    const fullPrompt = await this._buildPrompt(message, memoryContext, systemPrompt, retrieval);
+    // Build the conversation with context (and retrieval if configured)
+    const { messages, documents } = await this._buildMessages(context);
 
-    this.loggerUtils.logPrompt(fullPrompt, {
+    this.loggerUtils.logPrompt(MessageUtils.toText(messages), {
       userMessage: message,
       toolCount: tools.length,
       executionMode: 'native',
     });
 
-    const executionResult = await model.executeWithTools(fullPrompt, tools);
+    const runNative = async (prompt: Message[]): Promise<ToolExecutionResult> => {
+      const executionResult = await model.executeWithTools(
+        prompt,
+        tools,
+        this._toolExecutionOptions(options)
+      );
 
-    this.loggerUtils.logModelResponse(executionResult.content, {
-      operation: 'native_execution',
-      toolCallCount: executionResult.toolCalls.length,
-      success: executionResult.success,
-    });
+      this.loggerUtils.logModelResponse(executionResult.content, {
+        operation: 'native_execution',
+        toolCallCount: executionResult.toolCalls.length,
+        success: executionResult.success,
+      });
 
-    if (executionResult.success) {
-      return executionResult.content;
-    } else {
-      throw new Error(`Native execution failed: ${executionResult.errors?.join(', ')}`);
-    }
+      if (executionResult.success) {
+        return executionResult;
+      } else if (options.signal?.aborted) {
+        throw abortError(options.signal);
+      } else {
+        throw this._nativeFailure(executionResult);
+      }
+    };
+
+    const executionResult = await runNative(messages);
+    const toolCalls = [...executionResult.toolCalls];
+
+    // Self-correction: re-run the tool loop with the mismatch fed back to the model
+    const enforced = await this._enforceRequiredOutput(
+      options,
+      executionResult.content,
+      async (previous, feedback) => {
+        const retry = await runNative([
+          ...messages,
+          { role: 'assistant', content: previous },
+          { role: 'user', content: feedback },
+        ]);
+        toolCalls.push(...retry.toolCalls);
+        return retry.content;
+      }
+    );
+
+    return {
+      ...executionResult,
+      content: enforced.content,
+      toolCalls,
+      documents,
+      outputError: enforced.error,
+    };
   }
 
   /**
-   * Execute using planned approach with conversational post-processing
+   * Execute using planned approach; the response is written by the model from the step results
+   * unless options.responseMode selects raw, JSON or custom formatting
    */
   @withPlannedMonitoring
-  private async _executePlanned(context: ExecutionContext): Promise<string> {
+  private async _executePlanned(
+    context: ExecutionContext
+  ): Promise<{ content: string; plan: ExecutionPlan; outputError?: string }> {
     const { message, tools, memoryContext, systemPrompt, model, options } = context;
 
-    const rawResult = await this.planner.execute(
+    const { plan, output } = await this.planner.executeWithPlan(
       message,
       tools,
       memoryContext,
       systemPrompt,
       model,
-      options
+      this._plannerOptions(context),
+      this._planCallbacks(context)
     );
 
+    const responseMode = options.responseMode ?? 'conversational';
+    if (responseMode !== 'conversational') {
+      const content = await this.responseProcessor.formatResponse(responseMode, {
+        request: message,
+        plan,
+        output,
+      });
+      // Formatted results cannot be regenerated, so the output is checked once
+      const enforced = await this._enforceRequiredOutput(
+        { ...options, maxOutputAttempts: 1 },
+        content,
+        async previous => previous
+      );
+      return { content: enforced.content, plan, outputError: enforced.error };
+    }
+
     // Convert planner output to conversational response
-    return this.responseProcessor.generateConversationalResponse(
+    const content = await this.responseProcessor.generateConversationalResponse(
       message,
-      rawResult,
+      output,
       model,
-      systemPrompt
+      systemPrompt,
+      { signal: options.signal, steps: plan.steps }
+    );
+
+    // Self-correction: regenerate the answer from the same tool results with the mismatch fed back
+    const enforced = await this._enforceRequiredOutput(options, content, (previous, feedback) =>
+      this.responseProcessor.generateConversationalResponse(message, output, model, systemPrompt, {
+        signal: options.signal,
+        steps: plan.steps,
+        correction: { previous, feedback },
+      })
     );
+
+    return { content: enforced.content, plan, outputError: enforced.error };
   }
 
   /**
-   * Build full prompt with context and system prompt
+   * Execute with the ReAct loop; the model's answer is the response
    */
-  private async _buildPrompt(
-    message: string,
-    memoryContext: string,
-    systemPrompt: string,
-    retrieval?: RetrievalConfig
-  ): Promise<string> {
-    let fullPrompt = '';
+  private async _executeReAct(
+    context: ExecutionContext
+  ): Promise<{ content: string; steps: ReActResult['steps']; outputError?: string }> {
+    const { message, tools, memoryContext, systemPrompt, model, options } = context;
 
-    // Apply retrieval augmentation if configured
-    if (retrieval && this.retrievalAugmentor) {
-      try {
-        this.logger.debug('Applying retrieval augmentation', {
-          sources: retrieval.sources,
-          maxDocuments: retrieval.maxDocuments,
-        });
+    const { answer, steps, output } = await this.reactExecutor.execute(
+      message,
+      tools,
+      memoryContext,
+      systemPrompt,
+      model,
+      options,
+      this._planCallbacks(context)
+    );
+
+    // Self-correction: rewrite the answer from the same observations with the mismatch fed back
+    const enforced = await this._enforceRequiredOutput(options, answer, (previous, feedback) =>
+      this.responseProcessor.generateConversationalResponse(message, output, model, systemPrompt, {
+        signal: options.signal,
+        correction: { previous, feedback },
+      })
+    );
+
+    return { content: enforced.content, steps, outputError: enforced.error };
+  }
 
-        // Augment returns the full prompt with system, context, and user message
-        fullPrompt = await this.retrievalAugmentor.augment(message, retrieval, systemPrompt);
+  /**
+   * Re-request the final output until it matches options.requiredOutputRegex or the
+   * attempt limit (options.maxOutputAttempts) is reached. Returns an error when it never matched.
+   */
+  private async _enforceRequiredOutput(
+    options: RunOptions,
+    content: string,
+    retry: (previous: string, feedback: string) => Promise<string>
+  ): Promise<{ content: string; error?: string }> {
+    if (!options.requiredOutputRegex) {
+      return { content };
+    }
+
+    const pattern = new RegExp(options.requiredOutputRegex);
+    const maxAttempts = Math.max(1, options.maxOutputAttempts ?? DEFAULT_MAX_OUTPUT_ATTEMPTS);
+    let attempt = 1;
+
+    while (!pattern.test(content) && attempt < maxAttempts) {
+      throwIfAborted(options.signal);
+      this.logger.warn('Output did not match required pattern, retrying', {
+        executionId: this._currentExecutionId,
+        pattern: pattern.source,
+        attempt,
+        maxAttempts,
+      });
+      content = await retry(content, this._buildOutputFeedback(pattern));
+      attempt += 1;
+    }
+
+    const matched = pattern.test(content);
+    this.logger.info('Output validation finished', {
+      executionId: this._currentExecutionId,
+      pattern: pattern.source,
+      attempts: attempt,
+      matched,
+    });
+
+    return matched
+      ? { content }
+      : {
+          content,
+          error: `Output did not match required pattern /${pattern.source}/ after ${attempt} attempt(s)`,
+        };
+  }
+
+  /**
+   * Correction instructions sent back to the model after an output mismatch
+   */
+  private _buildOutputFeedback(pattern: RegExp): string {
+    return `Your previous response did not match the required output format (regular expression: /${pattern.source}/). Respond again so that your complete response matches this pattern.`;
+  }
 
-        // Add memory context after retrieval context
-        if (memoryContext && memoryContext !== 'No relevant context available.') {
-          // Insert memory context before the user request
-          const parts = fullPrompt.split('User request:');
-          if (parts.length === 2) {
-            fullPrompt = `${parts[0]}\nMemory context:\n${memoryContext}\n\nUser request:${parts[1]}`;
+  /**
+   * Bind a run's signal, execution id and deadline, and route its model and tool calls
+   * through lifecycle hooks and tool:call events
+   */
+  private _prepareRun(
+    context: ExecutionContext,
+    signal: AbortSignal | undefined,
+    executionId: string | undefined
+  ): ExecutionContext {
+    let { model, tools } = context;
+    if (context.hooks?.hasHooks()) {
+      model = context.hooks.wrapModel(model);
+      tools = context.hooks.wrapTools(tools, {
+        onApprovalRequired: context.options.onApprovalRequired,
+        policy: context.options.approvalPolicy,
+      });
+    }
+
+    const prepared: ExecutionContext = {
+      ...context,
+      model,
+      tools,
+      executionId,
+      options: { ...context.options, signal },
+      deadline:
+        context.options.maxDurationMs !== undefined
+          ? Date.now() + context.options.maxDurationMs
+          : undefined,
+    };
+    if (context.events) {
+      prepared.tools = tools.map(tool => this._withToolEvents(prepared, tool));
+    }
+    return prepared;
+  }
+
+  /**
+   * Wrap a tool so every invocation emits a tool:call event, in native and planned execution
+   */
+  private _withToolEvents(context: ExecutionContext, tool: Tool): Tool {
+    return {
+      ...tool,
+      action: async (params, toolContext) => {
+        const start = Date.now();
+        try {
+          const result = await tool.action(params, toolContext);
+          this._emit(context, 'tool:call', {
+            toolName: tool.name,
+            params,
+            result,
+            durationMs: Date.now() - start,
+          });
+          return result;
+        } catch (error) {
+          this._emit(context, 'tool:call', {
+            toolName: tool.name,
+            params,
+            error: error instanceof Error ? error.message : String(error),
+            durationMs: Date.now() - start,
+          });
+          throw error;
+        }
+      },
+    };
+  }
+
+  /**
+   * Planner callbacks that report plan and step progress as events
+   */
+  private _planCallbacks(context: ExecutionContext): PlanExecutionCallbacks {
+    return {
+      onPlanCreated: plan => this._emit(context, 'plan:created', { plan }),
+      onStepStart: step =>
+        this._emit(context, 'step:start', { stepId: step.id, toolName: step.toolName }),
+      onStepEnd: (step, durationMs) =>
+        this._emit(context, 'step:end', {
+          stepId: step.id,
+          toolName: step.toolName,
+          status: step.status,
+          result: step.result,
+          durationMs,
+        }),
+    };
+  }
+
+  private _emit<K extends AgentEventName>(
+    context: ExecutionContext,
+    event: K,
+    payload: Omit<AgentEventMap[K], 'executionId'>
+  ): void {
+    context.events?.emit(event, {
+      executionId: context.executionId,
+      ...payload,
+    } as AgentEventMap[K]);
+  }
+
+  /**
+   * Error for a failed native tool loop; the adapter's typed error is kept as its cause
+   */
+  private _nativeFailure(result: ToolExecutionResult): Error {
+    const error: Error & { cause?: unknown } = new Error(
+      `Native execution failed: ${result.errors?.join(', ')}`
+    );
+    error.cause = result.error;
+    return error;
+  }
+
+  /**
+   * Decide whether a failed method falls back to the next one in the chain.
+   * Fallback hooks can veto it; a fallback that goes ahead is reported as an event.
+   */
+  private async _shouldFallback(
+    context: ExecutionContext,
+    error: unknown,
+    from: ExecutionMethod,
+    to: ExecutionMethod
+  ): Promise<boolean> {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const reason = categorizeFallbackReason(err);
+    // The chain order guarantees these narrower types
+    const fallback = { from: from as 'native' | 'planned', to: to as 'planned' | 'react' };
+    if (context.hooks) {
+      const skip = await context.hooks.onFallback({ ...fallback, error: err, reason });
+      if (skip) {
+        this.logger.warn(`Fallback to ${to} execution skipped by hook`, { error: err.message });
+        return false;
+      }
+    }
+
+    if (from === 'planned') {
+      this.logger.warn('Planned execution failed, falling back to ReAct execution', {
+        executionId: context.executionId,
+        reason,
+        error: err.message,
+      });
+    }
+    this._emit(context, 'fallback', { ...fallback, reason, error: err.message });
+    return true;
+  }
+
+  /**
+   * Adapter options for native tool loops: cancellation, the run's approval gate and tool retries
+   */
+  private _toolExecutionOptions(options: RunOptions): ToolExecutionOptions {
+    return {
+      signal: options.signal,
+      approval: { onApprovalRequired: options.onApprovalRequired, policy: options.approvalPolicy },
+      invocation: toolInvocationOptions(options, this.logger),
+    };
+  }
+
+  /**
+   * Stream a request, yielding text deltas, tool/step events and a final event.
+   * Falls back to planned execution only if native streaming fails before emitting anything.
+   * The final event carries the same RunResult executeDetailed returns; failures are reported
+   * there instead of being thrown.
+   */
+  async *stream(context: ExecutionContext): AsyncGenerator<StreamEvent> {
+    const { signal, dispose } = linkAbortSignal(
+      context.options.signal,
+      context.options.maxDurationMs
+    );
+    try {
+      for await (const event of this._stream(
+        this._prepareRun(context, signal, generateExecutionId())
+      )) {
+        yield event;
+      }
+    } finally {
+      dispose();
+    }
+  }
+
+  /**
+   * Stream the execution methods in fallback order under an already linked signal.
+   * A method only falls back if it fails before emitting anything.
+   */
+  private async *_stream(context: ExecutionContext): AsyncGenerator<StreamEvent> {
+    const { signal } = context.options;
+    const startTime = Date.now();
+    const errors: string[] = [];
+    const chain = this._executionChain(context);
+    let mode: ExecutionMode = chain[0];
+
+    const buildResult = (partial: Partial<RunResult>): RunResult => ({
+      content: '',
+      success: true,
+      cancelled: false,
+      mode,
+      executionId: context.executionId,
+      toolCalls: [],
+      steps: [],
+      errors,
+      retrievedDocuments: [],
+      durationMs: Date.now() - startTime,
+      ...partial,
+    });
+
+    try {
+      if (context.options.dryRun) {
+        mode = 'planned';
+        const preview = await this._dryRun(context);
+        const result = buildResult({ content: preview.explanation, plan: preview.plan, preview });
+        yield { type: 'final', content: result.content, result };
+        return;
+      }
+
+      for (let i = 0; ; i++) {
+        const method = chain[i];
+        let emitted = false;
+        try {
+          const events =
+            method === 'native'
+              ? this._streamNative(context)
+              : method === 'planned'
+              ? this._streamPlanned(context)
+              : this._streamReAct(context);
+          for (;;) {
+            const next = await events.next();
+            if (next.done) {
+              const result = buildResult(next.value);
+              yield { type: 'final', content: result.content, result };
+              return;
+            }
+            emitted = true;
+            yield next.value;
           }
+        } catch (error) {
+          const next = chain[i + 1];
+          if (emitted || signal?.aborted || !next) throw error;
+          if (!(await this._shouldFallback(context, error, method, next))) throw error;
+
+          errors.push(error instanceof Error ? error.message : String(error));
+          this.logger.warn(
+            `${method === 'native' ? 'Native' : 'Planned'} streaming failed, falling back to ${
+              next === 'planned' ? 'planned' : 'ReAct'
+            } execution`,
+            { error: error instanceof Error ? error.message : String(error) }
+          );
+          mode = next === 'planned' ? 'fallback' : next;
         }
+      }
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+      const result = buildResult({ success: false, cancelled: Boolean(signal?.aborted) });
+      yield { type: 'final', content: result.content, result };
+    }
+  }
 
-        return fullPrompt;
-      } catch (error) {
-        this.logger.error('Retrieval augmentation failed, falling back to basic prompt', {
-          error: error instanceof Error ? error.message : String(error),
+  /**
+   * Stream native tool execution, using the adapter's streaming support when available
+   */
+  private async *_streamNative(
+    context: ExecutionContext
+  ): AsyncGenerator<StreamEvent, Partial<RunResult>> {
+    const { message, tools, model } = context;
+
+    const { messages, documents } = await this._buildMessages(context);
+
+    this.loggerUtils.logPrompt(MessageUtils.toText(messages), {
+      userMessage: message,
+      toolCount: tools.length,
+      executionMode: 'native_stream',
+    });
+
+    const toolOptions = this._toolExecutionOptions(context.options);
+    if (!model.streamWithTools) {
+      const executionResult = await model.executeWithTools(messages, tools, toolOptions);
+      if (!executionResult.success) {
+        throw this._nativeFailure(executionResult);
+      }
+      yield { type: 'text', delta: executionResult.content };
+      return {
+        content: executionResult.content,
+        toolCalls: executionResult.toolCalls,
+        retrievedDocuments: documents,
+      };
+    }
+
+    for await (const event of model.streamWithTools(messages, tools, toolOptions)) {
+      if (event.type === 'final') {
+        this.loggerUtils.logModelResponse(event.content, {
+          operation: 'native_stream',
+          toolCallCount: event.toolCalls.length,
         });
-        // Fall through to basic prompt building
+        return {
+          content: event.content,
+          toolCalls: event.toolCalls,
+          retrievedDocuments: documents,
+        };
       }
+      yield event;
     }
+    return { toolCalls: [], retrievedDocuments: documents };
+  }
 
-    // Basic prompt building (no retrieval)
-    if (systemPrompt) {
-      fullPrompt += `${systemPrompt}\n\n`;
+  /**
+   * Stream planned execution: per-step events followed by the streamed conversational answer
+   */
+  private async *_streamPlanned(
+    context: ExecutionContext
+  ): AsyncGenerator<StreamEvent, Partial<RunResult>> {
+    const { message, tools, memoryContext, systemPrompt, model, options } = context;
+    const queue = new AsyncQueue<StreamEvent>();
+
+    let executed: { plan: ExecutionPlan; output: string } | undefined;
+    let failure: unknown;
+    const events = this._planCallbacks(context);
+    const planning = this.planner
+      .executeWithPlan(
+        message,
+        tools,
+        memoryContext,
+        systemPrompt,
+        model,
+        this._plannerOptions(context),
+        {
+          onPlanCreated: events.onPlanCreated,
+          onStepStart: step => {
+            events.onStepStart?.(step);
+            queue.push({ type: 'step_start', stepId: step.id, toolName: step.toolName });
+          },
+          onStepEnd: (step, durationMs) => {
+            events.onStepEnd?.(step, durationMs);
+            queue.push({
+              type: 'step_end',
+              stepId: step.id,
+              toolName: step.toolName,
+              status: step.status,
+              result: step.result,
+              durationMs,
+            });
+          },
+        }
+      )
+      .then(
+        result => {
+          executed = result;
+        },
+        error => {
+          failure = error;
+        }
+      )
+      .finally(() => queue.close());
+
+    for await (const event of queue) {
+      yield event;
     }
+    await planning;
+    if (failure || !executed) throw failure;
+    const { plan, output } = executed;
+    const planned = { plan, steps: this._stepTimings(plan.steps) };
 
+    const responseMode = options.responseMode ?? 'conversational';
+    if (responseMode !== 'conversational') {
+      const content = await this.responseProcessor.formatResponse(responseMode, {
+        request: message,
+        plan,
+        output,
+      });
+      yield { type: 'text', delta: content };
+      return { ...planned, content };
+    }
+
+    let content = '';
+    for await (const delta of this.responseProcessor.streamConversationalResponse(
+      message,
+      output,
+      model,
+      systemPrompt,
+      { signal: options.signal, steps: plan.steps }
+    )) {
+      content += delta;
+      yield { type: 'text', delta };
+    }
+
+    return { ...planned, content };
+  }
+
+  /**
+   * Stream ReAct execution: per-step events followed by the answer
+   */
+  private async *_streamReAct(
+    context: ExecutionContext
+  ): AsyncGenerator<StreamEvent, Partial<RunResult>> {
+    const { message, tools, memoryContext, systemPrompt, model, options } = context;
+    const queue = new AsyncQueue<StreamEvent>();
+
+    let executed: ReActResult | undefined;
+    let failure: unknown;
+    const events = this._planCallbacks(context);
+    const running = this.reactExecutor
+      .execute(message, tools, memoryContext, systemPrompt, model, options, {
+        onStepStart: step => {
+          events.onStepStart?.(step);
+          queue.push({ type: 'step_start', stepId: step.id, toolName: step.toolName });
+        },
+        onStepEnd: (step, durationMs) => {
+          events.onStepEnd?.(step, durationMs);
+          queue.push({
+            type: 'step_end',
+            stepId: step.id,
+            toolName: step.toolName,
+            status: step.status,
+            result: step.result,
+            durationMs,
+          });
+        },
+      })
+      .then(
+        result => {
+          executed = result;
+        },
+        error => {
+          failure = error;
+        }
+      )
+      .finally(() => queue.close());
+
+    for await (const event of queue) {
+      yield event;
+    }
+    await running;
+    if (failure || !executed) throw failure;
+
+    yield { type: 'text', delta: executed.answer };
+    return { content: executed.answer, steps: this._stepTimings(executed.steps) };
+  }
+
+  /**
+   * Build the conversation sent to the model: system prompt and memory context as system
+   * messages, prior turns as real turns, then the (retrieval-augmented) request
+   */
+  private async _buildMessages(
+    context: ExecutionContext
+  ): Promise<{ messages: Message[]; documents: RetrievedDocument[] }> {
+    const { message, memoryContext, systemPrompt, retrieval, history = [] } = context;
+
+    const system: Message[] = [];
+    if (systemPrompt) {
+      system.push({ role: 'system', content: systemPrompt });
+    }
     if (memoryContext && memoryContext !== 'No relevant context available.') {
-      fullPrompt += `Relevant context:\n${memoryContext}\n\n`;
+      system.push({ role: 'system', content: `Relevant context:\n${memoryContext}` });
     }
 
-    fullPrompt += `User request: ${message}`;
+    // Apply retrieval augmentation if configured
+    if (retrieval && this.retrievalAugmentor) {
+      try {
+        this.logger.debug('Applying retrieval augmentation', {
+          sources: retrieval.sources,
+          maxDocuments: retrieval.maxDocuments,
+        });
+
+        const augmented = await this.retrievalAugmentor.augmentMessages(message, retrieval);
+        this._emit(context, 'retrieval:done', {
+          sources: retrieval.sources,
+          documents: augmented.documents,
+        });
+        return {
+          messages: [...system, ...history, ...augmented.messages],
+          documents: augmented.documents,
+        };
+      } catch (error) {
+        this.logger.error('Retrieval augmentation failed, falling back to basic prompt', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        // Fall through to basic message building
+      }
+    }
 
-    return fullPrompt;
+    return {
+      messages: [...system, ...history, { role: 'user', content: message }],
+      documents: [],
+    };
   }
 }
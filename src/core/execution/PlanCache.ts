@@ -0,0 +1,239 @@
+import { createHash } from 'crypto';
+import { Tool } from '../tools/types/Tool';
+import { Embedder } from '../retrieval/interfaces/Embedder';
+import { PlanStep } from './types/PlanStep';
+import { PlanCacheHit, PlanCacheMatcher, PlanCacheOptions } from './types/PlanCache';
+
+/** Default for options.ttlMs */
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+
+/** Default for options.maxEntries */
+const DEFAULT_MAX_ENTRIES = 1000;
+
+interface PlanCacheEntry {
+  request: string;
+  fingerprint: string;
+  steps: PlanStep[];
+  prepared?: unknown;
+  createdAt: number;
+}
+
+/**
+ * Lowercase, collapse whitespace and drop trailing punctuation
+ */
+function normalizeRequest(request: string): string {
+  return request
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[\s.!?]+$/, '')
+    .trim();
+}
+
+/**
+ * Pending copies of plan steps, without results, timings or expanded state
+ */
+function copySteps(steps: PlanStep[]): PlanStep[] {
+  return steps.map(step => {
+    const copy: PlanStep = {
+      id: step.id,
+      toolName: step.toolName,
+      params: JSON.parse(JSON.stringify(step.params ?? {})),
+      dependsOn: [...step.dependsOn],
+      status: 'pending',
+    };
+    if (step.condition !== undefined) copy.condition = step.condition;
+    if (step.forEach !== undefined) copy.forEach = step.forEach;
+    return copy;
+  });
+}
+
+/**
+ * Plans that executed successfully, kept in process memory and reused for the same request
+ * with the same tools, or for similar requests with a matcher (see EmbeddingPlanMatcher).
+ * Entries expire after options.ttlMs and the least recently used are dropped beyond
+ * options.maxEntries.
+ */
+export class PlanCache {
+  private entries = new Map<string, PlanCacheEntry>();
+  private ttlMs: number;
+  private maxEntries: number;
+  private matcher?: PlanCacheMatcher<any>;
+  private normalize: (request: string) => string;
+
+  constructor(options: PlanCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+    this.matcher = options.matcher;
+    this.normalize = options.normalize ?? normalizeRequest;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Identifies a tool set and system prompt; a plan is only reused with the same fingerprint.
+   * Changing a tool's name, description or params schema changes it.
+   */
+  fingerprint(tools: Tool[], systemPrompt = ''): string {
+    const described = tools
+      .map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        paramsSchema: tool.paramsSchema,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return createHash('sha256')
+      .update(JSON.stringify({ systemPrompt, tools: described }))
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  /**
+   * Find a plan for a request among the entries of a fingerprint: an identical normalised
+   * request first, then the best match of the matcher at or above its minScore.
+   * Expired entries are dropped.
+   */
+  async lookup(
+    request: string,
+    fingerprint: string,
+    now: number = Date.now()
+  ): Promise<PlanCacheHit | undefined> {
+    for (const [key, cached] of Array.from(this.entries.entries())) {
+      if (this.isExpired(cached, now)) {
+        this.entries.delete(key);
+      }
+    }
+
+    const normalized = this.normalize(request);
+    let entry = this.entries.get(this.key(fingerprint, normalized));
+    let similarity = 1;
+
+    if (!entry && this.matcher) {
+      const candidates = Array.from(this.entries.values()).filter(
+        candidate => candidate.fingerprint === fingerprint && candidate.prepared !== undefined
+      );
+      if (candidates.length > 0) {
+        const prepared = await this.matcher.prepare(normalized);
+        for (const candidate of candidates) {
+          const score = this.matcher.score(prepared, candidate.prepared);
+          if (score >= this.matcher.minScore && (!entry || score > similarity)) {
+            entry = candidate;
+            similarity = score;
+          }
+        }
+      }
+    }
+
+    if (!entry) {
+      return undefined;
+    }
+    // Keep recently used plans at the end, so eviction drops the least recently used
+    const entryKey = this.key(entry.fingerprint, entry.request);
+    this.entries.delete(entryKey);
+    this.entries.set(entryKey, entry);
+
+    return {
+      steps: copySteps(entry.steps),
+      request: entry.request,
+      similarity,
+      ageMs: now - entry.createdAt,
+    };
+  }
+
+  /**
+   * Cache the steps of a plan that executed successfully for a request
+   */
+  async store(
+    request: string,
+    fingerprint: string,
+    steps: PlanStep[],
+    now: number = Date.now()
+  ): Promise<void> {
+    const normalized = this.normalize(request);
+    const entry: PlanCacheEntry = {
+      request: normalized,
+      fingerprint,
+      steps: copySteps(steps),
+      createdAt: now,
+    };
+    if (this.matcher) {
+      entry.prepared = await this.matcher.prepare(normalized);
+    }
+
+    const key = this.key(fingerprint, normalized);
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Drop the plan cached for a request, e.g. after it failed validation or execution.
+   * Returns whether an entry was dropped.
+   */
+  remove(request: string, fingerprint: string): boolean {
+    return this.entries.delete(this.key(fingerprint, this.normalize(request)));
+  }
+
+  /**
+   * Drop the entries cached for a fingerprint, e.g. after the tools it was computed from changed.
+   * Returns the number of entries dropped.
+   */
+  invalidate(fingerprint: string): number {
+    let dropped = 0;
+    for (const [key, entry] of Array.from(this.entries.entries())) {
+      if (entry.fingerprint === fingerprint) {
+        dropped++;
+        this.entries.delete(key);
+      }
+    }
+    return dropped;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private key(fingerprint: string, normalized: string): string {
+    return `${fingerprint}:${normalized}`;
+  }
+
+  private isExpired(entry: PlanCacheEntry, now: number): boolean {
+    return now - entry.createdAt > this.ttlMs;
+  }
+}
+
+/**
+ * Matches requests by the cosine similarity of their embeddings, so rephrased questions
+ * reuse a plan. Keep minScore high: requests differing only in a city or an id embed closely
+ * but need different params.
+ */
+export class EmbeddingPlanMatcher implements PlanCacheMatcher<number[]> {
+  name: string;
+
+  constructor(private embedder: Embedder, public minScore = 0.95) {
+    this.name = `embedding:${embedder.name}`;
+  }
+
+  prepare(request: string): Promise<number[]> {
+    return this.embedder.embed(request);
+  }
+
+  score(request: number[], cached: number[]): number {
+    if (request.length !== cached.length) {
+      return 0;
+    }
+    let dotProduct = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < request.length; i++) {
+      dotProduct += request[i] * cached[i];
+      normA += request[i] * request[i];
+      normB += cached[i] * cached[i];
+    }
+    return normA === 0 || normB === 0 ? 0 : dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+  }
+}
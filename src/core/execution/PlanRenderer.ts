@@ -0,0 +1,160 @@
+import { ExecutionPlan } from './types/ExecutionPlan';
+import { PlanStep } from './types/PlanStep';
+
+/**
+ * Options for rendering a plan diagram
+ */
+export interface PlanRenderOptions {
+  /** Layout direction: top to bottom (default) or left to right */
+  direction?: 'TB' | 'LR';
+  /** Include each step's params in its node label */
+  includeParams?: boolean;
+  /** Maximum length of params and error text in labels (default 60) */
+  maxTextLength?: number;
+}
+
+type NodeStatus = PlanStep['status'] | 'missing';
+
+const STATUS_COLORS: Record<NodeStatus, { fill: string; stroke: string }> = {
+  pending: { fill: '#eeeeee', stroke: '#999999' },
+  completed: { fill: '#d4edda', stroke: '#28a745' },
+  failed: { fill: '#f8d7da', stroke: '#dc3545' },
+  skipped: { fill: '#fff3cd', stroke: '#ffc107' },
+  missing: { fill: '#ffffff', stroke: '#dc3545' },
+};
+
+/**
+ * Renders execution plans as Mermaid flowcharts or Graphviz DOT graphs: one node per step
+ * (tool, status, duration, condition, failure) and one edge per dependsOn entry.
+ * Dependencies on steps that do not exist are drawn as dashed "missing" nodes.
+ */
+export class PlanRenderer {
+  /**
+   * Render a plan as a Mermaid flowchart
+   */
+  toMermaid(plan: ExecutionPlan, options: PlanRenderOptions = {}): string {
+    const nodeIds = this.nodeIds(plan);
+    const escape = (text: string) =>
+      text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+    const lines = [`flowchart ${options.direction ?? 'TB'}`];
+
+    for (const step of plan.steps) {
+      const label = this.labelLines(step, options).map(escape).join('<br/>');
+      lines.push(`  ${nodeIds.get(step.id)}["${label}"]`);
+    }
+    for (const missing of this.missingDependencies(plan)) {
+      lines.push(`  ${nodeIds.get(missing)}["${escape(missing)} (missing)"]`);
+    }
+
+    for (const step of plan.steps) {
+      for (const dep of step.dependsOn) {
+        lines.push(`  ${nodeIds.get(dep)} --> ${nodeIds.get(step.id)}`);
+      }
+    }
+
+    for (const [status, colors] of Object.entries(STATUS_COLORS)) {
+      const dashed = status === 'missing' ? ',stroke-dasharray:5 5' : '';
+      lines.push(`  classDef ${status} fill:${colors.fill},stroke:${colors.stroke}${dashed}`);
+    }
+    for (const [id, status] of this.nodeStatuses(plan)) {
+      lines.push(`  class ${nodeIds.get(id)} ${status}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Render a plan as a Graphviz DOT digraph
+   */
+  toDot(plan: ExecutionPlan, options: PlanRenderOptions = {}): string {
+    const quote = (text: string) =>
+      `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+    const statuses = this.nodeStatuses(plan);
+    const lines = [
+      'digraph plan {',
+      `  rankdir=${options.direction ?? 'TB'};`,
+      '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+    ];
+
+    const node = (id: string, label: string) => {
+      const status = statuses.get(id) as NodeStatus;
+      const { fill, stroke } = STATUS_COLORS[status];
+      const style = status === 'missing' ? ', style="rounded,dashed"' : '';
+      lines.push(
+        `  ${quote(id)} [label=${quote(label)}, fillcolor="${fill}", color="${stroke}"${style}];`
+      );
+    };
+    for (const step of plan.steps) {
+      node(step.id, this.labelLines(step, options).join('\n'));
+    }
+    for (const missing of this.missingDependencies(plan)) {
+      node(missing, `${missing} (missing)`);
+    }
+
+    for (const step of plan.steps) {
+      for (const dep of step.dependsOn) {
+        lines.push(`  ${quote(dep)} -> ${quote(step.id)};`);
+      }
+    }
+
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  private labelLines(step: PlanStep, options: PlanRenderOptions): string[] {
+    const maxLength = options.maxTextLength ?? 60;
+    const truncate = (text: string) =>
+      text.length > maxLength ? `${text.slice(0, maxLength - 3)}...` : text;
+
+    const lines = [`${step.id}: ${step.toolName}`];
+    if (options.includeParams) lines.push(truncate(JSON.stringify(step.params)));
+    if (step.condition) lines.push(truncate(`if ${step.condition}`));
+    if (step.forEach) lines.push(truncate(`for each ${step.forEach}`));
+    lines.push(
+      step.durationMs !== undefined ? `${step.status} (${step.durationMs}ms)` : step.status
+    );
+    if (step.status === 'failed' && step.result !== undefined) {
+      lines.push(truncate(String(step.result)));
+    }
+    return lines;
+  }
+
+  /**
+   * Ids referenced in dependsOn that no step declares
+   */
+  private missingDependencies(plan: ExecutionPlan): string[] {
+    const stepIds = new Set(plan.steps.map(step => step.id));
+    const missing = new Set<string>();
+    for (const step of plan.steps) {
+      step.dependsOn.filter(dep => !stepIds.has(dep)).forEach(dep => missing.add(dep));
+    }
+    return Array.from(missing);
+  }
+
+  private nodeStatuses(plan: ExecutionPlan): Map<string, NodeStatus> {
+    const statuses = new Map<string, NodeStatus>();
+    for (const step of plan.steps) statuses.set(step.id, step.status);
+    for (const missing of this.missingDependencies(plan)) statuses.set(missing, 'missing');
+    return statuses;
+  }
+
+  /**
+   * Mermaid node ids: step ids reduced to word characters, made unique
+   */
+  private nodeIds(plan: ExecutionPlan): Map<string, string> {
+    const ids = new Map<string, string>();
+    const used = new Set<string>();
+    const stepIds = [...plan.steps.map(step => step.id), ...this.missingDependencies(plan)];
+    for (const id of stepIds) {
+      if (ids.has(id)) continue;
+      const base = id.replace(/\W/g, '_') || 'step';
+      let candidate = base;
+      for (let suffix = 2; used.has(candidate); suffix++) {
+        candidate = `${base}_${suffix}`;
+      }
+      used.add(candidate);
+      ids.set(id, candidate);
+    }
+    return ids;
+  }
+}
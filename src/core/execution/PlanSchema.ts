@@ -0,0 +1,73 @@
+import { Tool } from '../tools/types/Tool';
+
+/** A {{reference}} to an earlier result, accepted wherever a param expects another type */
+const REFERENCE_STRING = { type: 'string', pattern: '\\{\\{.+\\}\\}' };
+
+/** String constraints a {{reference}} would not satisfy */
+const STRING_CONSTRAINTS = ['enum', 'const', 'pattern', 'format', 'minLength', 'maxLength'];
+
+/**
+ * JSON Schema for a generated plan: `{ steps: [...] }`, where each step is a union over the
+ * available tools discriminated by `toolName`, with that tool's paramsSchema for `params`.
+ * Params may also hold {{references}}, which are only resolved at run time.
+ */
+export function buildPlanSchema(tools: Tool[]): Record<string, any> {
+  return {
+    type: 'object',
+    properties: {
+      steps: {
+        type: 'array',
+        ...(tools.length > 0 ? { items: { anyOf: tools.map(buildStepSchema) } } : { maxItems: 0 }),
+      },
+    },
+    required: ['steps'],
+  };
+}
+
+/**
+ * JSON Schema of a plan step calling the given tool
+ */
+export function buildStepSchema(tool: Tool): Record<string, any> {
+  // Round-tripping drops TypeBox's symbol keys and gives a copy safe to rewrite
+  const params = JSON.parse(JSON.stringify(tool.paramsSchema));
+  return {
+    type: 'object',
+    properties: {
+      id: { type: 'string', minLength: 1 },
+      toolName: { type: 'string', enum: [tool.name] },
+      params: allowReferences(params, true),
+      dependsOn: { type: 'array', items: { type: 'string' } },
+      condition: { type: 'string' },
+      forEach: { type: 'string' },
+    },
+    required: ['id', 'toolName', 'params', 'dependsOn'],
+  };
+}
+
+/**
+ * Let every nested value of a params schema be a {{reference}} instead
+ */
+function allowReferences(schema: any, root = false): any {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return schema;
+  }
+
+  const copy = { ...schema };
+  if (copy.properties && typeof copy.properties === 'object') {
+    copy.properties = Object.fromEntries(
+      Object.entries(copy.properties).map(([key, value]) => [key, allowReferences(value)])
+    );
+  }
+  if (copy.items && typeof copy.items === 'object' && !Array.isArray(copy.items)) {
+    copy.items = allowReferences(copy.items);
+  }
+  for (const keyword of ['anyOf', 'oneOf', 'allOf']) {
+    if (Array.isArray(copy[keyword])) {
+      copy[keyword] = copy[keyword].map((option: any) => allowReferences(option));
+    }
+  }
+
+  const plainString =
+    copy.type === 'string' && !STRING_CONSTRAINTS.some(keyword => keyword in copy);
+  return root || plainString ? copy : { anyOf: [copy, REFERENCE_STRING] };
+}
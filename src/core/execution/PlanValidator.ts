@@ -1,79 +1,279 @@
 import { Tool } from '../tools/types/Tool';
 import { ExecutionPlan } from './types/ExecutionPlan';
+import { PlanStep } from './types/PlanStep';
 import { ValidationResult } from './types/ValidationResult';
+import { ConditionEvaluator, ConditionNode } from './ConditionEvaluator';
 import { AgentLogger } from '../../infrastructure/logging/interfaces/AgentLogger';
 import { createDefaultLogger } from '../../infrastructure/logging/implementations/defaultLoggers';
-import Ajv from 'ajv';
+import Ajv, { ValidateFunction } from 'ajv';
 import { TSchema } from '@sinclair/typebox';
+import { buildStepSchema } from './PlanSchema';
+import { PlanValidationError } from '../../shared/errors/PlanErrors';
+import { ReferenceResolver } from './ReferenceResolver';
+import { PlanIssue, PlanIssueKind, PlanValidationReport } from './types/PlanValidationReport';
 
 export class PlanValidator {
   private ajv = new Ajv();
+  // Report every problem of a generated plan at once. Plan schemas mix types inside anyOf to
+  // accept {{references}}, which strict mode reports
+  private planAjv = new Ajv({ allErrors: true, strict: false });
+  private stepValidators = new WeakMap<Tool, ValidateFunction>();
+  private conditionEvaluator = new ConditionEvaluator();
+  private referenceResolver: ReferenceResolver;
   private logger: AgentLogger;
 
   constructor(logger?: AgentLogger) {
     this.logger = logger || createDefaultLogger();
+    this.referenceResolver = new ReferenceResolver(this.logger);
   }
 
   /**
-   * Validates the structure of an execution plan
-   * Checks tool existence and step dependencies
+   * Check generated steps against the plan schema for the available tools (see buildPlanSchema).
+   * Returns readable problems, empty when every step is valid.
    */
-  validateStructure(plan: ExecutionPlan, tools: Tool[]): void {
-    const toolMap = new Map(tools.map(t => [t.name, t]));
+  validatePlanSchema(steps: unknown[], tools: Tool[]): string[] {
+    const problems: string[] = [];
+
+    steps.forEach((step, index) => {
+      const toolName = (step as Partial<PlanStep> | null)?.toolName;
+      const tool = tools.find(t => t.name === toolName);
+      if (!tool) {
+        problems.push(
+          `/steps/${index}/toolName '${toolName}' is not one of the available tools: ${
+            tools.map(t => t.name).join(', ') || 'none'
+          }`
+        );
+        return;
+      }
+
+      let validate = this.stepValidators.get(tool);
+      if (!validate) {
+        validate = this.planAjv.compile(buildStepSchema(tool));
+        this.stepValidators.set(tool, validate);
+      }
+      if (!validate(step)) {
+        const messages = (validate.errors || [])
+          // The failed {{reference}} alternative only repeats the original error
+          .filter(error => !error.schemaPath.includes('/anyOf/1/'))
+          .filter(error => error.keyword !== 'anyOf')
+          .map(error => `/steps/${index}${error.instancePath} ${error.message}`);
+        problems.push(...Array.from(new Set(messages)));
+      }
+    });
+
+    return problems;
+  }
+
+  /**
+   * Statically validate a plan without changing it: unknown tools, duplicate step ids, unknown
+   * dependencies, params references to unknown or later steps, conditional/map step expressions
+   * and cycles. Params references to earlier steps missing from dependsOn are reported as
+   * inferred dependencies rather than issues.
+   */
+  validatePlan(plan: ExecutionPlan, tools: Tool[]): PlanValidationReport {
+    const toolNames = tools.map(t => t.name);
     const stepIds = new Set(plan.steps.map(s => s.id));
+    const issues: PlanIssue[] = [];
+    const inferredDependencies: PlanValidationReport['inferredDependencies'] = [];
+
+    // Dependencies per step, extended with inferred ones as they are found
+    const adjacency = new Map<string, string[]>();
+    for (const step of plan.steps) {
+      adjacency.set(step.id, [...(adjacency.get(step.id) || []), ...(step.dependsOn || [])]);
+    }
 
+    const seen = new Set<string>();
     for (const step of plan.steps) {
-      // Check if tool exists
-      const tool = toolMap.get(step.toolName);
-      if (!tool) {
-        this.logger.warn(`Tool '${step.toolName}' not found during plan validation`, {
-          availableTools: Array.from(toolMap.keys()),
-          stepId: step.id,
-        });
-        continue;
+      const issue = (kind: PlanIssueKind, message: string) =>
+        issues.push({ kind, stepId: step.id, message });
+
+      if (seen.has(step.id)) {
+        issue('duplicate_step_id', `Step id '${step.id}' is used by more than one step`);
+      }
+      seen.add(step.id);
+
+      if (!toolNames.includes(step.toolName)) {
+        issue(
+          'unknown_tool',
+          `Step '${step.id}' uses unknown tool '${step.toolName}'. Available tools: ${
+            toolNames.join(', ') || 'none'
+          }`
+        );
       }
 
-      // Check if step dependencies exist
       for (const depId of step.dependsOn) {
         if (!stepIds.has(depId)) {
-          throw new Error(
-            `Plan validation failed: Step '${step.id}' depends on non-existent step '${depId}'`
+          issue('unknown_dependency', `Step '${step.id}' depends on non-existent step '${depId}'`);
+        }
+      }
+
+      const inferred: string[] = [];
+      for (const reference of this.paramsReferences(step, plan)) {
+        if (!stepIds.has(reference)) {
+          if (reference === 'item' || reference === 'index') {
+            issue(
+              'invalid_control_flow',
+              `Step '${step.id}' uses {{${reference}}} but has no forEach`
+            );
+          } else {
+            issue(
+              'unknown_reference',
+              `Step '${step.id}' params reference unknown step '${reference}'`
+            );
+          }
+        } else if (reference === step.id) {
+          issue('downstream_reference', `Step '${step.id}' params reference its own result`);
+        } else if (this.dependsOnTransitively(reference, step.id, adjacency)) {
+          issue(
+            'downstream_reference',
+            `Step '${step.id}' params reference '${reference}', which runs after it`
           );
+        } else if (!step.dependsOn.includes(reference) && !inferred.includes(reference)) {
+          inferred.push(reference);
+          adjacency.get(step.id)?.push(reference);
         }
       }
+      if (inferred.length > 0) {
+        inferredDependencies.push({ stepId: step.id, dependsOn: inferred });
+      }
+
+      this.controlFlowProblems(step).forEach(reason =>
+        issue('invalid_control_flow', `Step '${step.id}' ${reason}`)
+      );
     }
 
-    // Detect circular dependencies using DFS
-    const adjacency = new Map<string, string[]>();
-    for (const step of plan.steps) {
-      adjacency.set(step.id, step.dependsOn || []);
+    const cycle = this.findCycle(plan.steps, adjacency);
+    if (cycle) {
+      issues.push({
+        kind: 'circular_dependency',
+        message: `Circular dependency detected: ${cycle.join(' -> ')}`,
+      });
     }
 
+    return { valid: issues.length === 0, issues, inferredDependencies };
+  }
+
+  /**
+   * Validates the structure of an execution plan before it runs (see validatePlan).
+   * Throws a PlanValidationError listing every issue; otherwise adds the inferred
+   * dependencies to the steps' dependsOn and returns the report.
+   */
+  validateStructure(plan: ExecutionPlan, tools: Tool[]): PlanValidationReport {
+    const report = this.validatePlan(plan, tools);
+    if (!report.valid) {
+      throw new PlanValidationError(
+        `Plan validation failed: ${report.issues.map(issue => issue.message).join('; ')}`,
+        report.issues[0].stepId
+      );
+    }
+
+    for (const { stepId, dependsOn } of report.inferredDependencies) {
+      const step = plan.steps.find(s => s.id === stepId);
+      step?.dependsOn.push(...dependsOn);
+    }
+    if (report.inferredDependencies.length > 0) {
+      this.logger.info('Inferred plan dependencies from params references', {
+        inferredDependencies: report.inferredDependencies,
+      });
+    }
+    return report;
+  }
+
+  /**
+   * Step ids read by a step's params whose results are not already in the plan context.
+   * In a map step, {{item}} and {{index}} are the current item rather than step references.
+   */
+  private paramsReferences(step: PlanStep, plan: ExecutionPlan): string[] {
+    const references = this.referenceResolver
+      .extractTemplateReferences(JSON.stringify(step.params ?? {}))
+      .map(reference => reference.stepId)
+      .filter(stepId => step.forEach === undefined || (stepId !== 'item' && stepId !== 'index'))
+      .filter(stepId => plan.context?.[stepId] === undefined);
+    return Array.from(new Set(references));
+  }
+
+  /**
+   * Whether `from` depends on `to`, directly or through other steps
+   */
+  private dependsOnTransitively(
+    from: string,
+    to: string,
+    adjacency: Map<string, string[]>
+  ): boolean {
+    const pending = [from];
+    const visited = new Set<string>();
+    while (pending.length > 0) {
+      const current = pending.pop() as string;
+      if (current === to) return true;
+      if (visited.has(current)) continue;
+      visited.add(current);
+      pending.push(...(adjacency.get(current) || []));
+    }
+    return false;
+  }
+
+  /**
+   * The first dependency cycle found using DFS, as a path ending where it starts
+   */
+  private findCycle(steps: PlanStep[], adjacency: Map<string, string[]>): string[] | undefined {
     const visiting = new Set<string>();
     const visited = new Set<string>();
 
-    const dfs = (node: string, path: string[]): boolean => {
+    const dfs = (node: string, path: string[]): string[] | undefined => {
       if (visiting.has(node)) {
         const cycleStart = path.indexOf(node);
-        const cyclePath = cycleStart >= 0 ? path.slice(cycleStart).concat(node) : path;
-        throw new Error(
-          `Plan validation failed: Circular dependency detected: ${cyclePath.join(' -> ')}`
-        );
+        return cycleStart >= 0 ? path.slice(cycleStart).concat(node) : path;
       }
-      if (visited.has(node)) return false;
+      if (visited.has(node)) return undefined;
       visiting.add(node);
-      const neighbors = adjacency.get(node) || [];
-      for (const n of neighbors) {
-        dfs(n, path.concat(node));
+      for (const neighbor of adjacency.get(node) || []) {
+        const cycle = dfs(neighbor, path.concat(node));
+        if (cycle) return cycle;
       }
       visiting.delete(node);
       visited.add(node);
-      return false;
+      return undefined;
     };
 
-    for (const step of plan.steps) {
-      if (!visited.has(step.id)) dfs(step.id, []);
+    for (const step of steps) {
+      const cycle = visited.has(step.id) ? undefined : dfs(step.id, []);
+      if (cycle) return cycle;
+    }
+    return undefined;
+  }
+
+  /**
+   * Conditions and forEach references must parse and only read steps the step depends on
+   */
+  private controlFlowProblems(step: PlanStep): string[] {
+    const problems: string[] = [];
+    const checkReferences = (field: 'condition' | 'forEach', expression: string): void => {
+      let node: ConditionNode;
+      try {
+        node = this.conditionEvaluator.parse(expression);
+      } catch (error) {
+        problems.push(`has an invalid ${field}: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
+      if (field === 'forEach' && node.type !== 'path') {
+        problems.push(
+          `forEach must be a reference to an array from an earlier step, got "${expression}"`
+        );
+      }
+      for (const reference of this.conditionEvaluator.references(node)) {
+        if (!step.dependsOn.includes(reference)) {
+          problems.push(`${field} references '${reference}', which must be listed in dependsOn`);
+        }
+      }
+    };
+
+    if (step.condition !== undefined) {
+      checkReferences('condition', step.condition);
+    }
+    if (step.forEach !== undefined) {
+      checkReferences('forEach', step.forEach);
     }
+    return problems;
   }
 
   /**
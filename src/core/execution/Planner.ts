@@ -5,17 +5,61 @@ import { createDefaultLogger } from '../../infrastructure/logging/implementation
 import { LoggerUtils } from '../../infrastructure/logging/utils/loggerUtils';
 import { PlanStep } from './types/PlanStep';
 import { ExecutionPlan } from './types/ExecutionPlan';
+import { PlanExecutionCallbacks } from './types/PlanExecutionCallbacks';
+import { ReplanContext } from './types/ReplanContext';
+import { PlanPreview, StepPreview } from './types/PlanPreview';
+import { ValidationResult } from './types/ValidationResult';
+import { PlanValidationReport } from './types/PlanValidationReport';
+import { PlanCache } from './PlanCache';
 import { RunOptions } from '../agent/types/RunOptions';
 import { parseJsonFromResponse } from '../../shared/utils/jsonParser';
+import { raceWithSignal, throwIfAborted } from '../../shared/utils/abort';
+import { Semaphore } from '../../shared/utils/semaphore';
+import { Message } from '../../shared/types/Message';
 
 import { ReferenceResolver, ReferenceResolutionContext } from './ReferenceResolver';
 import { PlanValidator } from './PlanValidator';
+import { ConditionEvaluator } from './ConditionEvaluator';
+import { CheckpointStore } from '../checkpoint/interfaces/CheckpointStore';
+import { PlanCheckpoint } from '../checkpoint/types/PlanCheckpoint';
+import { PromptTemplates } from './types/PromptTemplates';
+import { buildPlanSchema } from './PlanSchema';
+import { invokeStepTool } from './StepInvocation';
+import { formatStepResult } from './StepResults';
+import { PlanParseError, PlanValidationError } from '../../shared/errors/PlanErrors';
+import { ToolNotFoundError } from '../../shared/errors/ToolErrors';
+import {
+  DEFAULT_PLANNING_TEMPLATE,
+  describeTools,
+  formatPlanExamples,
+  hasSlot,
+  renderPromptTemplate,
+  validatePromptTemplates,
+} from './PromptTemplates';
+
+/** Default for options.maxPlanAttempts */
+const DEFAULT_MAX_PLAN_ATTEMPTS = 3;
+
+/**
+ * Generate a unique plan ID
+ */
+function generatePlanId(): string {
+  return `plan_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+}
 
 export class Planner {
   private logger: AgentLogger;
   private loggerUtils: LoggerUtils;
   private referenceResolver: ReferenceResolver;
   private planValidator: PlanValidator;
+  private conditionEvaluator = new ConditionEvaluator();
+  private checkpointStore?: CheckpointStore;
+  private checkpointWrites: Promise<void> = Promise.resolve();
+  private checkpointCreatedAt = new Map<string, Date>();
+  private promptTemplates: PromptTemplates = {};
+  private planCache?: PlanCache;
+  // Last plan cache fingerprint used with each system prompt, to notice tool changes
+  private planFingerprints = new Map<string, string>();
 
   constructor(logger?: AgentLogger) {
     this.logger = logger || createDefaultLogger();
@@ -24,6 +68,83 @@ export class Planner {
     this.planValidator = new PlanValidator(this.logger);
   }
 
+  /**
+   * Store that receives a checkpoint of each executed plan after every step, enabling resume()
+   */
+  setCheckpointStore(store: CheckpointStore | undefined) {
+    this.checkpointStore = store;
+  }
+
+  getCheckpointStore(): CheckpointStore | undefined {
+    return this.checkpointStore;
+  }
+
+  /**
+   * Custom planning prompt and few-shot example plans; unset fields use the built-in prompt
+   */
+  setPromptTemplates(templates: PromptTemplates) {
+    validatePromptTemplates(templates);
+    this.promptTemplates = templates;
+  }
+
+  getPromptTemplates(): PromptTemplates {
+    return this.promptTemplates;
+  }
+
+  /**
+   * Cache of successfully executed plans, reused instead of asking the model to plan
+   * a repeated request with the same tools
+   */
+  setPlanCache(cache: PlanCache | undefined) {
+    this.planCache = cache;
+    this.planFingerprints.clear();
+  }
+
+  getPlanCache(): PlanCache | undefined {
+    return this.planCache;
+  }
+
+  /**
+   * Continue a checkpointed plan, e.g. after a process restart. Completed and skipped steps
+   * keep their results and are never re-run; failed and pending steps run again.
+   * The output includes the result lines of the steps finished before the resume.
+   */
+  async resume(
+    planId: string,
+    tools: Tool[],
+    options: RunOptions = {},
+    callbacks: PlanExecutionCallbacks = {}
+  ): Promise<{ plan: ExecutionPlan; output: string }> {
+    if (!this.checkpointStore) {
+      throw new Error('Cannot resume a plan without a checkpoint store');
+    }
+    const checkpoint = await this.checkpointStore.load(planId);
+    if (!checkpoint) {
+      throw new Error(`No checkpoint found for plan '${planId}'`);
+    }
+
+    const plan = { ...checkpoint.plan, id: checkpoint.id };
+    for (const step of plan.steps) {
+      if (step.status === 'failed') {
+        step.status = 'pending';
+        delete step.result;
+        delete step.durationMs;
+      }
+    }
+    const finished = plan.steps.filter(step => step.status !== 'pending');
+    this.logger.info('Resuming plan from checkpoint', {
+      planId,
+      finishedSteps: finished.map(step => step.id),
+      pendingSteps: plan.steps.filter(step => step.status === 'pending').map(step => step.id),
+    });
+
+    this.checkpointCreatedAt.set(planId, checkpoint.createdAt);
+    const output = await this.executePlan(plan, tools, options, callbacks);
+    const lines = finished.map(step => formatStepResult(step));
+    if (output) lines.push(output);
+    return { plan, output: lines.join('\n') };
+  }
+
   /**
    * Execute a request using traditional planning approach
    */
@@ -33,230 +154,944 @@ export class Planner {
     memoryContext: string,
     systemPrompt: string,
     model: ModelAdapter,
-    options: RunOptions = {}
+    options: RunOptions = {},
+    callbacks: PlanExecutionCallbacks = {}
   ): Promise<string> {
+    const { output } = await this.executeWithPlan(
+      message,
+      tools,
+      memoryContext,
+      systemPrompt,
+      model,
+      options,
+      callbacks
+    );
+    return output;
+  }
+
+  /**
+   * Execute a request using traditional planning approach, returning the executed plan
+   * alongside the raw output so callers can inspect step statuses and timings.
+   * With a plan cache, a cached plan is reused when one matches; a new plan is cached once
+   * every step completed or was skipped. A cached plan that fails validation or a step is
+   * dropped from the cache.
+   */
+  async executeWithPlan(
+    message: string,
+    tools: Tool[],
+    memoryContext: string,
+    systemPrompt: string,
+    model: ModelAdapter,
+    options: RunOptions = {},
+    callbacks: PlanExecutionCallbacks = {}
+  ): Promise<{ plan: ExecutionPlan; output: string }> {
     this.logger.info('Using planned execution', {
       adapterName: model.name,
       toolCount: tools.length,
     });
+    const startedAt = Date.now();
 
-    const plan = await this.createPlan(message, tools, memoryContext, systemPrompt, model);
+    const fingerprint = this.planCache?.fingerprint(tools, systemPrompt);
+    const cached = fingerprint
+      ? await this.findCachedPlan(message, fingerprint, systemPrompt, options)
+      : undefined;
+    const plan =
+      cached?.plan ??
+      (await this.createPlan(message, tools, memoryContext, systemPrompt, model, options));
 
     this.loggerUtils.logPlanCreation(message, tools, plan);
+    callbacks.onPlanCreated?.(plan);
+
+    // Time spent planning counts towards maxDurationMs
+    const remaining =
+      options.maxDurationMs === undefined
+        ? options
+        : {
+            ...options,
+            maxDurationMs: Math.max(0, options.maxDurationMs - (Date.now() - startedAt)),
+          };
+    let output: string;
+    try {
+      output = await this.executePlan(plan, tools, remaining, callbacks, {
+        message,
+        memoryContext,
+        systemPrompt,
+        model,
+      });
+    } catch (error) {
+      if (cached && fingerprint && !options.signal?.aborted) {
+        this.uncachePlan(cached.request, fingerprint, error);
+      }
+      throw error;
+    }
 
-    return this.executePlan(plan, tools, options);
+    if (fingerprint && !cached) {
+      await this.cachePlan(message, fingerprint, plan, options);
+    } else if (cached && fingerprint && !this.succeeded(plan)) {
+      this.uncachePlan(cached.request, fingerprint, 'a step failed');
+    }
+    return { plan, output };
   }
 
   /**
-   * Create a traditional execution plan
+   * A pending copy of a cached plan for the request, if any, with the request it was cached
+   * for. Cache failures are logged and never fail the run.
    */
-  async createPlan(
+  private async findCachedPlan(
+    message: string,
+    fingerprint: string,
+    systemPrompt: string,
+    options: RunOptions
+  ): Promise<{ plan: ExecutionPlan; request: string } | undefined> {
+    const cache = this.planCache;
+    if (!cache || options.usePlanCache === false) {
+      return undefined;
+    }
+
+    try {
+      // A new fingerprint for the same system prompt means this planner's tools changed.
+      // Only the plans cached for the previous tools are dropped; other agents may share the cache.
+      const previous = this.planFingerprints.get(systemPrompt);
+      this.planFingerprints.set(systemPrompt, fingerprint);
+      if (previous !== undefined && previous !== fingerprint) {
+        const invalidated = cache.invalidate(previous);
+        if (invalidated > 0) {
+          this.logger.info('Plan cache invalidated after a tool change', { invalidated });
+        }
+      }
+      const hit = await cache.lookup(message, fingerprint);
+      if (!hit) {
+        this.logger.info('Plan cache miss', { request: message, cacheSize: cache.size });
+        return undefined;
+      }
+      const plan: ExecutionPlan = { id: generatePlanId(), steps: hit.steps, context: {} };
+      this.logger.info('Plan cache hit', {
+        request: message,
+        cachedRequest: hit.request,
+        similarity: hit.similarity,
+        ageMs: hit.ageMs,
+        planId: plan.id,
+      });
+      return { plan, request: hit.request };
+    } catch (error) {
+      this.logger.warn('Plan cache lookup failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Cache a plan whose steps all completed or were skipped
+   */
+  private async cachePlan(
+    message: string,
+    fingerprint: string,
+    plan: ExecutionPlan,
+    options: RunOptions
+  ): Promise<void> {
+    if (
+      !this.planCache ||
+      options.usePlanCache === false ||
+      options.dryRun ||
+      !this.succeeded(plan)
+    ) {
+      return;
+    }
+
+    try {
+      await this.planCache.store(message, fingerprint, plan.steps);
+      this.logger.debug('Plan cached', { planId: plan.id, cacheSize: this.planCache.size });
+    } catch (error) {
+      this.logger.warn('Plan could not be cached', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Drop a cached plan that did not work for the request, so the next run plans again
+   */
+  private uncachePlan(request: string, fingerprint: string, reason: unknown): void {
+    if (this.planCache?.remove(request, fingerprint)) {
+      this.logger.info('Cached plan removed after a failure', {
+        cachedRequest: request,
+        reason: reason instanceof Error ? reason.message : String(reason),
+      });
+    }
+  }
+
+  private succeeded(plan: ExecutionPlan): boolean {
+    return plan.steps.every(step => step.status === 'completed' || step.status === 'skipped');
+  }
+
+  /**
+   * Create and validate a plan for a request and explain it without calling any tool
+   */
+  async dryRun(
     message: string,
     tools: Tool[],
     memoryContext: string,
     systemPrompt: string,
-    model: ModelAdapter
-  ): Promise<ExecutionPlan> {
-    const toolDescriptions = tools
-      .map(
-        t =>
-          `Tool: ${t.name}\nDescription: ${t.description}\nParams: ${JSON.stringify(
-            t.paramsSchema
-          )}`
-      )
-      .join('\n\n');
+    model: ModelAdapter,
+    options: RunOptions = {},
+    callbacks: PlanExecutionCallbacks = {}
+  ): Promise<PlanPreview> {
+    const plan = await this.createPlan(message, tools, memoryContext, systemPrompt, model, options);
 
-    const planningPrompt = `${systemPrompt}
+    this.loggerUtils.logPlanCreation(message, tools, plan);
+    callbacks.onPlanCreated?.(plan);
 
-Context from memory:
-${memoryContext}
+    const preview = this.preview(plan, tools, options);
+    this.logger.info('Dry run completed', {
+      planId: plan.id,
+      valid: preview.valid,
+      steps: preview.steps.map(step => ({ id: step.stepId, errors: step.errors })),
+      errors: preview.errors,
+    });
+    return preview;
+  }
 
-Available Tools:
-${toolDescriptions}
-
-Current request: ${message}
-
-Create an execution plan. Respond ONLY with a JSON array of steps:
-[
-  {
-    "id": "step1",
-    "toolName": "name",
-    "params": {...},
-    "dependsOn": []
-  },
-  {
-    "id": "step2", 
-    "toolName": "name2",
-    "params": {"input": "{{step1}}"},
-    "dependsOn": ["step1"]
+  /**
+   * Describe what a plan would do without calling any tool: validate its structure, resolve the
+   * references whose results are already known (plan.context), check params that need no
+   * run-time results against each tool's paramsSchema and explain every step
+   */
+  preview(plan: ExecutionPlan, tools: Tool[], options: RunOptions = {}): PlanPreview {
+    // Unknown tools and references are reported with their step
+    const errors = this.planValidator
+      .validatePlan(plan, tools)
+      .issues.filter(issue => issue.kind !== 'unknown_tool' && issue.kind !== 'unknown_reference')
+      .map(issue => `Plan validation failed: ${issue.message}`);
+
+    const steps = plan.steps.map(step => this.previewStep(step, plan, tools, options));
+    const valid = errors.length === 0 && steps.every(step => step.errors.length === 0);
+    return {
+      plan,
+      steps,
+      errors,
+      valid,
+      explanation: this.explainPreview(plan, steps, errors, valid),
+    };
+  }
+
+  /**
+   * Statically validate a plan against the available tools without changing or running it.
+   * The issues are readable enough to send back to the model when asking for a repaired plan.
+   */
+  validatePlan(plan: ExecutionPlan, tools: Tool[]): PlanValidationReport {
+    return this.planValidator.validatePlan(plan, tools);
   }
-]
 
-Use {{stepId}} in params to reference previous step results.`;
+  /**
+   * Create a traditional execution plan. The model is given a JSON schema of valid plans for
+   * the available tools; a plan that fails to parse, match the schema or pass validatePlan is
+   * sent back with the errors, up to options.maxPlanAttempts (default 3) responses in total.
+   */
+  async createPlan(
+    message: string,
+    tools: Tool[],
+    memoryContext: string,
+    systemPrompt: string,
+    model: ModelAdapter,
+    options: RunOptions = {}
+  ): Promise<ExecutionPlan> {
+    const template = this.promptTemplates.planning ?? DEFAULT_PLANNING_TEMPLATE;
+    const inlineSystemPrompt = hasSlot(template, 'systemPrompt');
+    const planningPrompt = renderPromptTemplate(template, {
+      systemPrompt,
+      memory: memoryContext,
+      tools: describeTools(tools),
+      request: message,
+      examples: formatPlanExamples(this.promptTemplates.planExamples),
+    });
 
     this.loggerUtils.logPrompt(planningPrompt, { userMessage: message, toolCount: tools.length });
-    const response = await model.complete(planningPrompt, { json: true });
-    this.loggerUtils.logModelResponse(response, { operation: 'plan_creation' });
-    try {
-      const parsed = parseJsonFromResponse(response);
-
-      // Normalize different valid shapes the model might return
-      // - Array of steps
-      // - Object with { steps: [...] }
-      // - Single step object
-      let stepsRaw: any[] = [];
-      if (Array.isArray(parsed)) {
-        stepsRaw = parsed;
-      } else if (parsed && Array.isArray((parsed as any).steps)) {
-        stepsRaw = (parsed as any).steps;
-      } else if (
-        parsed &&
-        typeof parsed === 'object' &&
-        (parsed as any).id &&
-        (parsed as any).toolName
-      ) {
-        stepsRaw = [parsed];
-      } else {
-        throw new Error('Unexpected plan format');
-      }
+    const messages: Message[] =
+      systemPrompt && !inlineSystemPrompt ? [{ role: 'system', content: systemPrompt }] : [];
+    messages.push({ role: 'user', content: planningPrompt });
 
-      // Coerce and default fields to fit PlanStep interface
-      const steps: PlanStep[] = stepsRaw.map((s: any): PlanStep => {
-        const id = String(s.id ?? '').trim();
-        const toolName = String(s.toolName ?? '').trim();
-        const params = s.params ?? {};
-        const dependsOn = Array.isArray(s.dependsOn) ? s.dependsOn.map((d: any) => String(d)) : [];
+    const schema = buildPlanSchema(tools);
+    const maxAttempts = Math.max(1, options.maxPlanAttempts ?? DEFAULT_MAX_PLAN_ATTEMPTS);
+    let response = '';
+    let problems: string[] = [];
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // Raced with the signal so maxDurationMs also ends a request the adapter never settles
+      response = await raceWithSignal(
+        model.complete(messages, { json: true, schema, signal: options.signal }),
+        options.signal
+      );
+      this.loggerUtils.logModelResponse(response, { operation: 'plan_creation', attempt });
+
+      let plan: ExecutionPlan | undefined;
+      try {
+        problems = this.planValidator.validatePlanSchema(this.readSteps(response), tools);
+        if (problems.length === 0) {
+          plan = { id: generatePlanId(), steps: this.parseSteps(response), context: {} };
+          problems = this.planValidator.validatePlan(plan, tools).issues.map(i => i.message);
+        }
+      } catch (error) {
+        problems = [error instanceof Error ? error.message : String(error)];
+      }
+      if (plan && problems.length === 0) {
+        return plan;
+      }
 
-        if (!id || !toolName) {
-          throw new Error('Plan step missing required fields id/toolName');
+      this.logger.warn('Generated plan was rejected', { attempt, maxAttempts, problems });
+      messages.push(
+        { role: 'assistant', content: response },
+        {
+          role: 'user',
+          content: `Your plan was rejected for these reasons:\n- ${problems.join(
+            '\n- '
+          )}\n\nReturn a corrected plan as JSON only.`,
         }
+      );
+    }
 
-        return {
-          id,
-          toolName,
-          params,
-          dependsOn,
-          status: 'pending',
-        };
-      });
+    throw new PlanParseError(
+      `Failed to parse execution plan after ${maxAttempts} attempt(s): ${problems.join(
+        '; '
+      )}\n${response}`,
+      response
+    );
+  }
 
-      return {
-        steps,
-        context: {},
-      };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to parse execution plan: ${message}\n${response}`);
+  /**
+   * Raw plan steps from a model response, accepting an array, { steps: [...] } or a single step
+   */
+  private readSteps(response: string): unknown[] {
+    const parsed = parseJsonFromResponse(response);
+    if (Array.isArray(parsed)) {
+      return parsed;
     }
+    if (parsed && Array.isArray((parsed as any).steps)) {
+      return (parsed as any).steps;
+    }
+    if (parsed && typeof parsed === 'object' && (parsed as any).id && (parsed as any).toolName) {
+      return [parsed];
+    }
+    throw new PlanParseError('Unexpected plan format', response);
+  }
+
+  /**
+   * Parse plan steps from a model response, all marked pending
+   */
+  private parseSteps(response: string): PlanStep[] {
+    const stepsRaw = this.readSteps(response) as any[];
+
+    // Coerce and default fields to fit PlanStep interface
+    const steps: PlanStep[] = stepsRaw.map((s: any): PlanStep => {
+      const id = String(s.id ?? '').trim();
+      const toolName = String(s.toolName ?? '').trim();
+      const params = s.params ?? {};
+      const dependsOn = Array.isArray(s.dependsOn) ? s.dependsOn.map((d: any) => String(d)) : [];
+
+      if (!id || !toolName) {
+        throw new PlanParseError('Plan step missing required fields id/toolName', response);
+      }
+
+      const step: PlanStep = { id, toolName, params, dependsOn, status: 'pending' };
+      if (typeof s.condition === 'string' && s.condition.trim()) {
+        step.condition = s.condition;
+      }
+      if (typeof s.forEach === 'string' && s.forEach.trim()) {
+        step.forEach = s.forEach;
+      }
+      return step;
+    });
+
+    return steps;
   }
 
   /**
-   * Execute a plan
+   * Execute a plan, running each wave of ready steps with up to options.maxConcurrency
+   * steps in flight (default 1). Results are reported in plan order within a wave.
+   * With a replan context and options.maxReplans, a wave with failed steps is followed by
+   * asking the model for a revised remainder of the plan, which replaces the pending steps.
+   * With a checkpoint store, the plan is saved before the first step and after every step.
+   * With options.dryRun, returns the explanation of preview() instead and no tool is called.
+   * Throws a CancelledError when options.signal is aborted; steps completed so far keep their results
    */
-  async executePlan(plan: ExecutionPlan, tools: Tool[], options: RunOptions = {}): Promise<string> {
+  async executePlan(
+    plan: ExecutionPlan,
+    tools: Tool[],
+    options: RunOptions = {},
+    callbacks: PlanExecutionCallbacks = {},
+    replan?: ReplanContext
+  ): Promise<string> {
+    if (options.dryRun) {
+      return this.preview(plan, tools, options).explanation;
+    }
+
     // Validate plan structure before execution
     this.planValidator.validateStructure(plan, tools);
+    if (this.checkpointStore && !plan.id) {
+      plan.id = generatePlanId();
+    }
+    await this.saveCheckpoint(plan);
 
     const results: string[] = [];
     const runStart = Date.now();
+    const concurrency = Math.max(1, options.maxConcurrency ?? 1);
+    // Tool calls of steps and of map step items share the maxConcurrency limit
+    const slots = new Semaphore(concurrency);
+    const maxReplans = replan ? Math.max(0, options.maxReplans ?? 0) : 0;
+    let replans = 0;
     let executedSteps = 0;
+    // Set once execution must stop; a non-empty value is appended to the results
+    let stopReason: string | undefined;
 
-    while (plan.steps.some(step => step.status === 'pending')) {
+    while (stopReason === undefined && plan.steps.some(step => step.status === 'pending')) {
       const executableSteps = plan.steps.filter(step => {
         if (step.status !== 'pending') return false;
         return step.dependsOn.every(depId => {
           const depStep = plan.steps.find(s => s.id === depId);
-          return depStep?.status === 'completed';
+          // A skipped step satisfies its dependents, which see no result for it
+          return depStep?.status === 'completed' || depStep?.status === 'skipped';
         });
       });
 
       if (executableSteps.length === 0) {
-        throw new Error('Plan execution deadlocked or contains circular dependencies');
+        throw new PlanValidationError(
+          'Plan execution deadlocked or contains circular dependencies'
+        );
       }
 
-      for (const step of executableSteps) {
-        if (options.maxSteps !== undefined && executedSteps >= options.maxSteps) {
-          this.logger.warn('Max steps reached, stopping execution', { maxSteps: options.maxSteps });
-          return results.concat('Max steps reached, stopping.').join('\n');
+      const waveResults: Array<string | undefined> = new Array(executableSteps.length);
+      let next = 0;
+      let inFlight = 0;
+
+      // Each worker keeps starting the next ready step until the wave is drained or a limit is hit
+      const worker = async (): Promise<void> => {
+        while (stopReason === undefined && next < executableSteps.length) {
+          throwIfAborted(options.signal);
+          // Running steps count towards maxSteps so concurrency never overshoots it
+          if (options.maxSteps !== undefined && executedSteps + inFlight >= options.maxSteps) {
+            if (inFlight === 0) {
+              this.logger.warn('Max steps reached, stopping execution', {
+                maxSteps: options.maxSteps,
+              });
+              stopReason = 'Max steps reached, stopping.';
+            }
+            return;
+          }
+          if (
+            options.maxDurationMs !== undefined &&
+            Date.now() - runStart > options.maxDurationMs
+          ) {
+            this.logger.warn('Max duration reached, stopping execution', {
+              maxDurationMs: options.maxDurationMs,
+            });
+            stopReason = 'Max duration reached, stopping.';
+            return;
+          }
+
+          const index = next++;
+          const step = executableSteps[index];
+          inFlight += 1;
+          try {
+            waveResults[index] = await this.executeStep(
+              step,
+              plan,
+              tools,
+              options,
+              callbacks,
+              slots
+            );
+          } finally {
+            inFlight -= 1;
+            await this.saveCheckpoint(plan);
+          }
+
+          if (step.status === 'completed') {
+            executedSteps += 1;
+          } else if (
+            step.status === 'failed' &&
+            options.stopOnFirstToolError &&
+            replans >= maxReplans &&
+            stopReason === undefined
+          ) {
+            this.logger.warn('Stopping on first tool error as configured', {
+              stepId: step.id,
+              toolName: step.toolName,
+            });
+            stopReason = '';
+          }
         }
-        if (options.maxDurationMs !== undefined && Date.now() - runStart > options.maxDurationMs) {
-          this.logger.warn('Max duration reached, stopping execution', {
-            maxDurationMs: options.maxDurationMs,
-          });
-          return results.concat('Max duration reached, stopping.').join('\n');
+      };
+
+      await Promise.all(
+        Array.from({ length: Math.min(concurrency, executableSteps.length) }, () => worker())
+      );
+      results.push(...waveResults.filter((line): line is string => line !== undefined));
+
+      const failedSteps = executableSteps.filter(step => step.status === 'failed');
+      if (replan && failedSteps.length > 0 && stopReason === undefined && replans < maxReplans) {
+        replans += 1;
+        const revised = await this.revisePlan(plan, failedSteps, tools, replan, options, replans);
+        if (!revised && options.stopOnFirstToolError) {
+          stopReason = '';
         }
+      }
+    }
 
-        const stepStart = Date.now();
-        this.loggerUtils.logStepStart(step.id, step.toolName);
-        try {
-          const tool = tools.find(t => t.name === step.toolName);
+    if (stopReason) {
+      results.push(stopReason);
+    }
+    this.loggerUtils.logPlanExecution(plan);
+    await this.saveCheckpoint(plan);
+    return results.join('\n');
+  }
 
-          if (!tool) {
-            throw new Error(`Tool '${step.toolName}' not found`);
-          }
+  /**
+   * Save a snapshot of the plan to the checkpoint store, if one is configured.
+   * Saves are chained so concurrent steps never write the same checkpoint at once;
+   * a failed save is logged and does not stop execution.
+   */
+  private async saveCheckpoint(plan: ExecutionPlan): Promise<void> {
+    const store = this.checkpointStore;
+    if (!store || !plan.id) {
+      return;
+    }
 
-          // Use reference resolution with results context
-          const context: ReferenceResolutionContext = {
-            results: plan.context,
-            metadata: {},
-          };
+    const now = new Date();
+    const completed = !plan.steps.some(step => step.status === 'pending');
+    const checkpoint: PlanCheckpoint = {
+      id: plan.id,
+      // Snapshot now, as running steps keep updating the plan while the save is queued
+      plan: JSON.parse(JSON.stringify(plan)),
+      completed,
+      createdAt: this.checkpointCreatedAt.get(plan.id) ?? now,
+      updatedAt: now,
+    };
+    if (completed) {
+      this.checkpointCreatedAt.delete(plan.id);
+    } else {
+      this.checkpointCreatedAt.set(plan.id, checkpoint.createdAt);
+    }
 
-          const processedParams = this.referenceResolver.resolveReferences(
-            step.params,
-            context,
-            tool.paramsSchema
-          );
-          this.loggerUtils.logParameterResolution(step.id, step.params, processedParams);
+    const write = this.checkpointWrites.then(() => store.save(checkpoint));
+    this.checkpointWrites = write.catch(() => undefined);
+    try {
+      await write;
+    } catch (error) {
+      this.logger.warn('Failed to save plan checkpoint', {
+        planId: plan.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
 
-          // Validate params
-          const validationResult = this.planValidator.validateParameters(
-            processedParams,
-            tool.paramsSchema
+  /**
+   * Ask the model for a revised remainder of the plan after steps failed and merge it in place:
+   * completed and failed steps are kept, pending steps are replaced by the revision.
+   * Returns false (leaving the plan unchanged) when the revision cannot be used.
+   */
+  private async revisePlan(
+    plan: ExecutionPlan,
+    failedSteps: PlanStep[],
+    tools: Tool[],
+    replan: ReplanContext,
+    options: RunOptions,
+    revision: number
+  ): Promise<boolean> {
+    const describe = (step: PlanStep) =>
+      `- ${step.id} (${step.toolName}) params ${JSON.stringify(step.params)}`;
+    const finished = plan.steps.filter(step => step.status !== 'pending');
+    const pending = plan.steps.filter(step => step.status === 'pending');
+
+    const replanningPrompt = `Context from memory:
+${replan.memoryContext}
+
+Available Tools:
+${describeTools(tools)}
+
+Original request: ${replan.message}
+
+Completed steps:
+${
+  finished
+    .filter(step => step.status === 'completed')
+    .map(step => `${describe(step)} -> ${JSON.stringify(step.result)}`)
+    .join('\n') || '(none)'
+}
+
+Failed steps:
+${failedSteps.map(step => `${describe(step)} -> ${step.result}`).join('\n')}
+
+Steps not yet run:
+${
+  pending.map(step => `${describe(step)} dependsOn ${JSON.stringify(step.dependsOn)}`).join('\n') ||
+  '(none)'
+}
+
+Some steps failed. Revise the rest of the plan so the request can still be fulfilled, for example by retrying with corrected params or using another tool. Respond ONLY with a JSON array of the steps to run next, in the same format as the original plan. Use new step ids. Steps may reference and depend on completed steps using {{stepId}}, but not on failed steps. Respond with [] if the request cannot be fulfilled.`;
+
+    this.loggerUtils.logPrompt(replanningPrompt, { operation: 'plan_revision', revision });
+    const messages: Message[] = replan.systemPrompt
+      ? [{ role: 'system', content: replan.systemPrompt }]
+      : [];
+    messages.push({ role: 'user', content: replanningPrompt });
+    const response = await replan.model.complete(messages, { json: true, signal: options.signal });
+    this.loggerUtils.logModelResponse(response, { operation: 'plan_revision', revision });
+
+    try {
+      const revisedSteps = this.parseSteps(response);
+      const finishedIds = new Set(finished.map(step => step.id));
+      const completedIds = new Set(
+        finished.filter(step => step.status !== 'failed').map(step => step.id)
+      );
+      const revisedIds = new Set(revisedSteps.map(step => step.id));
+
+      for (const step of revisedSteps) {
+        if (finishedIds.has(step.id)) {
+          throw new PlanValidationError(
+            `Step id '${step.id}' is already used by an executed step`,
+            step.id
           );
-          if (!validationResult.isValid) {
-            this.loggerUtils.logValidationError(step.toolName, validationResult.errors);
-            throw new Error(
-              `Invalid params for tool '${step.toolName}': ${JSON.stringify(
-                validationResult.errors
-              )}`
-            );
-          }
+        }
+      }
+      // Also adds the steps read by params to dependsOn, so they are checked below
+      this.planValidator.validateStructure(
+        { steps: [...finished, ...revisedSteps], context: {} },
+        tools
+      );
+      for (const step of revisedSteps) {
+        const blocked = step.dependsOn.find(dep => !completedIds.has(dep) && !revisedIds.has(dep));
+        if (blocked) {
+          throw new PlanValidationError(
+            `Step '${step.id}' depends on '${blocked}', which cannot complete`,
+            step.id
+          );
+        }
+      }
+
+      plan.steps = [...finished, ...revisedSteps];
+      this.logger.info('Plan revised after step failure', {
+        revision,
+        failedSteps: failedSteps.map(step => step.id),
+        removedSteps: pending.map(step => step.id),
+        addedSteps: revisedSteps.map(step => ({
+          id: step.id,
+          toolName: step.toolName,
+          dependsOn: step.dependsOn,
+        })),
+      });
+      return true;
+    } catch (error) {
+      this.logger.warn('Plan revision rejected', {
+        revision,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Resolve, approve, validate and run a single step, recording its status and result.
+   * A step whose condition does not hold is skipped; a map step runs its tool once per item.
+   * Returns the step's result line; failures are captured on the step rather than thrown.
+   */
+  private async executeStep(
+    step: PlanStep,
+    plan: ExecutionPlan,
+    tools: Tool[],
+    options: RunOptions,
+    callbacks: PlanExecutionCallbacks,
+    slots: Semaphore
+  ): Promise<string> {
+    const stepStart = Date.now();
+    this.loggerUtils.logStepStart(step.id, step.toolName);
+    callbacks.onStepStart?.(step);
+    try {
+      const tool = tools.find(t => t.name === step.toolName);
 
-          step.result = await tool.action(processedParams);
+      if (!tool) {
+        throw new ToolNotFoundError(step.toolName);
+      }
 
-          step.status = 'completed';
-          plan.context[step.id] = step.result;
+      if (
+        step.condition !== undefined &&
+        !this.conditionEvaluator.evaluate(step.condition, plan.context)
+      ) {
+        step.status = 'skipped';
+        step.durationMs = Date.now() - stepStart;
+        this.logger.info('Step skipped, condition not met', {
+          stepId: step.id,
+          condition: step.condition,
+        });
+        this.loggerUtils.logStepEnd(step.id, step.toolName, step.durationMs);
+        callbacks.onStepEnd?.(step, step.durationMs);
+        return formatStepResult(step);
+      }
 
-          const duration = Date.now() - stepStart;
-          this.loggerUtils.logToolExecution(step.toolName, processedParams, step.result, duration);
-          this.loggerUtils.logStepEnd(step.id, step.toolName, duration);
+      step.result =
+        step.forEach !== undefined
+          ? await this.mapStep(step, tool, plan, options, slots)
+          : await slots.run(() => this.invokeStepTool(step, tool, plan.context, options));
 
-          // Properly serialize the result - if it's an object, stringify it
-          const serializedResult =
-            typeof step.result === 'object' && step.result !== null
-              ? JSON.stringify(step.result, null, 2)
-              : String(step.result);
+      step.status = 'completed';
+      plan.context[step.id] = step.result;
 
-          results.push(`${step.id}: ${serializedResult}`);
-          executedSteps += 1;
-        } catch (error) {
-          step.status = 'failed';
-          step.result = `Error: ${error instanceof Error ? error.message : String(error)}`;
+      const duration = Date.now() - stepStart;
+      step.durationMs = duration;
+      this.loggerUtils.logStepEnd(step.id, step.toolName, duration);
 
-          // Error results are always strings, so no need for special serialization
-          results.push(`${step.id}: ${step.result}`);
+      callbacks.onStepEnd?.(step, duration);
+      return formatStepResult(step);
+    } catch (error) {
+      step.status = 'failed';
+      step.result = `Error: ${error instanceof Error ? error.message : String(error)}`;
+      step.durationMs = Date.now() - stepStart;
+      callbacks.onStepEnd?.(step, step.durationMs);
 
-          if (options.stopOnFirstToolError) {
-            this.logger.warn('Stopping on first tool error as configured', {
-              stepId: step.id,
-              toolName: step.toolName,
-            });
-            return results.join('\n');
-          }
+      // Cancellation ends the whole plan rather than counting as a tool failure
+      throwIfAborted(options.signal);
+
+      return formatStepResult(step);
+    }
+  }
+
+  private previewStep(
+    step: PlanStep,
+    plan: ExecutionPlan,
+    tools: Tool[],
+    options: RunOptions
+  ): StepPreview {
+    const tool = tools.find(t => t.name === step.toolName);
+    const references = new Set<string>();
+    const params = this.resolveKnownReferences(
+      step.params,
+      plan.context,
+      tool?.paramsSchema,
+      references
+    );
+    const errors: string[] = [];
+
+    const stepIds = new Set(plan.steps.map(s => s.id));
+    for (const reference of Array.from(references)) {
+      if (step.forEach !== undefined && (reference === 'item' || reference === 'index')) {
+        references.delete(reference);
+      } else if (!stepIds.has(reference)) {
+        errors.push(`Params reference unknown step '${reference}'`);
+      }
+    }
+
+    if (!tool) {
+      errors.push(`Tool '${step.toolName}' not found`);
+    } else {
+      errors.push(...this.validateKnownParams(params, tool, plan.context));
+    }
+
+    return {
+      stepId: step.id,
+      toolName: step.toolName,
+      params,
+      references: Array.from(references),
+      requiresApproval:
+        Boolean(tool?.requiresApproval) || Boolean(tool && options.approvalPolicy?.(tool, params)),
+      errors,
+    };
+  }
+
+  /**
+   * Resolve the templates whose step results are already known, coercing values to the schema
+   * as execution would. Templates that need run-time results are kept and their step ids collected.
+   */
+  private resolveKnownReferences(
+    value: any,
+    results: ExecutionPlan['context'],
+    schema: any,
+    unresolved: Set<string>
+  ): any {
+    if (Array.isArray(value)) {
+      const itemSchema = schema?.type === 'array' ? schema.items : undefined;
+      return value.map(item => this.resolveKnownReferences(item, results, itemSchema, unresolved));
+    }
+    if (value && typeof value === 'object') {
+      const resolved: Record<string, any> = {};
+      for (const [key, property] of Object.entries(value)) {
+        const propertySchema = schema?.type === 'object' ? schema.properties?.[key] : undefined;
+        resolved[key] = this.resolveKnownReferences(property, results, propertySchema, unresolved);
+      }
+      return resolved;
+    }
+
+    const pending = this.runtimeReferences(value, results);
+    if (pending.length > 0) {
+      pending.forEach(stepId => unresolved.add(stepId));
+      return value;
+    }
+    return this.referenceResolver.resolveReferences(value, { results, metadata: {} }, schema);
+  }
+
+  /**
+   * Step ids referenced by a value whose results are not known yet
+   */
+  private runtimeReferences(value: any, results: ExecutionPlan['context']): string[] {
+    const text = typeof value === 'string' ? value : JSON.stringify(value ?? null);
+    return this.referenceResolver
+      .extractTemplateReferences(text)
+      .map(reference => reference.stepId)
+      .filter(stepId => results[stepId] === undefined);
+  }
+
+  /**
+   * Validate params against the tool's schema. When some values need run-time results,
+   * only the top-level properties known now are validated, plus required properties.
+   */
+  private validateKnownParams(
+    params: any,
+    tool: Tool,
+    results: ExecutionPlan['context']
+  ): string[] {
+    const format = (validation: ValidationResult, prefix = '') =>
+      (validation.errors || []).map(
+        error => `Invalid params: ${`${prefix}${error.instancePath}` || '/'} ${error.message}`
+      );
+
+    if (this.runtimeReferences(params, results).length === 0) {
+      return format(this.planValidator.validateParameters(params, tool.paramsSchema));
+    }
+
+    const schema: any = tool.paramsSchema;
+    if (schema.type !== 'object' || !params || typeof params !== 'object') {
+      return [];
+    }
+    const errors: string[] = (schema.required || [])
+      .filter((key: string) => !(key in params))
+      .map((key: string) => `Invalid params: / must have required property '${key}'`);
+    for (const [key, value] of Object.entries(params)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema && this.runtimeReferences(value, results).length === 0) {
+        errors.push(
+          ...format(this.planValidator.validateParameters(value, propertySchema), `/${key}`)
+        );
+      }
+    }
+    return errors;
+  }
+
+  private explainPreview(
+    plan: ExecutionPlan,
+    steps: StepPreview[],
+    errors: string[],
+    valid: boolean
+  ): string {
+    const lines = [`Dry run: ${plan.steps.length} planned step(s), no tools were called.`];
+
+    plan.steps.forEach((step, index) => {
+      const preview = steps[index];
+      const status = step.status === 'pending' ? '' : ` (already ${step.status})`;
+      lines.push(
+        `${index + 1}. ${step.id}: ${step.toolName} ${JSON.stringify(preview.params)}${status}`
+      );
+      if (step.dependsOn.length > 0) lines.push(`   after: ${step.dependsOn.join(', ')}`);
+      if (preview.references.length > 0) {
+        lines.push(`   uses results of: ${preview.references.join(', ')}`);
+      }
+      if (step.condition) lines.push(`   only if: ${step.condition}`);
+      if (step.forEach) lines.push(`   once for each element of: ${step.forEach}`);
+      if (preview.requiresApproval) lines.push('   requires approval');
+      preview.errors.forEach(error => lines.push(`   problem: ${error}`));
+    });
+
+    errors.forEach(error => lines.push(`Plan problem: ${error}`));
+    const problems = errors.length + steps.reduce((count, step) => count + step.errors.length, 0);
+    lines.push(valid ? 'The plan is valid.' : `${problems} problem(s) found.`);
+    return lines.join('\n');
+  }
+
+  /**
+   * Run a map step's tool once per element of its forEach array. Each call takes a slot shared
+   * with the other steps of the wave, so at most options.maxConcurrency tool calls are in flight.
+   * Results keep the order of the items.
+   */
+  private async mapStep(
+    step: PlanStep,
+    tool: Tool,
+    plan: ExecutionPlan,
+    options: RunOptions,
+    slots: Semaphore
+  ): Promise<any[]> {
+    let items = this.conditionEvaluator.evaluate(step.forEach as string, plan.context);
+    if (typeof items === 'string') {
+      try {
+        items = JSON.parse(items);
+      } catch {
+        // Not JSON; reported as a non-array below
+      }
+    }
+    if (!Array.isArray(items)) {
+      throw new Error(`forEach '${step.forEach}' did not resolve to an array`);
+    }
+
+    const list = items;
+    const results: any[] = new Array(list.length);
+    let next = 0;
+    // Once an item fails, no worker starts another item
+    let failure: { error: unknown } | undefined;
+    const worker = async (): Promise<void> => {
+      while (!failure && next < list.length) {
+        const index = next++;
+        try {
+          results[index] = await slots.run(() => {
+            // Checked once the slot is free, as waiting for it can take a while
+            throwIfAborted(options.signal);
+            return this.invokeStepTool(
+              step,
+              tool,
+              { ...plan.context, item: list[index], index },
+              options
+            );
+          });
+        } catch (error) {
+          failure = failure ?? {
+            error: options.signal?.aborted
+              ? error
+              : new Error(`Item ${index}: ${error instanceof Error ? error.message : error}`),
+          };
         }
       }
+    };
+
+    this.logger.info('Running map step', { stepId: step.id, items: list.length });
+    // Workers catch their errors, so this waits for the items in flight and no call outlives the step
+    await Promise.all(
+      Array.from({ length: Math.min(Math.max(1, options.maxConcurrency ?? 1), list.length) }, () =>
+        worker()
+      )
+    );
+    if (failure) {
+      throw failure.error;
     }
+    return results;
+  }
 
-    return results.join('\n');
+  /**
+   * Resolve references against the given results, then run the call through invokeStepTool
+   */
+  private async invokeStepTool(
+    step: PlanStep,
+    tool: Tool,
+    results: ReferenceResolutionContext['results'],
+    options: RunOptions
+  ): Promise<any> {
+    const context: ReferenceResolutionContext = {
+      results,
+      metadata: {},
+      strict: options.strictReferences,
+    };
+
+    const resolvedParams = this.referenceResolver.resolveReferences(
+      step.params,
+      context,
+      tool.paramsSchema
+    );
+    this.loggerUtils.logParameterResolution(step.id, step.params, resolvedParams);
+
+    const { result } = await invokeStepTool(step.id, tool, resolvedParams, options, this.logger);
+    return result;
   }
 }
@@ -0,0 +1,120 @@
+import { Tool } from '../tools/types/Tool';
+import { describeTool } from '../tools/ToolDescription';
+import { PlanExample, PromptTemplates } from './types/PromptTemplates';
+
+/**
+ * Built-in plan creation prompt
+ */
+export const DEFAULT_PLANNING_TEMPLATE = `Context from memory:
+{{memory}}
+
+Available Tools:
+{{tools}}
+
+Current request: {{request}}
+
+Create an execution plan. Respond ONLY with a JSON object listing the steps:
+{
+  "steps": [
+    {
+      "id": "step1",
+      "toolName": "name",
+      "params": {...},
+      "dependsOn": []
+    },
+    {
+      "id": "step2",
+      "toolName": "name2",
+      "params": {"input": "{{step1}}"},
+      "dependsOn": ["step1"]
+    }
+  ]
+}
+
+Use {{stepId}} in params to reference previous step results. Nested values can be referenced with paths like {{step1.location.coords[0].lat}}, and a default can follow a "|", e.g. {{step1.city | "Paris"}}.
+
+Steps may also have these optional fields:
+- "condition": an expression over earlier results; the step runs only when it holds and is skipped otherwise, e.g. "step1.temperature > 25 && step1.unit == 'C'". Supports property paths (step1.items[0].name, step1.items.length), string/number/true/false/null literals, ==, !=, >, >=, <, <=, &&, ||, ! and parentheses.
+- "forEach": a reference to an array produced by an earlier step, e.g. "step1.cities". The tool runs once per element; use {{item}} (or {{item.field}}) and {{index}} in params. The step result is the array of results.
+Every step referenced in a condition or forEach must be listed in dependsOn. Example:
+{"id": "step2", "toolName": "getWeather", "params": {"city": "{{item}}"}, "forEach": "step1.cities", "condition": "step1.cities.length > 0", "dependsOn": ["step1"]}{{examples}}`;
+
+/**
+ * Built-in prompt for turning tool results into a conversational answer
+ */
+export const DEFAULT_CONVERSATIONAL_TEMPLATE = `The user asked: "{{request}}"
+
+I executed the following tools to fulfill their request:
+
+{{results}}{{failures}}
+
+Please provide a natural, helpful, conversational response to the user based on these tool execution results. Format the information in a user-friendly way.`;
+
+const SLOT_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const REQUIRED_SLOTS: Record<'planning' | 'conversational', string[]> = {
+  planning: ['tools', 'request'],
+  conversational: ['request', 'results'],
+};
+
+/**
+ * Fill the named slots of a template in a single pass, so slot values are never re-expanded.
+ * Placeholders that are not slots are kept.
+ */
+export function renderPromptTemplate(template: string, slots: Record<string, string>): string {
+  return template.replace(SLOT_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(slots, name) ? slots[name] : match
+  );
+}
+
+/**
+ * Whether a template contains the given slot
+ */
+export function hasSlot(template: string, name: string): boolean {
+  return Array.from(template.match(SLOT_PATTERN) ?? []).some(
+    match => match.replace(/[{}\s]/g, '') === name
+  );
+}
+
+/**
+ * Throw when a custom template lacks a slot the prompt cannot work without
+ */
+export function validatePromptTemplates(templates: PromptTemplates): void {
+  for (const kind of ['planning', 'conversational'] as const) {
+    const template = templates[kind];
+    if (template === undefined) continue;
+    const missing = REQUIRED_SLOTS[kind].filter(slot => !hasSlot(template, slot));
+    if (missing.length > 0) {
+      throw new Error(
+        `The ${kind} prompt template must contain ${missing.map(slot => `{{${slot}}}`).join(', ')}`
+      );
+    }
+  }
+}
+
+/**
+ * Tool list for planning and ReAct prompts, including each tool's example calls
+ */
+export function describeTools(tools: Tool[]): string {
+  return tools
+    .map(
+      t =>
+        `Tool: ${t.name}\nDescription: ${describeTool(t)}\nParams: ${JSON.stringify(
+          t.paramsSchema
+        )}`
+    )
+    .join('\n\n');
+}
+
+/**
+ * Few-shot plans for the {{examples}} slot; empty when there are none
+ */
+export function formatPlanExamples(examples: PlanExample[] = []): string {
+  if (examples.length === 0) {
+    return '';
+  }
+  const formatted = examples.map(
+    example => `Request: ${example.request}\nPlan:\n${JSON.stringify(example.steps, null, 2)}`
+  );
+  return `\n\nExamples of good plans:\n\n${formatted.join('\n\n')}`;
+}
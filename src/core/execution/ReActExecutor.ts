@@ -0,0 +1,216 @@
+import { ModelAdapter } from '../../infrastructure/adapters/base/base';
+import { Tool } from '../tools/types/Tool';
+import { AgentLogger } from '../../infrastructure/logging/interfaces/AgentLogger';
+import { createDefaultLogger } from '../../infrastructure/logging/implementations/defaultLoggers';
+import { LoggerUtils } from '../../infrastructure/logging/utils/loggerUtils';
+import { RunOptions } from '../agent/types/RunOptions';
+import { Message } from '../../shared/types/Message';
+import { parseJsonFromResponse } from '../../shared/utils/jsonParser';
+import { throwIfAborted } from '../../shared/utils/abort';
+import { ToolNotFoundError } from '../../shared/errors/ToolErrors';
+import { invokeStepTool } from './StepInvocation';
+import { formatStepResult, serializeStepResult } from './StepResults';
+import { describeTools } from './PromptTemplates';
+import { PlanExecutionCallbacks } from './types/PlanExecutionCallbacks';
+import { ReActResult, ReActStep } from './types/ReActResult';
+
+/** Tool calls allowed when RunOptions.maxSteps is not set */
+const DEFAULT_MAX_REACT_STEPS = 10;
+
+/** Unparseable or malformed model responses tolerated before the loop gives up */
+const MAX_INVALID_RESPONSES = 3;
+
+type ReActDecision =
+  | { thought?: string; answer: string }
+  | { thought?: string; toolName: string; params: any };
+
+/**
+ * Iterative thought/action/observation executor for adapters without native tool calling.
+ * The model picks one tool call at a time through complete(..., { json: true }), sees its result
+ * and decides the next action, until it answers. Unlike an upfront plan, later calls can depend on
+ * anything earlier tools returned, and tool errors are shown to the model so it can adapt.
+ */
+export class ReActExecutor {
+  private logger: AgentLogger;
+  private loggerUtils: LoggerUtils;
+
+  constructor(logger?: AgentLogger) {
+    this.logger = logger || createDefaultLogger();
+    this.loggerUtils = new LoggerUtils(this.logger);
+  }
+
+  /**
+   * Run the loop until the model answers. Tool calls are capped by options.maxSteps
+   * (default 10); once reached, the model is asked to answer with what it has.
+   */
+  async execute(
+    message: string,
+    tools: Tool[],
+    memoryContext: string,
+    systemPrompt: string,
+    model: ModelAdapter,
+    options: RunOptions = {},
+    callbacks: PlanExecutionCallbacks = {}
+  ): Promise<ReActResult> {
+    this.logger.info('Using ReAct execution', {
+      adapterName: model.name,
+      toolCount: tools.length,
+    });
+
+    const maxSteps = Math.max(0, options.maxSteps ?? DEFAULT_MAX_REACT_STEPS);
+    const prompt = this.buildPrompt(message, tools, memoryContext);
+    this.loggerUtils.logPrompt(prompt, { userMessage: message, toolCount: tools.length });
+
+    const messages: Message[] = systemPrompt ? [{ role: 'system', content: systemPrompt }] : [];
+    messages.push({ role: 'user', content: prompt });
+
+    const steps: ReActStep[] = [];
+    let invalidResponses = 0;
+    let limitReached = false;
+
+    for (;;) {
+      throwIfAborted(options.signal);
+      const response = await model.complete(messages, { json: true, signal: options.signal });
+      this.loggerUtils.logModelResponse(response, {
+        operation: 'react_iteration',
+        iteration: steps.length + 1,
+      });
+      messages.push({ role: 'assistant', content: response });
+
+      let decision: ReActDecision;
+      try {
+        decision = this.parseDecision(response);
+      } catch (error) {
+        invalidResponses += 1;
+        const reason = error instanceof Error ? error.message : String(error);
+        if (invalidResponses >= MAX_INVALID_RESPONSES) {
+          throw new Error(
+            `ReAct loop stopped after ${invalidResponses} invalid responses: ${reason}`
+          );
+        }
+        this.logger.warn('Invalid ReAct response, asking the model again', { reason });
+        messages.push({
+          role: 'user',
+          content: `Your response was invalid: ${reason}. Respond ONLY with a JSON object in one of the two formats described above.`,
+        });
+        continue;
+      }
+
+      if ('answer' in decision) {
+        this.logger.info('ReAct execution answered', { steps: steps.length });
+        return {
+          answer: decision.answer,
+          steps,
+          output: steps.map(step => formatStepResult(step)).join('\n'),
+        };
+      }
+
+      if (steps.length >= maxSteps) {
+        if (limitReached) {
+          throw new Error(`ReAct loop reached maxSteps (${maxSteps}) without an answer`);
+        }
+        limitReached = true;
+        this.logger.warn('Max steps reached, asking for an answer', { maxSteps });
+        messages.push({
+          role: 'user',
+          content: `You cannot call any more tools. Respond now with {"thought": "...", "answer": "..."} based on the observations so far.`,
+        });
+        continue;
+      }
+
+      const step: ReActStep = {
+        id: `step${steps.length + 1}`,
+        toolName: decision.toolName,
+        params: decision.params,
+        dependsOn: [],
+        status: 'pending',
+        thought: decision.thought,
+      };
+      steps.push(step);
+      await this.executeStep(step, tools, options, callbacks);
+
+      messages.push({
+        role: 'user',
+        content: `Observation (${step.id}, ${step.toolName}): ${serializeStepResult(step.result)}`,
+      });
+    }
+  }
+
+  private buildPrompt(message: string, tools: Tool[], memoryContext: string): string {
+    return `Context from memory:
+${memoryContext}
+
+Available Tools:
+${describeTools(tools)}
+
+Current request: ${message}
+
+Work towards the answer one tool call at a time. After each call you will receive an observation with the tool's result.
+Respond ONLY with a JSON object, either to call a tool:
+{"thought": "what you know so far and why you need this tool", "action": {"tool": "name", "params": {...}}}
+or, once you can answer the request:
+{"thought": "why you can answer now", "answer": "the final answer for the user"}`;
+  }
+
+  /**
+   * Parse a thought/action or thought/answer object from a model response
+   */
+  private parseDecision(response: string): ReActDecision {
+    const parsed = parseJsonFromResponse(response);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected a JSON object');
+    }
+    const thought = typeof parsed.thought === 'string' ? parsed.thought : undefined;
+
+    if (parsed.answer !== undefined && parsed.answer !== null) {
+      const answer =
+        typeof parsed.answer === 'string' ? parsed.answer : JSON.stringify(parsed.answer);
+      return { thought, answer };
+    }
+
+    const action = parsed.action;
+    const toolName = typeof action === 'string' ? action : action?.tool ?? action?.toolName;
+    if (typeof toolName !== 'string' || toolName === '') {
+      throw new Error('expected either "answer" or "action" with a tool name');
+    }
+    const params = (typeof action === 'object' ? action.params : parsed.params) ?? {};
+    return { thought, toolName, params };
+  }
+
+  /**
+   * Run one tool call. Failures are recorded on the step and become the observation.
+   */
+  private async executeStep(
+    step: ReActStep,
+    tools: Tool[],
+    options: RunOptions,
+    callbacks: PlanExecutionCallbacks
+  ): Promise<void> {
+    const stepStart = Date.now();
+    this.loggerUtils.logStepStart(step.id, step.toolName, { thought: step.thought });
+    callbacks.onStepStart?.(step);
+    try {
+      const tool = tools.find(t => t.name === step.toolName);
+      if (!tool) {
+        throw new ToolNotFoundError(
+          step.toolName,
+          `Tool '${step.toolName}' not found. Available tools: ${tools.map(t => t.name).join(', ')}`
+        );
+      }
+
+      const call = await invokeStepTool(step.id, tool, step.params, options, this.logger);
+      step.params = call.params;
+      step.result = call.result;
+      step.status = 'completed';
+    } catch (error) {
+      step.status = 'failed';
+      step.result = `Error: ${error instanceof Error ? error.message : String(error)}`;
+      // Cancellation ends the loop rather than being reported to the model
+      throwIfAborted(options.signal);
+    } finally {
+      step.durationMs = Date.now() - stepStart;
+      this.loggerUtils.logStepEnd(step.id, step.toolName, step.durationMs);
+      callbacks.onStepEnd?.(step, step.durationMs);
+    }
+  }
+}
@@ -1,6 +1,8 @@
 import { TSchema } from '@sinclair/typebox';
 import { AgentLogger } from '../../infrastructure/logging/interfaces/AgentLogger';
 import { createDefaultLogger } from '../../infrastructure/logging/implementations/defaultLoggers';
+import { ConditionEvaluator, ConditionNode } from './ConditionEvaluator';
+import { ReferenceResolutionError } from '../../shared/errors/PlanErrors';
 
 export interface StepResultMetadata {
   resultSchema?: TSchema;
@@ -10,10 +12,34 @@ export interface StepResultMetadata {
 export interface ReferenceResolutionContext {
   results: { [stepId: string]: any };
   metadata: { [stepId: string]: StepResultMetadata };
+  /** Throw on unresolved references instead of logging a warning and resolving to '' */
+  strict?: boolean;
 }
 
+/**
+ * One segment of a reference path: .property / ['key'], [index], [*] or [?(filter)]
+ */
+export type PathSegment =
+  | { type: 'property'; key: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' }
+  | { type: 'filter'; condition: ConditionNode };
+
+export interface ParsedReference {
+  stepId: string;
+  segments: PathSegment[];
+  hasDefault: boolean;
+  defaultValue?: any;
+}
+
+// Anything between {{ and the next }}
+const TEMPLATE_PATTERN = /\{\{((?:(?!\}\}).)+)\}\}/g;
+// Returned for template text that is not a valid reference, which is left untouched
+const UNPARSED = Symbol('unparsed');
+
 export class ReferenceResolver {
   private logger: AgentLogger;
+  private conditionEvaluator = new ConditionEvaluator();
 
   constructor(logger?: AgentLogger) {
     this.logger = logger || createDefaultLogger();
@@ -48,108 +74,317 @@ export class ReferenceResolver {
     return this._coerceType(params, schema);
   }
 
+  /**
+   * Parse the inside of a template: a step id, a path of .property, [index], ['key'], [*] and
+   * [?(filter)] segments, and an optional default after "|" (e.g. step1.items[0].city | "Paris").
+   * Filters are ConditionEvaluator expressions over the current element, written as @.
+   */
+  parseReference(expression: string): ParsedReference {
+    const pipe = this._findDefaultSeparator(expression);
+    const path = (pipe === -1 ? expression : expression.slice(0, pipe)).trim();
+
+    const root = path.match(/^\w[\w-]*/);
+    if (!root) {
+      throw new Error('expected a step id');
+    }
+
+    const segments: PathSegment[] = [];
+    let rest = path.slice(root[0].length);
+    while (rest.length > 0) {
+      const wildcard = rest.match(/^(\.\*|\[\*\])/);
+      const property = rest.match(/^\.([\w$-]+)/);
+      const index = rest.match(/^\[\s*(-?\d+)\s*\]/);
+      const key = rest.match(/^\[\s*(?:'([^']*)'|"([^"]*)")\s*\]/);
+
+      if (wildcard) {
+        segments.push({ type: 'wildcard' });
+        rest = rest.slice(wildcard[0].length);
+      } else if (property) {
+        segments.push({ type: 'property', key: property[1] });
+        rest = rest.slice(property[0].length);
+      } else if (index) {
+        segments.push({ type: 'index', index: Number(index[1]) });
+        rest = rest.slice(index[0].length);
+      } else if (key) {
+        segments.push({ type: 'property', key: key[1] ?? key[2] });
+        rest = rest.slice(key[0].length);
+      } else if (rest.startsWith('[?(')) {
+        const close = this._findFilterEnd(rest);
+        segments.push({
+          type: 'filter',
+          condition: this.conditionEvaluator.parse(rest.slice(3, close)),
+        });
+        rest = rest.slice(close + 2);
+      } else {
+        throw new Error(`unexpected '${rest}'`);
+      }
+    }
+
+    if (pipe === -1) {
+      return { stepId: root[0], segments, hasDefault: false };
+    }
+    return {
+      stepId: root[0],
+      segments,
+      hasDefault: true,
+      defaultValue: this._parseDefault(expression.slice(pipe + 1).trim()),
+    };
+  }
+
   private _resolveStringTemplate(
     params: string,
     context: ReferenceResolutionContext,
     schema?: TSchema
   ): any {
     // Check if the entire string is a template reference (e.g., "{{step1.latitude}}")
-    const singleRefMatch = params.match(/^\{\{(\w+)(?:\.(\w+))?\}\}$/);
+    const singleRefMatch = params.match(/^\{\{((?:(?!\}\}).)+)\}\}$/);
     if (singleRefMatch) {
-      const [, stepId, property] = singleRefMatch;
-      return this._resolveStepReference(stepId, property, context, schema);
+      const value = this._resolveTemplate(singleRefMatch[0], singleRefMatch[1], context);
+      // Preserve the original type, coerced to the schema when one is given
+      return value === UNPARSED ? params : this._coerceType(value, schema);
     }
 
     // Handle string interpolation (mixed content)
     return this._interpolateTemplateString(params, context);
   }
 
-  private _resolveStepReference(
-    stepId: string,
-    property: string | undefined,
-    context: ReferenceResolutionContext,
-    schema?: TSchema
+  private _interpolateTemplateString(params: string, context: ReferenceResolutionContext): string {
+    return params.replace(TEMPLATE_PATTERN, (fullMatch: string, expression: string) => {
+      const value = this._resolveTemplate(fullMatch, expression, context);
+      if (value === UNPARSED) return fullMatch;
+      if (value === undefined || value === null) return '';
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+  }
+
+  /**
+   * Resolve one template, falling back to its default when the path is missing.
+   * Unresolved references throw in strict mode and otherwise resolve to ''.
+   */
+  private _resolveTemplate(
+    fullMatch: string,
+    expression: string,
+    context: ReferenceResolutionContext
   ): any {
+    let reference: ParsedReference;
+    try {
+      reference = this.parseReference(expression);
+    } catch (error) {
+      const message = `Invalid reference ${fullMatch}: ${
+        error instanceof Error ? error.message : error
+      }`;
+      if (context.strict) throw new ReferenceResolutionError(message, fullMatch);
+      this.logger.warn(message);
+      return UNPARSED;
+    }
+
+    const { stepId, segments } = reference;
     const stepResult = context.results[stepId];
-    const metadata = context.metadata[stepId];
+    let problem: string;
 
     if (stepResult === undefined) {
-      this.logger.warn(`Step result not found for reference: ${stepId}`);
-      return '';
+      problem = `Step result not found for reference: ${stepId}`;
+    } else {
+      const lookup = this._walkPath(stepResult, segments);
+      if (lookup.value !== undefined) {
+        return lookup.value;
+      }
+      // Enhanced error message with available properties
+      const availableProps = this._getAvailableProperties(
+        lookup.parent,
+        segments.length === 1 ? context.metadata[stepId]?.resultSchema : undefined
+      );
+      const suggestion =
+        availableProps.length > 0 ? ` Available properties: ${availableProps.join(', ')}` : '';
+      problem = `Property '${lookup.missing}' not found in ${stepId}.${suggestion}`;
     }
 
-    if (property) {
-      // Handle property access like {{step1.latitude}} - preserve original type
-      try {
-        const parsed = typeof stepResult === 'string' ? JSON.parse(stepResult) : stepResult;
-
-        if (parsed[property] === undefined) {
-          // Enhanced error message with available properties
-          const availableProps = this._getAvailableProperties(parsed, metadata?.resultSchema);
-          const suggestion =
-            availableProps.length > 0 ? ` Available properties: ${availableProps.join(', ')}` : '';
-          this.logger.warn(`Property '${property}' not found in ${stepId}.${suggestion}`);
-          return '';
-        }
+    if (reference.hasDefault) {
+      return reference.defaultValue;
+    }
+    if (context.strict) {
+      throw new ReferenceResolutionError(
+        `Unresolved reference ${fullMatch}: ${problem}`,
+        fullMatch
+      );
+    }
+    this.logger.warn(problem);
+    return '';
+  }
+
+  /**
+   * Follow a path from a step result. Wildcards and filters fan out: later segments
+   * apply to every match and the value is the array of matches.
+   */
+  private _walkPath(
+    value: any,
+    segments: PathSegment[]
+  ): { value: any; parent?: any; missing?: string } {
+    let nodes = [value];
+    let multiple = false;
+
+    for (const [position, segment] of segments.entries()) {
+      const parents = nodes.map(node => this._parseIfJson(node));
+
+      if (segment.type === 'wildcard' || segment.type === 'filter') {
+        const elements = parents.flatMap(parent => {
+          if (Array.isArray(parent)) return parent;
+          return parent && typeof parent === 'object' ? Object.values(parent) : [];
+        });
+        nodes =
+          segment.type === 'wildcard'
+            ? elements
+            : elements.filter(element =>
+                this.conditionEvaluator.evaluate(segment.condition, { '@': element })
+              );
+        multiple = true;
+        continue;
+      }
 
-        const value = parsed[property];
-        return this._coerceType(value, schema);
-      } catch (error) {
-        this.logger.warn(`Failed to parse step result for ${stepId}.${property}: ${error}`);
-        return '';
+      const next = parents
+        .map(parent => this._readSegment(parent, segment))
+        .filter(item => item !== undefined);
+      if (!multiple && next.length === 0) {
+        return {
+          value: undefined,
+          parent: parents[0],
+          missing: this._describePath(segments.slice(0, position + 1)),
+        };
       }
-    } else {
-      // Handle full step result like {{step1}} - preserve original type
-      return this._coerceType(stepResult, schema);
+      nodes = next;
     }
+
+    return { value: multiple ? nodes : nodes[0] };
   }
 
-  private _interpolateTemplateString(params: string, context: ReferenceResolutionContext): string {
-    return params.replace(/\{\{(\w+)(?:\.(\w+))?\}\}/g, (_, stepId, property) => {
-      const stepResult = context.results[stepId];
-      if (stepResult === undefined) return '';
-
-      if (property) {
-        try {
-          const parsed = typeof stepResult === 'string' ? JSON.parse(stepResult) : stepResult;
-          if (parsed[property] === undefined) {
-            const metadata = context.metadata[stepId];
-            const availableProps = this._getAvailableProperties(parsed, metadata?.resultSchema);
-            const suggestion =
-              availableProps.length > 0 ? ` Available: ${availableProps.join(', ')}` : '';
-            this.logger.warn(`Property '${property}' not found in ${stepId}.${suggestion}`);
-            return '';
-          }
-          return String(parsed[property]);
-        } catch {
-          return '';
+  private _readSegment(parent: any, segment: PathSegment): any {
+    if (parent === null || parent === undefined) {
+      return undefined;
+    }
+    if (segment.type === 'index') {
+      if (!Array.isArray(parent)) return undefined;
+      return parent[segment.index < 0 ? parent.length + segment.index : segment.index];
+    }
+    if (segment.type === 'property') {
+      // Own properties only, so templates cannot reach prototypes
+      return Object.prototype.hasOwnProperty.call(parent, segment.key)
+        ? parent[segment.key]
+        : undefined;
+    }
+    return undefined;
+  }
+
+  private _parseIfJson(value: any): any {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+
+  private _describePath(segments: PathSegment[]): string {
+    return segments
+      .map(segment => {
+        switch (segment.type) {
+          case 'property':
+            return `.${segment.key}`;
+          case 'index':
+            return `[${segment.index}]`;
+          case 'wildcard':
+            return '[*]';
+          case 'filter':
+            return '[?(...)]';
         }
-      } else {
-        return String(stepResult);
+      })
+      .join('')
+      .replace(/^\./, '');
+  }
+
+  /**
+   * Index of the "|" that starts a default value, ignoring "||" and anything inside
+   * brackets or quotes; -1 when there is none
+   */
+  private _findDefaultSeparator(expression: string): number {
+    let depth = 0;
+    let quote: string | undefined;
+    for (let i = 0; i < expression.length; i++) {
+      const char = expression[i];
+      if (quote) {
+        if (char === quote) quote = undefined;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '[' || char === '(') {
+        depth++;
+      } else if (char === ']' || char === ')') {
+        depth--;
+      } else if (char === '|' && depth === 0) {
+        if (expression[i + 1] !== '|') return i;
+        i++;
       }
-    });
+    }
+    return -1;
+  }
+
+  /**
+   * Index of the ")" closing the "[?(" filter that starts the text
+   */
+  private _findFilterEnd(text: string): number {
+    let depth = 0;
+    let quote: string | undefined;
+    for (let i = 2; i < text.length; i++) {
+      const char = text[i];
+      if (quote) {
+        if (char === quote) quote = undefined;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '(') {
+        depth++;
+      } else if (char === ')' && --depth === 0) {
+        if (text[i + 1] === ']') return i;
+        break;
+      }
+    }
+    throw new Error("unterminated filter, expected ')]'");
+  }
+
+  /**
+   * Defaults are JSON literals ("Paris", 3, true, null) or single-quoted strings;
+   * anything else is taken as plain text
+   */
+  private _parseDefault(text: string): any {
+    if (/^'.*'$/.test(text)) {
+      return text.slice(1, -1);
+    }
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
   }
 
   /**
    * Extracts template references from a parameter string
    * @param paramString The parameter string to analyze (typically JSON.stringify(params))
-   * @returns Array of template references found
+   * @returns Array of template references found; property is the first path segment, if any
    */
   extractTemplateReferences(
     paramString: string
   ): Array<{ stepId: string; property?: string; fullMatch: string }> {
     const references: Array<{ stepId: string; property?: string; fullMatch: string }> = [];
-    const matches = paramString.match(/\{\{(\w+)(?:\.(\w+))?\}\}/g) || [];
+    const pattern = new RegExp(TEMPLATE_PATTERN.source, 'g');
 
-    for (const match of matches) {
-      const parsed = match.match(/\{\{(\w+)(?:\.(\w+))?\}\}/);
-      if (parsed) {
-        const [fullMatch, stepId, property] = parsed;
+    for (let match = pattern.exec(paramString); match; match = pattern.exec(paramString)) {
+      try {
+        const { stepId, segments } = this.parseReference(match[1]);
+        const first = segments[0];
         references.push({
           stepId,
-          property,
-          fullMatch,
+          property: first?.type === 'property' ? first.key : undefined,
+          fullMatch: match[0],
         });
+      } catch {
+        // Not a step reference
       }
     }
 
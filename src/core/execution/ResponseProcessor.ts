@@ -1,11 +1,63 @@
 import { ModelAdapter } from '../../infrastructure/adapters/base/base';
+import { Message } from '../../shared/types/Message';
+import { raceWithSignal } from '../../shared/utils/abort';
 import { getLogger } from '../../infrastructure/logging/implementations/logger';
+import { PromptTemplates } from './types/PromptTemplates';
+import { PlanStep } from './types/PlanStep';
+import { PlanResponseInput, ResponseFormatter } from './types/ResponseMode';
+import { formatStepResult, stepError, toStepResults } from './StepResults';
+import {
+  DEFAULT_CONVERSATIONAL_TEMPLATE,
+  hasSlot,
+  renderPromptTemplate,
+  validatePromptTemplates,
+} from './PromptTemplates';
+
+/**
+ * Options for generating a conversational response
+ */
+export interface ConversationalResponseOptions {
+  signal?: AbortSignal;
+  /** A previous answer and the correction requested for it, e.g. after an output mismatch */
+  correction?: { previous: string; feedback: string };
+  /**
+   * Steps of the executed plan. When given, the results are built from them and failed or
+   * unrun steps are listed separately, so errors are not presented as results
+   */
+  steps?: PlanStep[];
+}
 
 /**
  * Handles post-processing of raw execution results into conversational responses
  */
 export class ResponseProcessor {
   private logger = getLogger();
+  private promptTemplates: PromptTemplates = {};
+
+  /**
+   * Custom conversational prompt; unset fields use the built-in prompt
+   */
+  setPromptTemplates(templates: PromptTemplates) {
+    validatePromptTemplates(templates);
+    this.promptTemplates = templates;
+  }
+
+  /**
+   * Format the results of a planned run without a model call ('raw' and 'json' response modes,
+   * or a custom formatter)
+   */
+  async formatResponse(
+    mode: 'raw' | 'json' | ResponseFormatter,
+    input: PlanResponseInput
+  ): Promise<string> {
+    if (mode === 'raw') {
+      return input.output;
+    }
+    if (mode === 'json') {
+      return JSON.stringify({ steps: toStepResults(input.plan.steps) }, null, 2);
+    }
+    return mode(input);
+  }
 
   /**
    * Convert raw planner output to a conversational response
@@ -14,25 +66,30 @@ export class ResponseProcessor {
     originalMessage: string,
     rawResult: string,
     model: ModelAdapter,
-    systemPrompt?: string
+    systemPrompt?: string,
+    options: ConversationalResponseOptions = {}
   ): Promise<string> {
-    const conversationalPrompt = `${
-      systemPrompt ? systemPrompt + '\n\n' : ''
-    }The user asked: "${originalMessage}"
-
-I executed the following tools to fulfill their request:
-
-${rawResult}
-
-Please provide a natural, helpful, conversational response to the user based on these tool execution results. Format the information in a user-friendly way.`;
+    const { signal } = options;
+    const conversationalPrompt = this.buildConversationalMessages(
+      originalMessage,
+      rawResult,
+      systemPrompt,
+      options
+    );
 
     this.logger.debug('Generating conversational response from planner output');
 
     try {
-      const conversationalResponse = await model.complete(conversationalPrompt);
+      const conversationalResponse = await raceWithSignal(
+        model.complete(conversationalPrompt, { signal }),
+        signal
+      );
       this.logger.debug('Conversational response generated successfully');
       return conversationalResponse;
     } catch (error) {
+      // A cancelled run must not be turned into a successful raw response
+      if (signal?.aborted) throw error;
+
       this.logger.warn('Failed to generate conversational response, returning raw result', {
         error: error instanceof Error ? error.message : String(error),
       });
@@ -40,4 +97,117 @@ Please provide a natural, helpful, conversational response to the user based on
       return rawResult;
     }
   }
+
+  /**
+   * Stream the conversational response as text deltas.
+   * Uses the adapter's streamComplete when available, otherwise yields the full completion once.
+   */
+  async *streamConversationalResponse(
+    originalMessage: string,
+    rawResult: string,
+    model: ModelAdapter,
+    systemPrompt?: string,
+    options: ConversationalResponseOptions = {}
+  ): AsyncGenerator<string> {
+    if (!model.streamComplete) {
+      yield await this.generateConversationalResponse(
+        originalMessage,
+        rawResult,
+        model,
+        systemPrompt,
+        options
+      );
+      return;
+    }
+
+    const { signal } = options;
+    const conversationalPrompt = this.buildConversationalMessages(
+      originalMessage,
+      rawResult,
+      systemPrompt,
+      options
+    );
+
+    this.logger.debug('Streaming conversational response from planner output');
+
+    let emitted = false;
+    try {
+      for await (const delta of model.streamComplete(conversationalPrompt, { signal })) {
+        emitted = true;
+        yield delta;
+      }
+    } catch (error) {
+      // Once text has been streamed we cannot swap it for the raw result
+      if (emitted || signal?.aborted) throw error;
+
+      this.logger.warn('Failed to stream conversational response, returning raw result', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      yield rawResult;
+    }
+  }
+
+  private buildConversationalMessages(
+    originalMessage: string,
+    rawResult: string,
+    systemPrompt: string | undefined,
+    options: ConversationalResponseOptions
+  ): Message[] {
+    const { correction } = options;
+    const template = this.promptTemplates.conversational ?? DEFAULT_CONVERSATIONAL_TEMPLATE;
+    let results = rawResult;
+    let failures = '';
+    if (options.steps) {
+      ({ results, failures } = this.describeSteps(options.steps));
+      if (!hasSlot(template, 'failures')) {
+        results += failures;
+        failures = '';
+      }
+    }
+    const prompt = renderPromptTemplate(template, {
+      systemPrompt: systemPrompt ?? '',
+      request: originalMessage,
+      results,
+      failures,
+    });
+
+    const messages: Message[] =
+      systemPrompt && !hasSlot(template, 'systemPrompt')
+        ? [{ role: 'system', content: systemPrompt }]
+        : [];
+    messages.push({ role: 'user', content: prompt });
+    if (correction) {
+      messages.push(
+        { role: 'assistant', content: correction.previous },
+        { role: 'user', content: correction.feedback }
+      );
+    }
+    return messages;
+  }
+
+  /**
+   * Results of completed and skipped steps, and a separate section for steps that failed or
+   * never ran (empty when there are none)
+   */
+  private describeSteps(steps: PlanStep[]): { results: string; failures: string } {
+    const results = steps
+      .filter(step => step.status === 'completed' || step.status === 'skipped')
+      .map(step => formatStepResult(step));
+    const failed = steps
+      .filter(step => step.status === 'failed' || step.status === 'pending')
+      .map(step =>
+        step.status === 'failed'
+          ? `- ${step.id} (${step.toolName}) failed: ${stepError(step)}`
+          : `- ${step.id} (${step.toolName}) did not run`
+      );
+
+    return {
+      results: results.join('\n') || '(no tool produced a result)',
+      failures: failed.length
+        ? `\n\nThese tool calls did not succeed. Their errors are not results; tell the user what could not be done:\n${failed.join(
+            '\n'
+          )}`
+        : '',
+    };
+  }
 }
@@ -0,0 +1,71 @@
+import { Tool } from '../tools/types/Tool';
+import { ToolInvocationOptions } from '../tools/types/RetryPolicy';
+import { invokeTool, requestToolApproval, validateToolParams } from '../tools/ToolInvocation';
+import { RunOptions } from '../agent/types/RunOptions';
+import { AgentLogger } from '../../infrastructure/logging/interfaces/AgentLogger';
+import { LoggerUtils } from '../../infrastructure/logging/utils/loggerUtils';
+import { ToolValidationError } from '../../shared/errors/ToolErrors';
+
+/**
+ * Retry settings of a run for invokeTool, logging each retry with the given context
+ */
+export function toolInvocationOptions(
+  options: RunOptions,
+  logger: AgentLogger,
+  logContext: Record<string, unknown> = {}
+): ToolInvocationOptions {
+  return {
+    retry: options.toolRetry,
+    timeoutMs: options.toolTimeoutMs,
+    onRetry: ({ error, ...info }) =>
+      logger.warn('Retrying tool call', {
+        ...logContext,
+        ...info,
+        error: error instanceof Error ? error.message : String(error),
+      }),
+  };
+}
+
+/**
+ * Run a plan or ReAct step's tool call: approval, paramsSchema validation, then the call with
+ * the run's retry settings. A rejected call throws with the reviewer's reason; invalid params
+ * throw a ToolValidationError. Returns the params the tool ran with and its result.
+ */
+export async function invokeStepTool(
+  stepId: string,
+  tool: Tool,
+  params: any,
+  options: RunOptions,
+  logger: AgentLogger
+): Promise<{ params: any; result: any }> {
+  const loggerUtils = new LoggerUtils(logger);
+  const callStart = Date.now();
+
+  // Pause for a human decision before anything runs
+  const approval = await requestToolApproval(tool, params, {
+    onApprovalRequired: options.onApprovalRequired,
+    policy: options.approvalPolicy,
+  });
+  if (!approval.approved) {
+    logger.warn('Tool call rejected', { stepId, reason: approval.reason });
+    throw new Error(approval.reason);
+  }
+
+  try {
+    validateToolParams(tool, approval.params);
+  } catch (error) {
+    if (error instanceof ToolValidationError) {
+      loggerUtils.logValidationError(tool.name, error.errors);
+    }
+    throw error;
+  }
+
+  const result = await invokeTool(
+    tool,
+    approval.params,
+    { signal: options.signal },
+    toolInvocationOptions(options, logger, { stepId })
+  );
+  loggerUtils.logToolExecution(tool.name, approval.params, result, Date.now() - callStart);
+  return { params: approval.params, result };
+}
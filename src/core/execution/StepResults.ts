@@ -0,0 +1,47 @@
+import { PlanStep } from './types/PlanStep';
+import { StepResult } from './types/ResponseMode';
+
+/**
+ * Result line of a finished step as reported in the plan output
+ */
+export function formatStepResult(step: PlanStep): string {
+  if (step.status === 'skipped') {
+    return `${step.id}: skipped (condition not met: ${step.condition})`;
+  }
+
+  return `${step.id}: ${serializeStepResult(step.result)}`;
+}
+
+/**
+ * A step result as text: objects as indented JSON, anything else as a string.
+ * Error results are always strings, so they need no special serialization
+ */
+export function serializeStepResult(result: unknown): string {
+  return typeof result === 'object' && result !== null
+    ? JSON.stringify(result, null, 2)
+    : String(result);
+}
+
+/**
+ * Error message of a failed step, without the "Error: " prefix of its result
+ */
+export function stepError(step: PlanStep): string {
+  return String(step.result ?? '').replace(/^Error: /, '');
+}
+
+/**
+ * Plan steps as returned by the 'json' response mode; failed steps report their error
+ * instead of a result
+ */
+export function toStepResults(steps: PlanStep[]): StepResult[] {
+  return steps.map(step => {
+    const entry: StepResult = { id: step.id, toolName: step.toolName, status: step.status };
+    if (step.status === 'failed') {
+      entry.error = stepError(step);
+    } else if (step.status === 'completed') {
+      entry.result = step.result;
+    }
+    if (step.durationMs !== undefined) entry.durationMs = step.durationMs;
+    return entry;
+  });
+}
@@ -0,0 +1,126 @@
+import { TSchema } from '@sinclair/typebox';
+import { ModelAdapter } from '../../infrastructure/adapters/base/base';
+import { AgentLogger } from '../../infrastructure/logging/interfaces/AgentLogger';
+import { createDefaultLogger } from '../../infrastructure/logging/implementations/defaultLoggers';
+import { LoggerUtils } from '../../infrastructure/logging/utils/loggerUtils';
+import { parseJsonFromResponse } from '../../shared/utils/jsonParser';
+import { throwIfAborted } from '../../shared/utils/abort';
+import { PlanValidator } from './PlanValidator';
+import { Message } from '../../shared/types/Message';
+import { MessageUtils } from '../../infrastructure/adapters/utils/messageUtils';
+
+/**
+ * Options for structured output generation
+ */
+export interface StructuredOutputOptions {
+  systemPrompt?: string;
+  signal?: AbortSignal;
+  /** Total number of attempts, including the first one */
+  maxAttempts?: number;
+}
+
+/**
+ * Turns the final answer of a run into JSON validated against a TypeBox schema,
+ * re-prompting the model with parse/validation errors until it conforms
+ */
+export class StructuredOutputProcessor {
+  private logger: AgentLogger;
+  private loggerUtils: LoggerUtils;
+  private validator: PlanValidator;
+
+  constructor(logger?: AgentLogger) {
+    this.logger = logger || createDefaultLogger();
+    this.loggerUtils = new LoggerUtils(this.logger);
+    this.validator = new PlanValidator(this.logger);
+  }
+
+  /**
+   * Generate structured data for a request from the answer produced by native or planned execution.
+   * Returns an error instead of data when the model never produced conforming JSON.
+   */
+  async generate(
+    originalMessage: string,
+    answer: string,
+    schema: TSchema,
+    model: ModelAdapter,
+    options: StructuredOutputOptions = {}
+  ): Promise<{ data?: unknown; error?: string }> {
+    const maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+    const messages: Message[] = options.systemPrompt
+      ? [{ role: 'system', content: options.systemPrompt }]
+      : [];
+    messages.push({
+      role: 'user',
+      content: this.buildStructuredPrompt(originalMessage, answer, schema),
+    });
+    let problems: string[] = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      throwIfAborted(options.signal);
+      this.loggerUtils.logPrompt(MessageUtils.toText(messages), {
+        operation: 'structured_output',
+        attempt,
+      });
+
+      const response = await model.complete(messages, { schema, signal: options.signal });
+      this.loggerUtils.logModelResponse(response, { operation: 'structured_output', attempt });
+
+      problems = this.check(response, schema);
+      if (problems.length === 0) {
+        this.logger.info('Structured output validated', { attempts: attempt });
+        return { data: parseJsonFromResponse(response) };
+      }
+
+      this.logger.warn('Structured output failed validation', {
+        attempt,
+        maxAttempts,
+        errors: problems,
+      });
+      // Feed the rejected answer back as a real turn followed by the problems found
+      messages.push(
+        { role: 'assistant', content: response },
+        {
+          role: 'user',
+          content: `Your response was rejected for these reasons:
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+Return corrected JSON only.`,
+        }
+      );
+    }
+
+    return {
+      error: `Structured output did not match schema after ${maxAttempts} attempt(s): ${problems.join(
+        '; '
+      )}`,
+    };
+  }
+
+  /**
+   * Parse and validate a response, returning human-readable problems (empty when valid)
+   */
+  private check(response: string, schema: TSchema): string[] {
+    let parsed: unknown;
+    try {
+      parsed = parseJsonFromResponse(response);
+    } catch (error) {
+      return [`Response is not valid JSON: ${error instanceof Error ? error.message : error}`];
+    }
+
+    const validation = this.validator.validateParameters(parsed, schema);
+    if (validation.isValid) {
+      return [];
+    }
+    return (validation.errors || []).map(err => `${err.instancePath || '/'} ${err.message}`);
+  }
+
+  private buildStructuredPrompt(originalMessage: string, answer: string, schema: TSchema): string {
+    return `The user asked: "${originalMessage}"
+
+Answer produced for the request:
+${answer}
+
+Convert this answer into structured data. Respond ONLY with JSON (no markdown, no explanation) that validates against this JSON Schema:
+${JSON.stringify(schema, null, 2)}`;
+  }
+}
@@ -1,10 +1,33 @@
 // Core Execution Domain - Public Interface
 export { ExecutionEngine } from './ExecutionEngine';
 export { Planner } from './Planner';
+export { ReActExecutor } from './ReActExecutor';
+export { DEFAULT_PLANNING_TEMPLATE, DEFAULT_CONVERSATIONAL_TEMPLATE } from './PromptTemplates';
 export { ResponseProcessor } from './ResponseProcessor';
+export { StructuredOutputProcessor } from './StructuredOutputProcessor';
+export { PlanRenderer } from './PlanRenderer';
+export { buildPlanSchema } from './PlanSchema';
+export { PlanCache, EmbeddingPlanMatcher } from './PlanCache';
 export type { ExecutionContext } from './ExecutionEngine';
+export type { ConversationalResponseOptions } from './ResponseProcessor';
+export type { StructuredOutputOptions } from './StructuredOutputProcessor';
+export type { PlanRenderOptions } from './PlanRenderer';
 
 // Execution types
 export type { ExecutionPlan } from './types/ExecutionPlan';
 export type { PlanStep } from './types/PlanStep';
 export type { ValidationResult } from './types/ValidationResult';
+export type { StreamEvent } from './types/StreamEvent';
+export type { PlanExecutionCallbacks } from './types/PlanExecutionCallbacks';
+export type { ReplanContext } from './types/ReplanContext';
+export type {
+  ResponseMode,
+  ResponseFormatter,
+  PlanResponseInput,
+  StepResult,
+} from './types/ResponseMode';
+export type { PlanPreview, StepPreview } from './types/PlanPreview';
+export type { PlanValidationReport, PlanIssue, PlanIssueKind } from './types/PlanValidationReport';
+export type { ReActResult, ReActStep } from './types/ReActResult';
+export type { PlanCacheOptions, PlanCacheMatcher, PlanCacheHit } from './types/PlanCache';
+export type { PromptTemplates, PlanExample } from './types/PromptTemplates';
@@ -1,6 +1,8 @@
 import { PlanStep } from './PlanStep';
 
 export interface ExecutionPlan {
+  /** Identifier used to checkpoint and resume the plan */
+  id?: string;
   steps: PlanStep[];
   context: Record<string, any>;
 }
@@ -0,0 +1,48 @@
+import { PlanStep } from './PlanStep';
+
+/**
+ * Decides whether a cached request is close enough to a new one to reuse its plan.
+ * Requests are normalised before they reach the matcher.
+ */
+export interface PlanCacheMatcher<T = unknown> {
+  /** The name of the matcher (for logging/debugging) */
+  name: string;
+
+  /** Lowest score at which a cached plan is reused */
+  minScore: number;
+
+  /**
+   * Compute what scoring needs from a request, e.g. its embedding.
+   * Called once when a plan is cached and once per lookup.
+   */
+  prepare(request: string): Promise<T> | T;
+
+  /**
+   * Similarity between a new request and a cached one, from 0 (unrelated) to 1 (same)
+   */
+  score(request: T, cached: T): number;
+}
+
+export interface PlanCacheOptions {
+  /** How long a cached plan is reused, in ms (default 1 hour) */
+  ttlMs?: number;
+  /** Entries kept before the least recently used is dropped (default 1000) */
+  maxEntries?: number;
+  /** Similar-request matching; without one, only identical normalised requests match */
+  matcher?: PlanCacheMatcher<any>;
+  /** Normalise a request before matching (default: lowercase, collapsed whitespace, no trailing punctuation) */
+  normalize?: (request: string) => string;
+}
+
+/**
+ * A cached plan found for a request
+ */
+export interface PlanCacheHit {
+  /** Fresh pending copies of the cached steps */
+  steps: PlanStep[];
+  /** The normalised request the plan was created for */
+  request: string;
+  /** 1 for an identical normalised request, otherwise the matcher's score */
+  similarity: number;
+  ageMs: number;
+}
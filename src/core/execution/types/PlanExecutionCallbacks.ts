@@ -0,0 +1,16 @@
+import { PlanStep } from './PlanStep';
+import { ExecutionPlan } from './ExecutionPlan';
+
+/**
+ * Optional callbacks invoked by Planner.executePlan as steps progress
+ */
+export interface PlanExecutionCallbacks {
+  /** Called once the plan has been generated, before any step runs */
+  onPlanCreated?: (plan: ExecutionPlan) => void;
+
+  /** Called right before a step's tool is invoked */
+  onStepStart?: (step: PlanStep) => void;
+
+  /** Called once a step has completed or failed */
+  onStepEnd?: (step: PlanStep, durationMs: number) => void;
+}
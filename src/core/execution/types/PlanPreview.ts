@@ -0,0 +1,30 @@
+import { ExecutionPlan } from './ExecutionPlan';
+
+/**
+ * What a single step would do, as determined without running it
+ */
+export interface StepPreview {
+  stepId: string;
+  toolName: string;
+  /** Params with every reference whose result is already known resolved */
+  params: any;
+  /** Steps whose results the params still need at run time */
+  references: string[];
+  /** Whether the call would wait for a human decision */
+  requiresApproval: boolean;
+  /** Problems found for this step, e.g. an unknown tool or params violating the schema */
+  errors: string[];
+}
+
+/**
+ * Result of a dry run: the plan, per-step previews and a human-readable explanation
+ */
+export interface PlanPreview {
+  plan: ExecutionPlan;
+  steps: StepPreview[];
+  /** Problems with the plan as a whole, e.g. missing dependencies or cycles */
+  errors: string[];
+  /** True when neither the plan nor any step has problems */
+  valid: boolean;
+  explanation: string;
+}
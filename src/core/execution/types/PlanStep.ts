@@ -3,6 +3,11 @@ export interface PlanStep {
   toolName: string;
   params: any;
   dependsOn: string[];
-  status: 'pending' | 'completed' | 'failed';
+  /** Expression over earlier results (e.g. "step1.count > 0"); the step is skipped when false */
+  condition?: string;
+  /** Reference to an array from an earlier step; the tool runs once per element ({{item}}, {{index}}) */
+  forEach?: string;
+  status: 'pending' | 'completed' | 'failed' | 'skipped';
   result?: string;
+  durationMs?: number;
 }
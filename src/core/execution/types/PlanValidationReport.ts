@@ -0,0 +1,32 @@
+/**
+ * Kinds of problems found by static plan validation
+ */
+export type PlanIssueKind =
+  | 'unknown_tool'
+  | 'duplicate_step_id'
+  | 'unknown_dependency'
+  | 'unknown_reference'
+  | 'downstream_reference'
+  | 'circular_dependency'
+  | 'invalid_control_flow';
+
+/**
+ * A single problem with a plan, readable enough to send back to the model
+ */
+export interface PlanIssue {
+  kind: PlanIssueKind;
+  /** Step the problem belongs to; absent for problems spanning steps, like cycles */
+  stepId?: string;
+  message: string;
+}
+
+/**
+ * Result of validating a plan without running it
+ */
+export interface PlanValidationReport {
+  /** True when the plan has no issues */
+  valid: boolean;
+  issues: PlanIssue[];
+  /** Steps read in params but missing from dependsOn; execution adds them to dependsOn */
+  inferredDependencies: Array<{ stepId: string; dependsOn: string[] }>;
+}
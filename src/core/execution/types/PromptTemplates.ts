@@ -0,0 +1,27 @@
+import { PlanStep } from './PlanStep';
+
+/**
+ * A request and the plan the model should produce for it, shown as a few-shot example
+ */
+export interface PlanExample {
+  request: string;
+  steps: Array<
+    Pick<PlanStep, 'id' | 'toolName' | 'params' | 'dependsOn'> &
+      Partial<Pick<PlanStep, 'condition' | 'forEach'>>
+  >;
+}
+
+/**
+ * Replacements for the built-in prompts. Templates use named slots such as {{request}};
+ * unknown {{...}} text, like step references in instructions, is left as is.
+ * When a template contains {{systemPrompt}}, the system prompt is rendered there
+ * instead of being sent as a separate system message.
+ */
+export interface PromptTemplates {
+  /** Plan creation prompt. Slots: {{systemPrompt}}, {{memory}}, {{tools}}, {{request}}, {{examples}} */
+  planning?: string;
+  /** Prompt turning tool results into an answer. Slots: {{systemPrompt}}, {{request}}, {{results}} */
+  conversational?: string;
+  /** Few-shot plans rendered into the {{examples}} slot of the planning prompt */
+  planExamples?: PlanExample[];
+}
@@ -0,0 +1,18 @@
+import { PlanStep } from './PlanStep';
+
+/**
+ * A tool call made by the ReAct loop, with the model's reasoning for it
+ */
+export interface ReActStep extends PlanStep {
+  thought?: string;
+}
+
+/**
+ * Outcome of a ReAct run: the model's answer and the tool calls it made on the way
+ */
+export interface ReActResult {
+  answer: string;
+  steps: ReActStep[];
+  /** Step results in the same "stepId: result" format as planner output */
+  output: string;
+}
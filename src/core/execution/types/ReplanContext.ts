@@ -0,0 +1,11 @@
+import { ModelAdapter } from '../../../infrastructure/adapters/base/base';
+
+/**
+ * What the planner needs to ask the model for a revised plan after a step fails
+ */
+export interface ReplanContext {
+  message: string;
+  memoryContext: string;
+  systemPrompt: string;
+  model: ModelAdapter;
+}
@@ -0,0 +1,39 @@
+import { ExecutionPlan } from './ExecutionPlan';
+import { PlanStep } from './PlanStep';
+
+/**
+ * Outcome of one plan step in the 'json' response mode
+ */
+export interface StepResult {
+  id: string;
+  toolName: string;
+  status: PlanStep['status'];
+  /** Tool result of a completed step */
+  result?: any;
+  /** Error message of a failed step */
+  error?: string;
+  durationMs?: number;
+}
+
+/**
+ * What a custom response formatter receives after a planned run
+ */
+export interface PlanResponseInput {
+  /** The user's request */
+  request: string;
+  /** The executed plan, with step statuses and results */
+  plan: ExecutionPlan;
+  /** Raw step output, one result line per finished step */
+  output: string;
+}
+
+export type ResponseFormatter = (input: PlanResponseInput) => string | Promise<string>;
+
+/**
+ * How a planned run turns its step results into the response:
+ * - 'conversational' (default): an extra model call writes the answer
+ * - 'raw': the step output lines as they are
+ * - 'json': `{ "steps": StepResult[] }`
+ * - a function formatting the results itself
+ */
+export type ResponseMode = 'conversational' | 'raw' | 'json' | ResponseFormatter;
@@ -0,0 +1,25 @@
+import { ToolStreamEvent } from '../../../infrastructure/adapters/base/base';
+import { PlanStep } from './PlanStep';
+import { RunResult } from '../../agent/types/RunResult';
+
+/**
+ * Event emitted while streaming an agent run
+ */
+export type StreamEvent =
+  | Exclude<ToolStreamEvent, { type: 'final' }>
+  | { type: 'step_start'; stepId: string; toolName: string }
+  | {
+      type: 'step_end';
+      stepId: string;
+      toolName: string;
+      status: PlanStep['status'];
+      result?: string;
+      durationMs: number;
+    }
+  | { type: 'error'; message: string }
+  | {
+      type: 'final';
+      content: string;
+      /** Outcome of the run, the same RunResult runDetailed() returns */
+      result: RunResult;
+    };
@@ -0,0 +1,317 @@
+import {
+  ModelAdapter,
+  PromptInput,
+  ToolExecutionResult,
+  ToolStreamEvent,
+} from '../../infrastructure/adapters/base/base';
+import { AgentLogger } from '../../infrastructure/logging/interfaces/AgentLogger';
+import { createDefaultLogger } from '../../infrastructure/logging/implementations/defaultLoggers';
+import { Tool } from '../tools/types/Tool';
+import { ToolApprovalOptions } from '../tools/types/ToolApproval';
+import { requestToolApproval, validateToolParams } from '../tools/ToolInvocation';
+import { RunResult } from '../agent/types/RunResult';
+import {
+  AgentHooks,
+  RunHookContext,
+  BeforeRunResult,
+  ModelCallContext,
+  ModelCallOperation,
+  BeforeModelCallResult,
+  AfterModelCallContext,
+  ToolCallContext,
+  BeforeToolCallResult,
+  AfterToolCallContext,
+  ErrorHookContext,
+  FallbackHookContext,
+} from './types/AgentHooks';
+
+/**
+ * Runs registered lifecycle hooks in order and wraps adapters and tools so
+ * every model and tool call goes through them, in native and planned execution alike
+ */
+export class HookRunner {
+  private hooks: AgentHooks[] = [];
+  private logger: AgentLogger;
+
+  constructor(logger?: AgentLogger) {
+    this.logger = logger || createDefaultLogger();
+  }
+
+  use(hooks: AgentHooks): void {
+    this.hooks.push(hooks);
+  }
+
+  hasHooks(): boolean {
+    return this.hooks.length > 0;
+  }
+
+  async beforeRun(context: RunHookContext): Promise<BeforeRunResult & RunHookContext> {
+    let { message, options } = context;
+    for (const hooks of this.hooks) {
+      const result = await hooks.beforeRun?.({ message, options });
+      if (!result) continue;
+      message = result.message ?? message;
+      options = result.options ?? options;
+      if (result.response !== undefined) {
+        this.logger.debug('Run short-circuited by hook');
+        return { message, options, response: result.response };
+      }
+    }
+    return { message, options };
+  }
+
+  async afterRun(context: RunHookContext, result: RunResult): Promise<RunResult> {
+    for (const hooks of this.hooks) {
+      const replacement = await hooks.afterRun?.({ ...context, result });
+      result = replacement?.result ?? result;
+    }
+    return result;
+  }
+
+  async beforeModelCall(
+    context: ModelCallContext
+  ): Promise<BeforeModelCallResult & ModelCallContext> {
+    let { prompt } = context;
+    for (const hooks of this.hooks) {
+      const result = await hooks.beforeModelCall?.({ operation: context.operation, prompt });
+      if (!result) continue;
+      prompt = result.prompt ?? prompt;
+      if (result.response !== undefined) {
+        this.logger.debug('Model call short-circuited by hook', { operation: context.operation });
+        return { operation: context.operation, prompt, response: result.response };
+      }
+    }
+    return { operation: context.operation, prompt };
+  }
+
+  async afterModelCall(context: AfterModelCallContext): Promise<string> {
+    let { response } = context;
+    for (const hooks of this.hooks) {
+      const result = await hooks.afterModelCall?.({ ...context, response });
+      response = result?.response ?? response;
+    }
+    return response;
+  }
+
+  async beforeToolCall(context: ToolCallContext): Promise<BeforeToolCallResult & ToolCallContext> {
+    let { params } = context;
+    for (const hooks of this.hooks) {
+      const result = await hooks.beforeToolCall?.({ toolName: context.toolName, params });
+      if (!result) continue;
+      params = result.params ?? params;
+      if (result.result !== undefined) {
+        this.logger.debug('Tool call short-circuited by hook', { toolName: context.toolName });
+        return { toolName: context.toolName, params, result: result.result };
+      }
+    }
+    return { toolName: context.toolName, params };
+  }
+
+  async afterToolCall(context: AfterToolCallContext): Promise<any> {
+    let { result } = context;
+    for (const hooks of this.hooks) {
+      const replacement = await hooks.afterToolCall?.({ ...context, result });
+      if (replacement && replacement.result !== undefined) {
+        result = replacement.result;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Notify error hooks; returns the first recovery value offered, if any
+   */
+  async onError(context: ErrorHookContext): Promise<{ result?: any }> {
+    let recovery: { result?: any } = {};
+    for (const hooks of this.hooks) {
+      const result = await hooks.onError?.(context);
+      if (recovery.result === undefined && result && result.result !== undefined) {
+        recovery = { result: result.result };
+      }
+    }
+    return recovery;
+  }
+
+  /**
+   * Notify fallback hooks; returns true when any of them vetoes the fallback
+   */
+  async onFallback(context: FallbackHookContext): Promise<boolean> {
+    let skip = false;
+    for (const hooks of this.hooks) {
+      const result = await hooks.onFallback?.(context);
+      skip = skip || Boolean(result?.skip);
+    }
+    return skip;
+  }
+
+  /**
+   * Wrap an adapter so its calls run through the model hooks
+   */
+  wrapModel(model: ModelAdapter): ModelAdapter {
+    const wrapped: ModelAdapter = {
+      name: model.name,
+      supportsNativeTools: model.supportsNativeTools,
+      complete: async (prompt, options) => {
+        const before = await this.beforeModelCall({ operation: 'complete', prompt });
+        if (before.response !== undefined) return before.response;
+
+        const start = Date.now();
+        let response: string;
+        try {
+          response = await model.complete(before.prompt, options);
+        } catch (error) {
+          return this.recover('model', error, { operation: 'complete' });
+        }
+        return this.afterModelCall({ ...before, response, durationMs: Date.now() - start });
+      },
+      executeWithTools: async (prompt, tools, options) => {
+        const before = await this.beforeModelCall({ operation: 'executeWithTools', prompt });
+        if (before.response !== undefined) {
+          return { content: before.response, toolCalls: [], success: true };
+        }
+
+        const start = Date.now();
+        let result: ToolExecutionResult;
+        try {
+          result = await model.executeWithTools(before.prompt, tools, options);
+        } catch (error) {
+          const content = await this.recover('model', error, { operation: 'executeWithTools' });
+          return { content: String(content), toolCalls: [], success: true };
+        }
+        // Adapters report most failures in the result instead of throwing
+        if (!result.success) {
+          const error =
+            result.error ?? new Error(result.errors?.join('; ') || 'Tool execution failed');
+          const recovery = await this.onError({
+            stage: 'model',
+            error,
+            operation: 'executeWithTools',
+          });
+          if (recovery.result === undefined) return result;
+          this.logger.debug('Error recovered by hook', {
+            stage: 'model',
+            operation: 'executeWithTools',
+          });
+          return { content: String(recovery.result), toolCalls: result.toolCalls, success: true };
+        }
+        const content = await this.afterModelCall({
+          ...before,
+          response: result.content,
+          durationMs: Date.now() - start,
+        });
+        return { ...result, content };
+      },
+    };
+
+    if (model.streamComplete) {
+      const streamComplete = model.streamComplete.bind(model);
+      wrapped.streamComplete = (prompt, options) =>
+        this.streamText(prompt, input => streamComplete(input, options));
+    }
+
+    if (model.streamWithTools) {
+      const streamWithTools = model.streamWithTools.bind(model);
+      wrapped.streamWithTools = (prompt, tools, options) =>
+        this.streamToolEvents(prompt, input => streamWithTools(input, tools, options));
+    }
+
+    return wrapped;
+  }
+
+  /**
+   * Wrap tools so their actions run through the tool hooks.
+   * Params are approved and validated before the action runs, so params rewritten by
+   * beforeToolCall must still match the tool's paramsSchema and go through the approval
+   * gate again: the reviewer always sees the arguments the tool runs with.
+   */
+  wrapTools(tools: Tool[], approval?: ToolApprovalOptions): Tool[] {
+    return tools.map(tool => ({
+      ...tool,
+      action: async (params: any, context?: any) => {
+        const before = await this.beforeToolCall({ toolName: tool.name, params });
+        if (before.result !== undefined) return before.result;
+        let callParams = before.params;
+        if (callParams !== params) {
+          validateToolParams(tool, callParams);
+          const gate = await requestToolApproval(tool, callParams, approval);
+          if (!gate.approved) {
+            throw new Error(gate.reason);
+          }
+          callParams = gate.params;
+        }
+
+        const start = Date.now();
+        let result: any;
+        try {
+          result = await tool.action(callParams, context);
+        } catch (error) {
+          return this.recover('tool', error, { toolName: tool.name });
+        }
+        return this.afterToolCall({
+          toolName: tool.name,
+          params: callParams,
+          result,
+          durationMs: Date.now() - start,
+        });
+      },
+    }));
+  }
+
+  /**
+   * Report an error to the hooks, returning their recovery value or rethrowing
+   */
+  private async recover(
+    stage: 'model' | 'tool',
+    error: unknown,
+    details: { operation?: ModelCallOperation; toolName?: string }
+  ): Promise<any> {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const recovery = await this.onError({ stage, error: err, ...details });
+    if (recovery.result === undefined) throw error;
+    this.logger.debug('Error recovered by hook', { stage, ...details });
+    return recovery.result;
+  }
+
+  private async *streamText(
+    prompt: PromptInput,
+    call: (prompt: PromptInput) => AsyncIterable<string>
+  ): AsyncGenerator<string> {
+    const before = await this.beforeModelCall({ operation: 'streamComplete', prompt });
+    if (before.response !== undefined) {
+      yield before.response;
+      return;
+    }
+
+    const start = Date.now();
+    let response = '';
+    for await (const delta of call(before.prompt)) {
+      response += delta;
+      yield delta;
+    }
+    await this.afterModelCall({ ...before, response, durationMs: Date.now() - start });
+  }
+
+  private async *streamToolEvents(
+    prompt: PromptInput,
+    call: (prompt: PromptInput) => AsyncIterable<ToolStreamEvent>
+  ): AsyncGenerator<ToolStreamEvent> {
+    const before = await this.beforeModelCall({ operation: 'streamWithTools', prompt });
+    if (before.response !== undefined) {
+      yield { type: 'text', delta: before.response };
+      yield { type: 'final', content: before.response, toolCalls: [] };
+      return;
+    }
+
+    const start = Date.now();
+    for await (const event of call(before.prompt)) {
+      if (event.type === 'final') {
+        await this.afterModelCall({
+          ...before,
+          response: event.content,
+          durationMs: Date.now() - start,
+        });
+      }
+      yield event;
+    }
+  }
+}
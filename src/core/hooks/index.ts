@@ -0,0 +1,19 @@
+// Core Hooks Domain - Public Interface
+export { HookRunner } from './HookRunner';
+
+// Hook types
+export type {
+  AgentHooks,
+  ModelCallOperation,
+  RunHookContext,
+  BeforeRunResult,
+  AfterRunContext,
+  ModelCallContext,
+  BeforeModelCallResult,
+  AfterModelCallContext,
+  ToolCallContext,
+  BeforeToolCallResult,
+  AfterToolCallContext,
+  ErrorHookContext,
+  FallbackHookContext,
+} from './types/AgentHooks';
@@ -0,0 +1,109 @@
+import { RunOptions } from '../../agent/types/RunOptions';
+import { RunResult } from '../../agent/types/RunResult';
+import { PromptInput } from '../../../infrastructure/adapters/base/base';
+
+type HookReturn<T> = void | T | Promise<void | T>;
+
+/**
+ * Adapter method being called
+ */
+export type ModelCallOperation =
+  | 'complete'
+  | 'executeWithTools'
+  | 'streamComplete'
+  | 'streamWithTools';
+
+export interface RunHookContext {
+  message: string;
+  options: RunOptions;
+}
+
+/**
+ * Returned from beforeRun to rewrite the request, or to answer it without executing (`response`)
+ */
+export interface BeforeRunResult {
+  message?: string;
+  options?: RunOptions;
+  response?: string;
+}
+
+export interface AfterRunContext extends RunHookContext {
+  result: RunResult;
+}
+
+export interface ModelCallContext {
+  operation: ModelCallOperation;
+  prompt: PromptInput;
+}
+
+/**
+ * Returned from beforeModelCall to rewrite the prompt, or to skip the call with a cached `response`
+ */
+export interface BeforeModelCallResult {
+  prompt?: PromptInput;
+  response?: string;
+}
+
+export interface AfterModelCallContext extends ModelCallContext {
+  /** Text returned by the model (the final content for tool-calling operations) */
+  response: string;
+  durationMs: number;
+}
+
+export interface ToolCallContext {
+  toolName: string;
+  params: any;
+}
+
+/**
+ * Returned from beforeToolCall to rewrite the params, or to skip the tool with a `result`
+ */
+export interface BeforeToolCallResult {
+  params?: any;
+  result?: any;
+}
+
+export interface AfterToolCallContext extends ToolCallContext {
+  result: any;
+  durationMs: number;
+}
+
+export interface ErrorHookContext {
+  stage: 'run' | 'model' | 'tool';
+  error: Error;
+  /** Adapter method for model errors */
+  operation?: ModelCallOperation;
+  /** Tool name for tool errors */
+  toolName?: string;
+}
+
+export interface FallbackHookContext {
+  from: 'native' | 'planned';
+  to: 'planned' | 'react';
+  error: Error;
+  /** Categorized reason, as logged by the monitoring decorators */
+  reason: string;
+}
+
+/**
+ * Lifecycle hooks registered with Agent.use().
+ * Each hook may observe, return replacements, or short-circuit the step it wraps.
+ * When several hook sets are registered they run in order; the first short-circuit wins.
+ */
+export interface AgentHooks {
+  beforeRun?(context: RunHookContext): HookReturn<BeforeRunResult>;
+  /**
+   * Return `{ result }` to replace the run result. Streaming runs call it before the final event,
+   * whose content it can replace; text deltas already streamed are not changed.
+   */
+  afterRun?(context: AfterRunContext): HookReturn<{ result?: RunResult }>;
+  beforeModelCall?(context: ModelCallContext): HookReturn<BeforeModelCallResult>;
+  /** Return `{ response }` to replace the model output (ignored for streamed output) */
+  afterModelCall?(context: AfterModelCallContext): HookReturn<{ response?: string }>;
+  beforeToolCall?(context: ToolCallContext): HookReturn<BeforeToolCallResult>;
+  afterToolCall?(context: AfterToolCallContext): HookReturn<{ result?: any }>;
+  /** Return `{ result }` to recover from a model or tool error with a replacement value */
+  onError?(context: ErrorHookContext): HookReturn<{ result?: any }>;
+  /** Return `{ skip: true }` to fail the run instead of falling back to planned execution */
+  onFallback?(context: FallbackHookContext): HookReturn<{ skip?: boolean }>;
+}
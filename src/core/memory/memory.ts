@@ -15,6 +15,10 @@ export interface MemoryManager {
   getAllMemories(): Memory[];
   getMemoryCount(): number;
   pruneMemories(): void;
+  /** An empty manager with the same strategy and settings, used for the memory of each thread */
+  createEmpty?(): MemoryManager;
+  /** Replace all memories with persisted ones, keeping their ids and timestamps */
+  restoreMemories?(memories: Memory[]): void;
 }
 
 export class SlidingWindowMemoryManager implements MemoryManager {
@@ -73,6 +77,18 @@ export class SlidingWindowMemoryManager implements MemoryManager {
     return this.memories.length;
   }
 
+  createEmpty(): SlidingWindowMemoryManager {
+    return new SlidingWindowMemoryManager(this.maxMemories, this.maxTokensPerMemory);
+  }
+
+  /**
+   * Replace all memories with previously persisted ones, keeping their ids and timestamps
+   */
+  restoreMemories(memories: Memory[]): void {
+    this.memories = memories.map(memory => ({ ...memory }));
+    this.pruneMemories();
+  }
+
   pruneMemories(): void {
     if (this.memories.length <= this.maxMemories) return;
 
@@ -1,6 +1,6 @@
 import { RetrievedDocument } from './types/Document';
 import { RetrievalConfig } from './types/RetrievalConfig';
-import { PromptComposer } from './interfaces/PromptComposer';
+import { Message, PromptComposer } from './interfaces/PromptComposer';
 import { SourceRegistry } from './SourceRegistry';
 import { DefaultPromptComposer } from './implementations/DefaultPromptComposer';
 
@@ -24,6 +24,71 @@ export class RetrievalAugmentor {
    * @returns Augmented prompt string
    */
   async augment(message: string, config: RetrievalConfig, systemPrompt?: string): Promise<string> {
+    const { prompt } = await this.augmentWithDocuments(message, config, systemPrompt);
+    return prompt;
+  }
+
+  /**
+   * Augment a prompt with retrieved context, also returning the documents that were injected
+   * @param message The user message/query
+   * @param config Retrieval configuration
+   * @param systemPrompt Optional system prompt
+   * @returns Augmented prompt string and the retrieved documents
+   */
+  async augmentWithDocuments(
+    message: string,
+    config: RetrievalConfig,
+    systemPrompt?: string
+  ): Promise<{ prompt: string; documents: RetrievedDocument[] }> {
+    const documents = await this.retrieveDocuments(message, config);
+
+    // Compose augmented prompt
+    const result = this.promptComposer.compose(message, documents, systemPrompt);
+
+    if (typeof result === 'string') {
+      return { prompt: result, documents };
+    }
+
+    // A string is requested here, so flatten composer messages
+    return {
+      prompt: result.map(m => `${m.role}: ${m.content}`).join('\n'),
+      documents,
+    };
+  }
+
+  /**
+   * Augment a request with retrieved context as conversation messages.
+   * The system prompt becomes a system message instead of being passed to the composer,
+   * so adapters can send it through the provider's system prompt mechanism.
+   * @param message The user message/query
+   * @param config Retrieval configuration
+   * @param systemPrompt Optional system prompt
+   * @returns Messages to send to the model and the retrieved documents
+   */
+  async augmentMessages(
+    message: string,
+    config: RetrievalConfig,
+    systemPrompt?: string
+  ): Promise<{ messages: Message[]; documents: RetrievedDocument[] }> {
+    const documents = await this.retrieveDocuments(message, config);
+    const result = this.promptComposer.compose(message, documents);
+
+    const composed: Message[] =
+      typeof result === 'string' ? [{ role: 'user', content: result }] : result;
+    const messages: Message[] = systemPrompt
+      ? [{ role: 'system', content: systemPrompt }, ...composed]
+      : composed;
+
+    return { messages, documents };
+  }
+
+  /**
+   * Retrieve, rank, deduplicate and limit documents from all configured sources
+   */
+  private async retrieveDocuments(
+    message: string,
+    config: RetrievalConfig
+  ): Promise<RetrievedDocument[]> {
     // Retrieve from all configured sources
     const allDocuments: RetrievedDocument[] = [];
 
@@ -69,17 +134,6 @@ export class RetrievalAugmentor {
 
     // Apply max documents limit
     const maxDocs = config.maxDocuments || 10;
-    const finalDocuments = allDocuments.slice(0, maxDocs);
-
-    // Compose augmented prompt
-    const result = this.promptComposer.compose(message, finalDocuments, systemPrompt);
-
-    // For now, we only support string output (can be extended for Message[] later)
-    if (typeof result === 'string') {
-      return result;
-    }
-
-    // If composer returns messages, flatten to string
-    return result.map(m => `${m.role}: ${m.content}`).join('\n');
+    return allDocuments.slice(0, maxDocs);
   }
 }
@@ -1,12 +1,8 @@
 import { RetrievedDocument } from '../types/Document';
+import { Message } from '../../../shared/types/Message';
 
-/**
- * Message format for LLM prompts
- */
-export interface Message {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
+// Message format for LLM prompts, shared with the model adapters
+export type { Message };
 
 /**
  * Interface for composing prompts with retrieved context
@@ -0,0 +1,79 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SessionStore } from '../interfaces/SessionStore';
+import { Session } from '../types/Session';
+
+/**
+ * Session store persisting each session as a JSON file in a directory
+ */
+export class FileSessionStore implements SessionStore {
+  private directory: string;
+
+  /**
+   * @param directory Directory for session files (created on first save)
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async load(id: string): Promise<Session | undefined> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath(id), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    const data = JSON.parse(raw);
+    return {
+      ...data,
+      createdAt: new Date(data.createdAt),
+      updatedAt: new Date(data.updatedAt),
+      memories: (data.memories || []).map((memory: any) => ({
+        ...memory,
+        timestamp: new Date(memory.timestamp),
+      })),
+      history: data.history || [],
+    };
+  }
+
+  async save(session: Session): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write to a temporary file first so a crash never leaves a truncated session
+    const target = this.filePath(session.id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(session, null, 2), 'utf-8');
+    await fs.rename(temp, target);
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(this.filePath(id), { force: true });
+  }
+
+  async list(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return files
+      .filter(file => file.endsWith('.json'))
+      .map(file => decodeURIComponent(file.slice(0, -'.json'.length)));
+  }
+
+  /**
+   * Session ids are URI-encoded so arbitrary ids map to safe file names
+   */
+  private filePath(id: string): string {
+    return path.join(this.directory, `${encodeURIComponent(id)}.json`);
+  }
+}
@@ -0,0 +1,37 @@
+import { SessionStore } from '../interfaces/SessionStore';
+import { Session } from '../types/Session';
+
+/**
+ * Session store kept in process memory (lost on restart)
+ */
+export class InMemorySessionStore implements SessionStore {
+  private sessions: Map<string, Session> = new Map();
+
+  async load(id: string): Promise<Session | undefined> {
+    const session = this.sessions.get(id);
+    return session ? this.copy(session) : undefined;
+  }
+
+  async save(session: Session): Promise<void> {
+    this.sessions.set(session.id, this.copy(session));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.sessions.keys());
+  }
+
+  /**
+   * Copy arrays so callers cannot mutate stored sessions in place
+   */
+  private copy(session: Session): Session {
+    return {
+      ...session,
+      memories: session.memories.map(memory => ({ ...memory })),
+      history: session.history.map(message => ({ ...message })),
+    };
+  }
+}
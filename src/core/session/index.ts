@@ -0,0 +1,9 @@
+// Types
+export * from './types/Session';
+
+// Interfaces
+export * from './interfaces/SessionStore';
+
+// Implementations
+export * from './implementations/InMemorySessionStore';
+export * from './implementations/FileSessionStore';
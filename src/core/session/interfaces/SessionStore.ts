@@ -0,0 +1,27 @@
+import { Session } from '../types/Session';
+
+/**
+ * Interface for persisting conversation sessions between runs
+ */
+export interface SessionStore {
+  /**
+   * Load a session by id
+   * @returns The session, or undefined if it does not exist
+   */
+  load(id: string): Promise<Session | undefined>;
+
+  /**
+   * Create or replace a session
+   */
+  save(session: Session): Promise<void>;
+
+  /**
+   * Delete a session (no-op if it does not exist)
+   */
+  delete(id: string): Promise<void>;
+
+  /**
+   * List the ids of all stored sessions
+   */
+  list(): Promise<string[]>;
+}
@@ -0,0 +1,15 @@
+import { Memory } from '../../memory/memory';
+import { Message } from '../../../shared/types/Message';
+
+/**
+ * Persisted state of a conversation thread: its own memories and turn history
+ */
+export interface Session {
+  /** Thread identifier, e.g. a customer or conversation id */
+  id: string;
+  memories: Memory[];
+  history: Message[];
+  createdAt: Date;
+  updatedAt: Date;
+  metadata?: Record<string, any>;
+}
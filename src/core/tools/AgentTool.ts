@@ -19,8 +19,12 @@ export function createAgentTool(
     name,
     description,
     paramsSchema: AgentToolParams,
-    action: async params => {
-      const result = await agent.run(params.input, adapter, options);
+    action: async (params, context) => {
+      // Propagate cancellation of the parent run to the sub-agent
+      const result = await agent.run(params.input, adapter, {
+        ...options,
+        signal: context?.signal ?? options.signal,
+      });
       return result;
     },
   };
@@ -0,0 +1,18 @@
+import { Tool } from './types/Tool';
+
+/**
+ * A tool's description followed by its example invocations, as shown to the model.
+ * Used for planning and ReAct prompts and for the adapters' native tool definitions.
+ */
+export function describeTool(tool: Tool<any, any>): string {
+  if (!tool.examples?.length) {
+    return tool.description;
+  }
+
+  const examples = tool.examples.map(example => {
+    const call = JSON.stringify(example.params);
+    const result = example.result !== undefined ? ` returns ${JSON.stringify(example.result)}` : '';
+    return `- ${example.description ? `${example.description}: ` : ''}${call}${result}`;
+  });
+  return `${tool.description}\nExamples:\n${examples.join('\n')}`;
+}
@@ -0,0 +1,176 @@
+import { Tool, ToolContext } from './types/Tool';
+import { ToolApprovalOptions, ToolApprovalResult } from './types/ToolApproval';
+import { RetryPolicy, ToolInvocationOptions } from './types/RetryPolicy';
+import { raceWithSignal, sleep, throwIfAborted } from '../../shared/utils/abort';
+import { AgentError } from '../../shared/errors/AgentError';
+import { TimeoutError } from '../../shared/errors/ExecutionErrors';
+import Ajv, { ValidateFunction } from 'ajv';
+import { ToolExecutionError, ToolValidationError } from '../../shared/errors/ToolErrors';
+
+const ajv = new Ajv();
+/** Compiled paramsSchema validators, by schema */
+const paramValidators = new WeakMap<object, ValidateFunction>();
+
+/**
+ * Error raised when a single attempt of a tool call exceeds its time limit
+ */
+export class ToolTimeoutError extends TimeoutError {
+  constructor(public readonly toolName: string, timeoutMs: number) {
+    super(`Tool '${toolName}' timed out after ${timeoutMs}ms`, timeoutMs);
+    this.name = 'ToolTimeoutError';
+  }
+}
+
+/**
+ * Invoke a tool's action with its execution context, applying the retry policy and per-attempt
+ * timeout of the tool, falling back to the run-level settings. Cancellation is never retried.
+ * Errors thrown by the action are rethrown as a ToolExecutionError once retries are exhausted.
+ * Used by both the planner and the adapters' native tool loops so tools behave the same in either mode.
+ */
+export async function invokeTool(
+  tool: Tool<any, any>,
+  params: any,
+  context: ToolContext = {},
+  invocation: ToolInvocationOptions = {}
+): Promise<any> {
+  const retry: RetryPolicy = { ...invocation.retry, ...tool.retry };
+  const timeoutMs = tool.timeoutMs ?? invocation.timeoutMs;
+  const maxAttempts = Math.max(1, retry.maxAttempts ?? 1);
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(context.signal);
+    try {
+      return await invokeOnce(tool, params, context, timeoutMs);
+    } catch (error) {
+      const retryable = retry.retryOn ? retry.retryOn(error, attempt) : true;
+      if (context.signal?.aborted || attempt >= maxAttempts || !retryable) {
+        throw error instanceof AgentError ? error : new ToolExecutionError(tool.name, error);
+      }
+      const delayMs = retryDelay(retry, attempt);
+      invocation.onRetry?.({ toolName: tool.name, attempt, delayMs, error });
+      await sleep(delayMs, context.signal);
+    }
+  }
+}
+
+async function invokeOnce(
+  tool: Tool<any, any>,
+  params: any,
+  context: ToolContext,
+  timeoutMs?: number
+): Promise<any> {
+  if (timeoutMs === undefined) {
+    return raceWithSignal(tool.action(params, context), context.signal);
+  }
+
+  // The tool sees a signal that aborts on cancellation or when this attempt times out
+  const parent = context.signal;
+  const controller = new AbortController();
+  const timeout = new ToolTimeoutError(tool.name, timeoutMs);
+  const onParentAbort = () => controller.abort(parent?.reason);
+  parent?.addEventListener('abort', onParentAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(timeout), timeoutMs);
+
+  try {
+    return await raceWithSignal(
+      tool.action(params, { ...context, signal: controller.signal }),
+      controller.signal
+    );
+  } catch (error) {
+    throw controller.signal.reason === timeout ? timeout : error;
+  } finally {
+    clearTimeout(timer);
+    parent?.removeEventListener('abort', onParentAbort);
+  }
+}
+
+/**
+ * Exponential backoff for the retry after the given attempt, with optional jitter
+ */
+function retryDelay(policy: RetryPolicy, attempt: number): number {
+  const initial = policy.initialDelayMs ?? 200;
+  const multiplier = policy.backoffMultiplier ?? 2;
+  const delay = Math.min(policy.maxDelayMs ?? 10000, initial * Math.pow(multiplier, attempt - 1));
+  return Math.round(policy.jitter === false ? delay : delay / 2 + (Math.random() * delay) / 2);
+}
+
+/**
+ * Check params against a tool's paramsSchema, throwing a ToolValidationError with the problems
+ */
+export function validateToolParams(tool: Tool<any, any>, params: any): void {
+  let validate = paramValidators.get(tool.paramsSchema);
+  if (!validate) {
+    validate = ajv.compile(tool.paramsSchema);
+    paramValidators.set(tool.paramsSchema, validate);
+  }
+  if (!validate(params)) {
+    throw new ToolValidationError(
+      tool.name,
+      (validate.errors || []).map(err => ({
+        keyword: err.keyword,
+        instancePath: err.instancePath,
+        message: err.message,
+        params: err.params,
+      }))
+    );
+  }
+}
+
+/**
+ * Ask for approval when the tool or the policy requires it.
+ * Calls that need approval are rejected when no handler is configured.
+ * Params edited by the reviewer must match the tool's paramsSchema (ToolValidationError).
+ */
+export async function requestToolApproval(
+  tool: Tool<any, any>,
+  params: any,
+  approval: ToolApprovalOptions = {}
+): Promise<ToolApprovalResult> {
+  const required = Boolean(tool.requiresApproval) || Boolean(approval.policy?.(tool, params));
+  if (!required) {
+    return { approved: true, params };
+  }
+  if (!approval.onApprovalRequired) {
+    return {
+      approved: false,
+      reason: `Tool call '${tool.name}' requires approval but no approval handler is configured`,
+    };
+  }
+
+  const decision = await approval.onApprovalRequired({ toolName: tool.name, params });
+  switch (decision.action) {
+    case 'approve':
+      return { approved: true, params };
+    case 'edit':
+      validateToolParams(tool, decision.params);
+      return { approved: true, params: decision.params };
+    case 'reject':
+      return {
+        approved: false,
+        reason: `Tool call '${tool.name}' was rejected by the reviewer${
+          decision.reason ? `: ${decision.reason}` : ''
+        }`,
+      };
+  }
+}
+
+/**
+ * Run a tool call from an adapter's tool loop through the approval gate.
+ * A rejected call is not invoked; its reason becomes the result so the model can react to it.
+ */
+export async function invokeToolWithApproval(
+  tool: Tool<any, any>,
+  params: any,
+  context: ToolContext = {},
+  approval?: ToolApprovalOptions,
+  invocation?: ToolInvocationOptions
+): Promise<{ params: any; result: any }> {
+  const gate = await requestToolApproval(tool, params, approval);
+  if (!gate.approved) {
+    return { params, result: gate.reason };
+  }
+  return {
+    params: gate.params,
+    result: await invokeTool(tool, gate.params, context, invocation),
+  };
+}
@@ -1,5 +1,29 @@
 // Core Tools Domain - Public Interface
 export { createAgentTool } from './AgentTool';
+export {
+  invokeTool,
+  requestToolApproval,
+  invokeToolWithApproval,
+  validateToolParams,
+  ToolTimeoutError,
+} from './ToolInvocation';
+export { describeTool } from './ToolDescription';
 
 // Tool types
-export type { Tool, Serializable, ToolParams, ToolResult } from './types/Tool';
+export type {
+  Tool,
+  ToolContext,
+  ToolExample,
+  Serializable,
+  ToolParams,
+  ToolResult,
+} from './types/Tool';
+export type {
+  ToolApprovalRequest,
+  ToolApprovalDecision,
+  ToolApprovalHandler,
+  ToolApprovalPolicy,
+  ToolApprovalOptions,
+  ToolApprovalResult,
+} from './types/ToolApproval';
+export type { RetryPolicy, ToolRetryInfo, ToolInvocationOptions } from './types/RetryPolicy';
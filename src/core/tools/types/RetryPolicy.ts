@@ -0,0 +1,40 @@
+/**
+ * How failed tool calls are retried. Delays grow exponentially from initialDelayMs,
+ * capped at maxDelayMs, and are jittered so concurrent retries do not line up.
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first call (default 1, i.e. no retries) */
+  maxAttempts?: number;
+  /** Delay before the first retry (default 200) */
+  initialDelayMs?: number;
+  /** Upper bound for any single delay (default 10000) */
+  maxDelayMs?: number;
+  /** Factor applied to the delay after each retry (default 2) */
+  backoffMultiplier?: number;
+  /** Randomise each delay between half and all of its value (default true) */
+  jitter?: boolean;
+  /** Decides whether an error is worth retrying; by default every error is */
+  retryOn?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * Details of a failed attempt that is about to be retried
+ */
+export interface ToolRetryInfo {
+  toolName: string;
+  /** The attempt that failed, starting at 1 */
+  attempt: number;
+  delayMs: number;
+  error: unknown;
+}
+
+/**
+ * Run-level retry and timeout settings; a tool's own `retry` and `timeoutMs` take precedence
+ */
+export interface ToolInvocationOptions {
+  retry?: RetryPolicy;
+  /** Time limit for each attempt of a tool call */
+  timeoutMs?: number;
+  /** Called before waiting to retry a failed attempt */
+  onRetry?: (info: ToolRetryInfo) => void;
+}
@@ -1,4 +1,5 @@
 import { TSchema, Static } from '@sinclair/typebox';
+import { RetryPolicy } from './RetryPolicy';
 
 // Type for serializable values
 export type Serializable =
@@ -10,11 +11,38 @@ export type Serializable =
   | Serializable[]
   | { [key: string]: Serializable };
 
+/**
+ * Execution context passed to a tool action alongside its params
+ */
+export interface ToolContext {
+  /** Aborted when the run is cancelled or exceeds its time budget */
+  signal?: AbortSignal;
+}
+
+/**
+ * Example invocation of a tool, rendered into its description for the model
+ */
+export interface ToolExample<TParams extends TSchema = TSchema> {
+  /** What the example call achieves, e.g. "Look up order A1" */
+  description?: string;
+  params: Static<TParams>;
+  /** The result the call returns */
+  result?: Serializable;
+}
+
 export interface Tool<TParams extends TSchema = TSchema, TResult extends Serializable = string> {
   name: string;
   description: string;
   paramsSchema: TParams;
-  action: (params: Static<TParams>) => Promise<TResult>;
+  /** When true, every call waits for a human decision through the run's approval handler */
+  requiresApproval?: boolean;
+  /** Example calls shown to the model alongside the description */
+  examples?: Array<ToolExample<TParams>>;
+  /** Retries for failed calls, overriding the run's `toolRetry` setting by field */
+  retry?: RetryPolicy;
+  /** Time limit for each attempt, overriding the run's `toolTimeoutMs` */
+  timeoutMs?: number;
+  action: (params: Static<TParams>, context?: ToolContext) => Promise<TResult>;
 }
 
 // Optional helper types for ergonomic typing in wrappers
@@ -0,0 +1,43 @@
+import { Tool } from './Tool';
+
+/**
+ * Tool call awaiting a human decision
+ */
+export interface ToolApprovalRequest {
+  toolName: string;
+  /** Resolved arguments the tool would be invoked with */
+  params: any;
+}
+
+/**
+ * Decision returned by an approval handler.
+ * A rejection reason is fed back to the model; edited params replace the proposed ones.
+ */
+export type ToolApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'reject'; reason?: string }
+  | { action: 'edit'; params: any };
+
+export type ToolApprovalHandler = (
+  request: ToolApprovalRequest
+) => ToolApprovalDecision | Promise<ToolApprovalDecision>;
+
+/**
+ * Decides whether a call needs approval, in addition to tools flagged with `requiresApproval`
+ */
+export type ToolApprovalPolicy = (tool: Tool<any, any>, params: any) => boolean;
+
+/**
+ * Approval settings applied to every tool call of a run
+ */
+export interface ToolApprovalOptions {
+  onApprovalRequired?: ToolApprovalHandler;
+  policy?: ToolApprovalPolicy;
+}
+
+/**
+ * Outcome of the approval gate: the params to run with, or the message returned to the model
+ */
+export type ToolApprovalResult =
+  | { approved: true; params: any }
+  | { approved: false; reason: string };
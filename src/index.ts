@@ -1,13 +1,55 @@
 // Core Domain Exports
 export { Agent } from './core/agent';
 export { SlidingWindowMemoryManager } from './core/memory';
+export { InMemorySessionStore, FileSessionStore } from './core/session';
+export type { SessionStore, Session } from './core/session';
+export { InMemoryCheckpointStore, FileCheckpointStore } from './core/checkpoint';
+export type { CheckpointStore, PlanCheckpoint } from './core/checkpoint';
 
 // Infrastructure Exports
 export { ClaudeAdapter, OpenAIAdapter, OllamaAdapter } from './infrastructure/adapters';
-export type { ModelAdapter, ToolExecutionResult } from './infrastructure/adapters';
+export type {
+  ModelAdapter,
+  ToolExecutionResult,
+  ToolStreamEvent,
+  RequestOptions,
+  CompletionOptions,
+  ToolExecutionOptions,
+  PromptInput,
+} from './infrastructure/adapters';
+export type { Message, MessageRole } from './shared/types/Message';
 
 // Enhanced planner with native tool support
-export { Planner } from './core/execution';
+export {
+  Planner,
+  PlanRenderer,
+  buildPlanSchema,
+  PlanCache,
+  EmbeddingPlanMatcher,
+  ReActExecutor,
+  DEFAULT_PLANNING_TEMPLATE,
+  DEFAULT_CONVERSATIONAL_TEMPLATE,
+} from './core/execution';
+export type {
+  StreamEvent,
+  PlanPreview,
+  StepPreview,
+  PlanValidationReport,
+  PlanIssue,
+  PlanIssueKind,
+  PlanCacheOptions,
+  PlanCacheMatcher,
+  PlanCacheHit,
+  PlanRenderOptions,
+  ReActResult,
+  ReActStep,
+  PromptTemplates,
+  PlanExample,
+  ResponseMode,
+  ResponseFormatter,
+  PlanResponseInput,
+  StepResult,
+} from './core/execution';
 
 // Injectable Logging System
 export type { AgentLogger } from './infrastructure/logging';
@@ -25,8 +67,71 @@ export {
 export type { AgentMetadata, AgentCapability, AgentRegistration } from './core/agent';
 
 // Optional: expose common tools and types for consumers
-export type { Tool } from './core/tools';
-export type { RunOptions } from './core/agent';
+export type {
+  Tool,
+  ToolContext,
+  ToolExample,
+  ToolApprovalRequest,
+  ToolApprovalDecision,
+  ToolApprovalHandler,
+  ToolApprovalPolicy,
+  ToolApprovalOptions,
+  RetryPolicy,
+  ToolRetryInfo,
+} from './core/tools';
+export { ToolTimeoutError } from './core/tools';
+export type {
+  RunOptions,
+  RunResult,
+  StepTiming,
+  ExecutionMode,
+  ExecutionStrategy,
+} from './core/agent';
+
+// Lifecycle hooks
+export type {
+  AgentHooks,
+  ModelCallOperation,
+  RunHookContext,
+  BeforeRunResult,
+  AfterRunContext,
+  ModelCallContext,
+  BeforeModelCallResult,
+  AfterModelCallContext,
+  ToolCallContext,
+  BeforeToolCallResult,
+  AfterToolCallContext,
+  ErrorHookContext,
+  FallbackHookContext,
+} from './core/hooks';
+
+// Execution events
+export { AgentEventEmitter } from './core/events';
+export type {
+  AgentEventBase,
+  AgentEventMap,
+  AgentEventName,
+  AgentEventListener,
+} from './core/events';
+
+// Errors
+export {
+  AgentError,
+  PlanParseError,
+  PlanValidationError,
+  ReferenceResolutionError,
+  ToolNotFoundError,
+  ToolValidationError,
+  ToolExecutionError,
+  AdapterError,
+  AdapterRateLimitError,
+  AdapterAuthError,
+  ContextLengthError,
+  AdapterNetworkError,
+  TimeoutError,
+  CancelledError,
+} from './shared/errors';
+export type { AgentErrorCode } from './shared/errors';
 
 // Retrieval/RAG System
 export type {
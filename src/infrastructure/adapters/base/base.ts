@@ -1,4 +1,13 @@
 import { Tool } from '../../../core/tools/types/Tool';
+import { ToolApprovalOptions } from '../../../core/tools/types/ToolApproval';
+import { ToolInvocationOptions } from '../../../core/tools/types/RetryPolicy';
+import { Message } from '../../../shared/types/Message';
+
+/**
+ * Input accepted by adapter calls: a single user prompt or a full conversation.
+ * System messages are sent through the provider's system prompt mechanism.
+ */
+export type PromptInput = string | Message[];
 
 /**
  * Result from tool execution (both native and planned)
@@ -19,8 +28,48 @@ export interface ToolExecutionResult {
 
   /** Any errors encountered */
   errors?: string[];
+
+  /** The error that ended a failed execution, e.g. an AdapterRateLimitError or ToolNotFoundError */
+  error?: Error;
 }
 
+/**
+ * Per-request options shared by all adapter calls
+ */
+export interface RequestOptions {
+  /** Aborts the underlying HTTP/SDK request and any running tool loop */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for text completion
+ * json -> request generic JSON object
+ * schema -> request JSON matching schema (provider support dependent)
+ */
+export interface CompletionOptions extends RequestOptions {
+  json?: boolean;
+  schema?: Record<string, any>;
+}
+
+/**
+ * Options for native tool execution
+ */
+export interface ToolExecutionOptions extends RequestOptions {
+  /** Gate applied before each tool call; rejected calls are reported back to the model */
+  approval?: ToolApprovalOptions;
+  /** Run-level retry policy and timeout for tool calls */
+  invocation?: ToolInvocationOptions;
+}
+
+/**
+ * Incremental event emitted by an adapter while streaming a tool-calling turn
+ */
+export type ToolStreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'tool_call_start'; name: string; arguments: any }
+  | { type: 'tool_call_end'; name: string; arguments: any; result: any }
+  | { type: 'final'; content: string; toolCalls: ToolExecutionResult['toolCalls'] };
+
 /**
  * Simplified ModelAdapter interface - clean breaking change approach
  * All adapters support both text completion and tool execution
@@ -34,19 +83,33 @@ export interface ModelAdapter {
 
   /**
    * Text completion for general prompts and planning
-   * options.json -> request generic JSON object
-   * options.schema -> request JSON matching schema (provider support dependent)
    */
-  complete(
-    prompt: string,
-    options?: { json?: boolean; schema?: Record<string, any> }
-  ): Promise<string>;
+  complete(prompt: PromptInput, options?: CompletionOptions): Promise<string>;
 
   /**
    * Execute tools with a prompt - adapter chooses best method (native vs planned)
    * This is the main method for tool execution
    */
-  executeWithTools(prompt: string, tools: Tool[]): Promise<ToolExecutionResult>;
+  executeWithTools(
+    prompt: PromptInput,
+    tools: Tool[],
+    options?: ToolExecutionOptions
+  ): Promise<ToolExecutionResult>;
+
+  /**
+   * Optional streaming counterpart of complete() yielding text deltas
+   */
+  streamComplete?(prompt: PromptInput, options?: RequestOptions): AsyncIterable<string>;
+
+  /**
+   * Optional streaming counterpart of executeWithTools()
+   * Yields text deltas and tool call boundaries, ending with a single 'final' event
+   */
+  streamWithTools?(
+    prompt: PromptInput,
+    tools: Tool[],
+    options?: ToolExecutionOptions
+  ): AsyncIterable<ToolStreamEvent>;
 }
 
 /**
@@ -55,9 +118,10 @@ export interface ModelAdapter {
 export abstract class BaseAdapter implements ModelAdapter {
   abstract name: string;
   abstract supportsNativeTools: boolean;
-  abstract complete(
-    prompt: string,
-    options?: { json?: boolean; schema?: Record<string, any> }
-  ): Promise<string>;
-  abstract executeWithTools(prompt: string, tools: Tool[]): Promise<ToolExecutionResult>;
+  abstract complete(prompt: PromptInput, options?: CompletionOptions): Promise<string>;
+  abstract executeWithTools(
+    prompt: PromptInput,
+    tools: Tool[],
+    options?: ToolExecutionOptions
+  ): Promise<ToolExecutionResult>;
 }
@@ -1,8 +1,21 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { TSchema, Static } from '@sinclair/typebox';
-import { BaseAdapter, ToolExecutionResult } from '../base/base';
+import {
+  BaseAdapter,
+  CompletionOptions,
+  PromptInput,
+  RequestOptions,
+  ToolExecutionOptions,
+  ToolExecutionResult,
+  ToolStreamEvent,
+} from '../base/base';
 import { Tool } from '../../../core/tools/types/Tool';
+import { invokeToolWithApproval } from '../../../core/tools/ToolInvocation';
+import { describeTool } from '../../../core/tools/ToolDescription';
 import { SchemaUtils } from '../utils/schemaUtils';
+import { MessageUtils } from '../utils/messageUtils';
+import { throwIfAborted } from '../../../shared/utils/abort';
+import { ToolNotFoundError } from '../../../shared/errors/ToolErrors';
+import { ErrorUtils } from '../utils/errorUtils';
 
 // Define Anthropic's tool format
 interface AnthropicTool {
@@ -37,11 +50,65 @@ export class ClaudeAdapter extends BaseAdapter {
   /**
    * Text completion for general prompts
    */
-  async complete(
-    prompt: string,
-    options?: { json?: boolean; schema?: Record<string, any> }
-  ): Promise<string> {
-    const messages: Anthropic.Messages.MessageParam[] = [{ role: 'user', content: prompt }];
+  async complete(prompt: PromptInput, options?: CompletionOptions): Promise<string> {
+    const { system, messages } = this.buildCompletionMessages(prompt, options);
+
+    let message: Anthropic.Message;
+    try {
+      message = await this.client.messages.create(
+        {
+          model: this.model,
+          max_tokens: 4096,
+          system,
+          messages,
+        },
+        { signal: options?.signal }
+      );
+    } catch (error) {
+      throw ErrorUtils.fromError('claude', error);
+    }
+
+    const textBlocks = message.content.filter(
+      (block): block is Anthropic.TextBlock => block.type === 'text'
+    );
+
+    return textBlocks.map(block => block.text).join('\n');
+  }
+
+  /**
+   * Streaming text completion yielding text deltas as they arrive
+   */
+  async *streamComplete(prompt: PromptInput, options?: RequestOptions): AsyncGenerator<string> {
+    const { system, messages } = this.buildCompletionMessages(prompt);
+    try {
+      const stream = this.client.messages.stream(
+        {
+          model: this.model,
+          max_tokens: 4096,
+          system,
+          messages,
+        },
+        { signal: options?.signal }
+      );
+
+      for await (const event of stream) {
+        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          yield event.delta.text;
+        }
+      }
+    } catch (error) {
+      throw ErrorUtils.fromError('claude', error);
+    }
+  }
+
+  /**
+   * Build the message list for a completion, injecting JSON instructions when requested
+   */
+  private buildCompletionMessages(
+    prompt: PromptInput,
+    options?: CompletionOptions
+  ): { system?: string; messages: Anthropic.Messages.MessageParam[] } {
+    const { system, messages } = this.convertMessages(prompt);
 
     // Anthropic (as of mid-2025) does not have a stable json_schema response_format like OpenAI.
     // Strategy:
@@ -58,7 +125,8 @@ export class ClaudeAdapter extends BaseAdapter {
       });
     } else if (options?.json) {
       // Detect if the prompt already demands a JSON array (e.g., Planner)
-      const wantsArray = /json\s+array/i.test(prompt) || /\[[\s\S]*\{/.test(prompt);
+      const text = MessageUtils.toText(prompt);
+      const wantsArray = /json\s+array/i.test(text) || /\[[\s\S]*\{/.test(text);
       messages.unshift({
         role: 'user',
         content: wantsArray
@@ -67,30 +135,42 @@ export class ClaudeAdapter extends BaseAdapter {
       });
     }
 
-    const message = await this.client.messages.create({
-      model: this.model,
-      max_tokens: 4096,
-      messages,
-    });
-
-    const textBlocks = message.content.filter(
-      (block): block is Anthropic.TextBlock => block.type === 'text'
-    );
+    return { system, messages };
+  }
 
-    return textBlocks.map(block => block.text).join('\n');
+  /**
+   * Convert messages to Anthropic's format: system messages move to the `system` field,
+   * tool messages (which carry no tool_use id) become user text
+   */
+  private convertMessages(prompt: PromptInput): {
+    system?: string;
+    messages: Anthropic.Messages.MessageParam[];
+  } {
+    const { system, messages } = MessageUtils.splitSystem(prompt);
+    return {
+      system,
+      messages: messages.map(message =>
+        message.role === 'assistant'
+          ? { role: 'assistant', content: message.content }
+          : {
+              role: 'user',
+              content:
+                message.role === 'tool' ? MessageUtils.toolMessageAsText(message) : message.content,
+            }
+      ),
+    };
   }
 
   /**
    * Execute tools with a prompt - uses native Anthropic tool calling
    */
-  async executeWithTools(prompt: string, tools: Tool[]): Promise<ToolExecutionResult> {
+  async executeWithTools(
+    prompt: PromptInput,
+    tools: Tool[],
+    options?: ToolExecutionOptions
+  ): Promise<ToolExecutionResult> {
     try {
-      // Convert our Tool format to Anthropic's format
-      const anthropicTools: AnthropicTool[] = tools.map(tool => ({
-        name: tool.name,
-        description: tool.description,
-        input_schema: SchemaUtils.convertToJsonSchema(tool.paramsSchema),
-      }));
+      const anthropicTools = this.convertTools(tools);
 
       const toolCalls: Array<{
         name: string;
@@ -98,33 +178,43 @@ export class ClaudeAdapter extends BaseAdapter {
         result: any;
       }> = [];
 
+      const { system, messages } = this.convertMessages(prompt);
+
       // Make initial request with tools
-      const response = await this.client.messages.create({
-        model: this.model,
-        max_tokens: 4096,
-        messages: [{ role: 'user', content: prompt }],
-        tools: anthropicTools,
-        tool_choice: { type: 'auto' },
-      });
+      const response = await this.client.messages.create(
+        {
+          model: this.model,
+          max_tokens: 4096,
+          system,
+          messages: [...messages],
+          tools: anthropicTools,
+          tool_choice: { type: 'auto' },
+        },
+        { signal: options?.signal }
+      );
 
       let finalContent = '';
-      const messages: Anthropic.MessageParam[] = [{ role: 'user', content: prompt }];
       let currentResponse = response;
 
       // Continue conversation while Claude wants to make tool calls
       let hasMoreToolCalls = this.hasToolCalls(currentResponse);
 
       while (hasMoreToolCalls) {
-        await this.processToolCalls(currentResponse, tools, toolCalls, messages);
+        await this.processToolCalls(currentResponse, tools, toolCalls, messages, options);
+        throwIfAborted(options?.signal);
 
         // Get follow-up response
-        currentResponse = await this.client.messages.create({
-          model: this.model,
-          max_tokens: 4096,
-          messages,
-          tools: anthropicTools,
-          tool_choice: { type: 'auto' },
-        });
+        currentResponse = await this.client.messages.create(
+          {
+            model: this.model,
+            max_tokens: 4096,
+            system,
+            messages,
+            tools: anthropicTools,
+            tool_choice: { type: 'auto' },
+          },
+          { signal: options?.signal }
+        );
 
         hasMoreToolCalls = this.hasToolCalls(currentResponse);
       }
@@ -138,15 +228,102 @@ export class ClaudeAdapter extends BaseAdapter {
         success: true,
       };
     } catch (error) {
+      const failure = ErrorUtils.fromError('claude', error);
       return {
         content: '',
         toolCalls: [],
         success: false,
-        errors: [error instanceof Error ? error.message : String(error)],
+        errors: [failure instanceof Error ? failure.message : String(failure)],
+        error: failure instanceof Error ? failure : undefined,
       };
     }
   }
 
+  /**
+   * Stream a native tool-calling turn, yielding text deltas and tool call boundaries
+   */
+  async *streamWithTools(
+    prompt: PromptInput,
+    tools: Tool[],
+    options?: ToolExecutionOptions
+  ): AsyncGenerator<ToolStreamEvent> {
+    const anthropicTools = this.convertTools(tools);
+    const toolCalls: Array<{ name: string; arguments: any; result: any }> = [];
+    const { system, messages } = this.convertMessages(prompt);
+
+    try {
+      for (;;) {
+        throwIfAborted(options?.signal);
+        const stream = this.client.messages.stream(
+          {
+            model: this.model,
+            max_tokens: 4096,
+            system,
+            messages,
+            tools: anthropicTools,
+            tool_choice: { type: 'auto' },
+          },
+          { signal: options?.signal }
+        );
+
+        for await (const event of stream) {
+          if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+            yield { type: 'text', delta: event.delta.text };
+          }
+        }
+
+        const response = await stream.finalMessage();
+
+        if (!this.hasToolCalls(response)) {
+          yield { type: 'final', content: this.extractTextContent(response), toolCalls };
+          return;
+        }
+
+        messages.push({ role: 'assistant', content: response.content });
+
+        for (const block of response.content) {
+          if (block.type !== 'tool_use') continue;
+
+          const tool = tools.find(t => t.name === block.name);
+          if (!tool) {
+            throw new ToolNotFoundError(block.name, `Tool ${block.name} not found`);
+          }
+
+          yield { type: 'tool_call_start', name: block.name, arguments: block.input };
+          const { params, result } = await invokeToolWithApproval(
+            tool,
+            block.input,
+            { signal: options?.signal },
+            options?.approval,
+            options?.invocation
+          );
+          toolCalls.push({ name: block.name, arguments: params, result });
+          yield { type: 'tool_call_end', name: block.name, arguments: params, result };
+
+          messages.push({
+            role: 'user',
+            content: [
+              { type: 'tool_result', tool_use_id: block.id, content: JSON.stringify(result) },
+            ],
+          });
+        }
+      }
+    } catch (error) {
+      throw ErrorUtils.fromError('claude', error);
+    }
+  }
+
+  /**
+   * Convert our Tool format to Anthropic's format
+   */
+  private convertTools(tools: Tool[]): AnthropicTool[] {
+    return tools.map(tool => ({
+      name: tool.name,
+      description: describeTool(tool),
+      input_schema: SchemaUtils.convertToJsonSchema(tool.paramsSchema),
+    }));
+  }
+
   /**
    * Check if a response contains tool calls
    */
@@ -171,7 +348,8 @@ export class ClaudeAdapter extends BaseAdapter {
     response: Anthropic.Message,
     tools: Tool[],
     toolCalls: Array<{ name: string; arguments: any; result: any }>,
-    messages: Anthropic.MessageParam[]
+    messages: Anthropic.MessageParam[],
+    options?: ToolExecutionOptions
   ): Promise<void> {
     // Add assistant message with current response
     messages.push({
@@ -185,14 +363,20 @@ export class ClaudeAdapter extends BaseAdapter {
         // Find and execute the tool
         const tool = tools.find(t => t.name === block.name);
         if (!tool) {
-          throw new Error(`Tool ${block.name} not found`);
+          throw new ToolNotFoundError(block.name, `Tool ${block.name} not found`);
         }
 
-        const result = await tool.action(block.input as Static<typeof tool.paramsSchema>);
+        const { params, result } = await invokeToolWithApproval(
+          tool,
+          block.input,
+          { signal: options?.signal },
+          options?.approval,
+          options?.invocation
+        );
 
         toolCalls.push({
           name: block.name,
-          arguments: block.input,
+          arguments: params,
           result,
         });
 
@@ -1,5 +1,13 @@
 // Infrastructure Adapters - Public Interface
-export type { ModelAdapter, ToolExecutionResult } from './base/base';
+export type {
+  ModelAdapter,
+  ToolExecutionResult,
+  ToolStreamEvent,
+  RequestOptions,
+  CompletionOptions,
+  ToolExecutionOptions,
+  PromptInput,
+} from './base/base';
 export { BaseAdapter } from './base/base';
 export { ClaudeAdapter } from './claude/claudeAdapter';
 export { OpenAIAdapter } from './openai/openaiAdapter';
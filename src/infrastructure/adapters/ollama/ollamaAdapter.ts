@@ -1,7 +1,20 @@
-import { TSchema, Static } from '@sinclair/typebox';
-import { BaseAdapter, ToolExecutionResult } from '../base/base';
+import {
+  BaseAdapter,
+  CompletionOptions,
+  PromptInput,
+  RequestOptions,
+  ToolExecutionOptions,
+  ToolExecutionResult,
+  ToolStreamEvent,
+} from '../base/base';
 import { Tool } from '../../../core/tools/types/Tool';
+import { invokeToolWithApproval } from '../../../core/tools/ToolInvocation';
+import { describeTool } from '../../../core/tools/ToolDescription';
 import { SchemaUtils } from '../utils/schemaUtils';
+import { MessageUtils } from '../utils/messageUtils';
+import { throwIfAborted } from '../../../shared/utils/abort';
+import { ToolNotFoundError } from '../../../shared/errors/ToolErrors';
+import { ErrorUtils } from '../utils/errorUtils';
 
 // Define Ollama's tool format
 interface OllamaTool {
@@ -73,71 +86,108 @@ export class OllamaAdapter extends BaseAdapter {
   /**
    * Text completion for general prompts
    */
-  async complete(
-    prompt: string,
-    options?: { json?: boolean; schema?: Record<string, any> }
-  ): Promise<string> {
-    // Prefer native structured outputs via chat endpoint when requesting JSON
-    if (options?.json || options?.schema) {
-      const chatBody: any = {
-        model: this.model,
-        messages: [{ role: 'user', content: prompt }],
-        stream: false,
-      };
-      if (options.schema) {
-        chatBody.format = options.schema; // JSON schema object
-      } else if (options.json) {
-        chatBody.format = 'json';
+  async complete(prompt: PromptInput, options?: CompletionOptions): Promise<string> {
+    try {
+      // Use the chat endpoint for conversations and for native structured outputs
+      if (typeof prompt !== 'string' || options?.json || options?.schema) {
+        const chatBody: any = {
+          model: this.model,
+          messages: this.convertMessages(prompt),
+          stream: false,
+        };
+        if (options?.schema) {
+          chatBody.format = options.schema; // JSON schema object
+        } else if (options?.json) {
+          chatBody.format = 'json';
+        }
+        const chatResponse = await fetch(`${this.baseUrl}/api/chat`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(chatBody),
+          signal: options?.signal,
+        });
+        if (!chatResponse.ok) {
+          throw this.httpError(chatResponse);
+        }
+        const data = (await chatResponse.json()) as {
+          message?: { content?: string };
+        };
+        return data.message?.content || '';
       }
-      const chatResponse = await fetch(`${this.baseUrl}/api/chat`, {
+
+      // Fallback to simple generate for plain text
+      const response = await fetch(`${this.baseUrl}/api/generate`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(chatBody),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.model,
+          prompt,
+          stream: false,
+        }),
+        signal: options?.signal,
       });
-      if (!chatResponse.ok) {
-        throw new Error(`Ollama API error: ${chatResponse.status} ${chatResponse.statusText}`);
+
+      if (!response.ok) {
+        throw this.httpError(response);
       }
-      const data = (await chatResponse.json()) as {
-        message?: { content?: string };
-      };
-      return data.message?.content || '';
+
+      const data = (await response.json()) as { response?: string };
+      return data.response || '';
+    } catch (error) {
+      throw ErrorUtils.fromError('ollama', error);
     }
+  }
 
-    // Fallback to simple generate for plain text
-    const response = await fetch(`${this.baseUrl}/api/generate`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: this.model,
-        prompt,
-        stream: false,
-      }),
-    });
+  /**
+   * Streaming text completion yielding text deltas as they arrive
+   */
+  async *streamComplete(prompt: PromptInput, options?: RequestOptions): AsyncGenerator<string> {
+    try {
+      // Plain prompts use the generate endpoint, conversations the chat endpoint
+      const isChat = typeof prompt !== 'string';
+      const response = await fetch(`${this.baseUrl}/api/${isChat ? 'chat' : 'generate'}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.model,
+          ...(isChat ? { messages: this.convertMessages(prompt) } : { prompt }),
+          stream: true,
+        }),
+        signal: options?.signal,
+      });
 
-    if (!response.ok) {
-      throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
-    }
+      if (!response.ok) {
+        throw this.httpError(response);
+      }
 
-    const data = (await response.json()) as { response?: string };
-    return data.response || '';
+      for await (const chunk of this.readStream<{
+        response?: string;
+        message?: { content?: string };
+      }>(response)) {
+        const delta = chunk.response ?? chunk.message?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    } catch (error) {
+      throw ErrorUtils.fromError('ollama', error);
+    }
   }
 
   /**
    * Execute tools with a prompt - uses native Ollama function calling
    */
-  async executeWithTools(prompt: string, tools: Tool[]): Promise<ToolExecutionResult> {
+  async executeWithTools(
+    prompt: PromptInput,
+    tools: Tool[],
+    options?: ToolExecutionOptions
+  ): Promise<ToolExecutionResult> {
     try {
-      // Convert our Tool format to Ollama's format
-      const ollamaTools: OllamaTool[] = tools.map(tool => ({
-        type: 'function',
-        function: {
-          name: tool.name,
-          description: tool.description,
-          parameters: SchemaUtils.convertToJsonSchema(tool.paramsSchema),
-        },
-      }));
+      const ollamaTools = this.convertTools(tools);
 
       const toolCalls: Array<{
         name: string;
@@ -146,9 +196,9 @@ export class OllamaAdapter extends BaseAdapter {
       }> = [];
 
       // Make initial request with tools
-      const messages: OllamaMessage[] = [{ role: 'user', content: prompt }];
+      const messages = this.convertMessages(prompt);
 
-      let response = await this.makeOllamaRequest(messages, ollamaTools);
+      let response = await this.makeOllamaRequest(messages, ollamaTools, options?.signal);
       let finalContent = '';
 
       // Continue conversation while Ollama wants to make tool calls
@@ -165,16 +215,23 @@ export class OllamaAdapter extends BaseAdapter {
           // Find and execute the tool
           const tool = tools.find(t => t.name === toolCall.function.name);
           if (!tool) {
-            throw new Error(`Tool ${toolCall.function.name} not found`);
+            throw new ToolNotFoundError(
+              toolCall.function.name,
+              `Tool ${toolCall.function.name} not found`
+            );
           }
 
-          const result = await tool.action(
-            toolCall.function.arguments as Static<typeof tool.paramsSchema>
+          const { params, result } = await invokeToolWithApproval(
+            tool,
+            toolCall.function.arguments,
+            { signal: options?.signal },
+            options?.approval,
+            options?.invocation
           );
 
           toolCalls.push({
             name: toolCall.function.name,
-            arguments: toolCall.function.arguments,
+            arguments: params,
             result,
           });
 
@@ -185,8 +242,10 @@ export class OllamaAdapter extends BaseAdapter {
           });
         }
 
+        throwIfAborted(options?.signal);
+
         // Get follow-up response
-        response = await this.makeOllamaRequest(messages, ollamaTools);
+        response = await this.makeOllamaRequest(messages, ollamaTools, options?.signal);
       }
 
       // Extract final text content (no more tool calls)
@@ -198,21 +257,166 @@ export class OllamaAdapter extends BaseAdapter {
         success: true,
       };
     } catch (error) {
+      const failure = ErrorUtils.fromError('ollama', error);
       return {
         content: '',
         toolCalls: [],
         success: false,
-        errors: [error instanceof Error ? error.message : String(error)],
+        errors: [failure instanceof Error ? failure.message : String(failure)],
+        error: failure instanceof Error ? failure : undefined,
       };
     }
   }
 
+  /**
+   * Stream a native tool-calling turn, yielding text deltas and tool call boundaries
+   */
+  async *streamWithTools(
+    prompt: PromptInput,
+    tools: Tool[],
+    options?: ToolExecutionOptions
+  ): AsyncGenerator<ToolStreamEvent> {
+    try {
+      const ollamaTools = this.convertTools(tools);
+      const toolCalls: Array<{ name: string; arguments: any; result: any }> = [];
+      const messages = this.convertMessages(prompt);
+
+      for (;;) {
+        throwIfAborted(options?.signal);
+        const response = await fetch(`${this.baseUrl}/api/chat`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model: this.model,
+            messages,
+            tools: ollamaTools,
+            stream: true,
+          }),
+          signal: options?.signal,
+        });
+
+        if (!response.ok) {
+          throw this.httpError(response);
+        }
+
+        let content = '';
+        const pendingCalls: NonNullable<OllamaMessage['tool_calls']> = [];
+
+        for await (const chunk of this.readStream<OllamaResponse>(response)) {
+          if (chunk.message?.content) {
+            content += chunk.message.content;
+            yield { type: 'text', delta: chunk.message.content };
+          }
+          if (chunk.message?.tool_calls) {
+            pendingCalls.push(...chunk.message.tool_calls);
+          }
+        }
+
+        if (pendingCalls.length === 0) {
+          yield { type: 'final', content, toolCalls };
+          return;
+        }
+
+        messages.push({ role: 'assistant', content, tool_calls: pendingCalls });
+
+        for (const toolCall of pendingCalls) {
+          const tool = tools.find(t => t.name === toolCall.function.name);
+          if (!tool) {
+            throw new ToolNotFoundError(
+              toolCall.function.name,
+              `Tool ${toolCall.function.name} not found`
+            );
+          }
+
+          const { name, arguments: args } = toolCall.function;
+          yield { type: 'tool_call_start', name, arguments: args };
+          const { params, result } = await invokeToolWithApproval(
+            tool,
+            args,
+            { signal: options?.signal },
+            options?.approval,
+            options?.invocation
+          );
+          toolCalls.push({ name, arguments: params, result });
+          yield { type: 'tool_call_end', name, arguments: params, result };
+
+          messages.push({
+            role: 'tool',
+            content: JSON.stringify(result),
+          });
+        }
+      }
+    } catch (error) {
+      throw ErrorUtils.fromError('ollama', error);
+    }
+  }
+
+  /**
+   * Convert messages to Ollama's format, which supports all roles natively
+   */
+  private convertMessages(prompt: PromptInput): OllamaMessage[] {
+    return MessageUtils.toMessages(prompt).map(message => ({
+      role: message.role,
+      content: message.content,
+    }));
+  }
+
+  /**
+   * Convert our Tool format to Ollama's format
+   */
+  private convertTools(tools: Tool[]): OllamaTool[] {
+    return tools.map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: describeTool(tool),
+        parameters: SchemaUtils.convertToJsonSchema(tool.paramsSchema),
+      },
+    }));
+  }
+
+  /**
+   * Read a newline-delimited JSON stream as returned by Ollama when stream is true
+   */
+  private async *readStream<T>(response: Response): AsyncGenerator<T> {
+    if (!response.body) {
+      return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let newlineIndex = buffer.indexOf('\n');
+      while (newlineIndex >= 0) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+        if (line) {
+          yield JSON.parse(line) as T;
+        }
+        newlineIndex = buffer.indexOf('\n');
+      }
+    }
+
+    if (buffer.trim()) {
+      yield JSON.parse(buffer) as T;
+    }
+  }
+
   /**
    * Make a request to Ollama's chat API
    */
   private async makeOllamaRequest(
     messages: OllamaMessage[],
-    tools: OllamaTool[]
+    tools: OllamaTool[],
+    signal?: AbortSignal
   ): Promise<OllamaResponse> {
     const response = await fetch(`${this.baseUrl}/api/chat`, {
       method: 'POST',
@@ -225,12 +429,25 @@ export class OllamaAdapter extends BaseAdapter {
         tools,
         stream: false,
       }),
+      signal,
     });
 
     if (!response.ok) {
-      throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+      throw this.httpError(response);
     }
 
     return (await response.json()) as OllamaResponse;
   }
+
+  /**
+   * Typed error for a failed Ollama response (rate limit, auth, context length or other)
+   */
+  private httpError(response: Response): Error {
+    return ErrorUtils.fromStatus(
+      'ollama',
+      response.status,
+      `Ollama API error: ${response.status} ${response.statusText}`,
+      { retryAfter: response.headers?.get?.('retry-after') }
+    );
+  }
 }
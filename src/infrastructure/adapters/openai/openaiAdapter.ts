@@ -1,8 +1,21 @@
 import OpenAI from 'openai';
-import { TSchema, Static } from '@sinclair/typebox';
-import { BaseAdapter, ToolExecutionResult } from '../base/base';
+import {
+  BaseAdapter,
+  CompletionOptions,
+  PromptInput,
+  RequestOptions,
+  ToolExecutionOptions,
+  ToolExecutionResult,
+  ToolStreamEvent,
+} from '../base/base';
 import { Tool } from '../../../core/tools/types/Tool';
+import { invokeToolWithApproval } from '../../../core/tools/ToolInvocation';
+import { describeTool } from '../../../core/tools/ToolDescription';
 import { SchemaUtils } from '../utils/schemaUtils';
+import { MessageUtils } from '../utils/messageUtils';
+import { throwIfAborted } from '../../../shared/utils/abort';
+import { ToolNotFoundError, ToolValidationError } from '../../../shared/errors/ToolErrors';
+import { ErrorUtils } from '../utils/errorUtils';
 
 // Define OpenAI's tool format
 interface OpenAITool {
@@ -44,13 +57,8 @@ export class OpenAIAdapter extends BaseAdapter {
    * options.json: boolean -> Request a JSON object (model validates JSON)
    * options.schema: object -> Provide a JSON schema; will request JSON schema mode if supported
    */
-  async complete(
-    prompt: string,
-    options?: { json?: boolean; schema?: Record<string, any> }
-  ): Promise<string> {
-    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-      { role: 'user', content: prompt },
-    ];
+  async complete(prompt: PromptInput, options?: CompletionOptions): Promise<string> {
+    const messages = this.convertMessages(prompt);
 
     const requestParams: OpenAI.Chat.Completions.ChatCompletionCreateParams = {
       model: this.model,
@@ -73,26 +81,52 @@ export class OpenAIAdapter extends BaseAdapter {
       (requestParams as any).response_format = { type: 'json_object' };
     }
 
-    const completion = (await this.client.chat.completions.create(
-      requestParams
-    )) as OpenAI.Chat.Completions.ChatCompletion; // ensure non-stream type
-    return completion.choices?.[0]?.message?.content || '';
+    try {
+      const completion = (await this.client.chat.completions.create(requestParams, {
+        signal: options?.signal,
+      })) as OpenAI.Chat.Completions.ChatCompletion; // ensure non-stream type
+      return completion.choices?.[0]?.message?.content || '';
+    } catch (error) {
+      throw ErrorUtils.fromError('openai', error);
+    }
   }
 
   /**
-   * Execute tools with a prompt - uses native OpenAI function calling
+   * Streaming text completion yielding text deltas as they arrive
    */
-  async executeWithTools(prompt: string, tools: Tool[]): Promise<ToolExecutionResult> {
+  async *streamComplete(prompt: PromptInput, options?: RequestOptions): AsyncGenerator<string> {
     try {
-      // Convert our Tool format to OpenAI's format
-      const openaiTools: OpenAITool[] = tools.map(tool => ({
-        type: 'function',
-        function: {
-          name: tool.name,
-          description: tool.description,
-          parameters: SchemaUtils.convertToJsonSchema(tool.paramsSchema),
+      const stream = await this.client.chat.completions.create(
+        {
+          model: this.model,
+          messages: this.convertMessages(prompt),
+          max_tokens: 4096,
+          stream: true,
         },
-      }));
+        { signal: options?.signal }
+      );
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    } catch (error) {
+      throw ErrorUtils.fromError('openai', error);
+    }
+  }
+
+  /**
+   * Execute tools with a prompt - uses native OpenAI function calling
+   */
+  async executeWithTools(
+    prompt: PromptInput,
+    tools: Tool[],
+    options?: ToolExecutionOptions
+  ): Promise<ToolExecutionResult> {
+    try {
+      const openaiTools = this.convertTools(tools);
 
       const toolCalls: Array<{
         name: string;
@@ -101,17 +135,18 @@ export class OpenAIAdapter extends BaseAdapter {
       }> = [];
 
       // Make initial request with tools
-      const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-        { role: 'user', content: prompt },
-      ];
-
-      let response = await this.client.chat.completions.create({
-        model: this.model,
-        messages,
-        tools: openaiTools,
-        tool_choice: 'auto',
-        max_tokens: 4096,
-      });
+      const messages = this.convertMessages(prompt);
+
+      let response = await this.client.chat.completions.create(
+        {
+          model: this.model,
+          messages,
+          tools: openaiTools,
+          tool_choice: 'auto',
+          max_tokens: 4096,
+        },
+        { signal: options?.signal }
+      );
 
       let finalContent = '';
       let currentChoice = response.choices[0];
@@ -127,21 +162,34 @@ export class OpenAIAdapter extends BaseAdapter {
             // Find and execute the tool
             const tool = tools.find(t => t.name === toolCall.function.name);
             if (!tool) {
-              throw new Error(`Tool ${toolCall.function.name} not found`);
+              throw new ToolNotFoundError(
+                toolCall.function.name,
+                `Tool ${toolCall.function.name} not found`
+              );
             }
 
             let toolArgs: any;
             try {
               toolArgs = JSON.parse(toolCall.function.arguments);
             } catch (error) {
-              throw new Error(`Invalid JSON in tool arguments: ${toolCall.function.arguments}`);
+              throw new ToolValidationError(
+                toolCall.function.name,
+                [],
+                `Invalid JSON in tool arguments: ${toolCall.function.arguments}`
+              );
             }
 
-            const result = await tool.action(toolArgs as Static<typeof tool.paramsSchema>);
+            const { params, result } = await invokeToolWithApproval(
+              tool,
+              toolArgs,
+              { signal: options?.signal },
+              options?.approval,
+              options?.invocation
+            );
 
             toolCalls.push({
               name: toolCall.function.name,
-              arguments: toolArgs,
+              arguments: params,
               result,
             });
 
@@ -154,14 +202,19 @@ export class OpenAIAdapter extends BaseAdapter {
           }
         }
 
+        throwIfAborted(options?.signal);
+
         // Get follow-up response
-        response = await this.client.chat.completions.create({
-          model: this.model,
-          messages,
-          tools: openaiTools,
-          tool_choice: 'auto',
-          max_tokens: 4096,
-        });
+        response = await this.client.chat.completions.create(
+          {
+            model: this.model,
+            messages,
+            tools: openaiTools,
+            tool_choice: 'auto',
+            max_tokens: 4096,
+          },
+          { signal: options?.signal }
+        );
 
         currentChoice = response.choices[0];
       }
@@ -175,12 +228,143 @@ export class OpenAIAdapter extends BaseAdapter {
         success: true,
       };
     } catch (error) {
+      const failure = ErrorUtils.fromError('openai', error);
       return {
         content: '',
         toolCalls: [],
         success: false,
-        errors: [error instanceof Error ? error.message : String(error)],
+        errors: [failure instanceof Error ? failure.message : String(failure)],
+        error: failure instanceof Error ? failure : undefined,
       };
     }
   }
+
+  /**
+   * Stream a native tool-calling turn, yielding text deltas and tool call boundaries
+   */
+  async *streamWithTools(
+    prompt: PromptInput,
+    tools: Tool[],
+    options?: ToolExecutionOptions
+  ): AsyncGenerator<ToolStreamEvent> {
+    const openaiTools = this.convertTools(tools);
+    const toolCalls: Array<{ name: string; arguments: any; result: any }> = [];
+    const messages = this.convertMessages(prompt);
+
+    try {
+      for (;;) {
+        throwIfAborted(options?.signal);
+        const stream = await this.client.chat.completions.create(
+          {
+            model: this.model,
+            messages,
+            tools: openaiTools,
+            tool_choice: 'auto',
+            max_tokens: 4096,
+            stream: true,
+          },
+          { signal: options?.signal }
+        );
+
+        // Tool call fragments arrive spread over chunks, keyed by index
+        let content = '';
+        const pendingCalls: Array<{ id: string; name: string; arguments: string }> = [];
+
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta;
+          if (delta?.content) {
+            content += delta.content;
+            yield { type: 'text', delta: delta.content };
+          }
+          for (const fragment of delta?.tool_calls || []) {
+            const call = pendingCalls[fragment.index] || { id: '', name: '', arguments: '' };
+            pendingCalls[fragment.index] = call;
+            if (fragment.id) call.id = fragment.id;
+            if (fragment.function?.name) call.name += fragment.function.name;
+            if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+          }
+        }
+
+        if (pendingCalls.length === 0) {
+          yield { type: 'final', content, toolCalls };
+          return;
+        }
+
+        messages.push({
+          role: 'assistant',
+          content: content || null,
+          tool_calls: pendingCalls.map(call => ({
+            id: call.id,
+            type: 'function' as const,
+            function: { name: call.name, arguments: call.arguments },
+          })),
+        });
+
+        for (const call of pendingCalls) {
+          const tool = tools.find(t => t.name === call.name);
+          if (!tool) {
+            throw new ToolNotFoundError(call.name, `Tool ${call.name} not found`);
+          }
+
+          let toolArgs: any;
+          try {
+            toolArgs = JSON.parse(call.arguments || '{}');
+          } catch (error) {
+            throw new ToolValidationError(
+              call.name,
+              [],
+              `Invalid JSON in tool arguments: ${call.arguments}`
+            );
+          }
+
+          yield { type: 'tool_call_start', name: call.name, arguments: toolArgs };
+          const { params, result } = await invokeToolWithApproval(
+            tool,
+            toolArgs,
+            { signal: options?.signal },
+            options?.approval,
+            options?.invocation
+          );
+          toolCalls.push({ name: call.name, arguments: params, result });
+          yield { type: 'tool_call_end', name: call.name, arguments: params, result };
+
+          messages.push({
+            role: 'tool',
+            content: JSON.stringify(result),
+            tool_call_id: call.id,
+          });
+        }
+      }
+    } catch (error) {
+      throw ErrorUtils.fromError('openai', error);
+    }
+  }
+
+  /**
+   * Convert messages to OpenAI's format. Tool messages carry no tool_call_id,
+   * so they are sent as user text.
+   */
+  private convertMessages(
+    prompt: PromptInput
+  ): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+    return MessageUtils.toMessages(prompt).map(message =>
+      message.role === 'tool'
+        ? { role: 'user', content: MessageUtils.toolMessageAsText(message) }
+        : { role: message.role, content: message.content }
+    );
+  }
+
+  /**
+   * Convert our Tool format to OpenAI's format
+   */
+  private convertTools(tools: Tool[]): OpenAITool[] {
+    return tools.map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: describeTool(tool),
+        parameters: SchemaUtils.convertToJsonSchema(tool.paramsSchema),
+      },
+    }));
+  }
 }
@@ -0,0 +1,117 @@
+import { AgentError } from '../../../shared/errors/AgentError';
+import {
+  AdapterAuthError,
+  AdapterError,
+  AdapterNetworkError,
+  AdapterRateLimitError,
+  ContextLengthError,
+} from '../../../shared/errors/AdapterErrors';
+
+/** Provider wording for prompts that exceed the model's context window */
+const CONTEXT_LENGTH_PATTERN =
+  /context[_ ]length|context window|maximum context|prompt is too long|too many tokens/i;
+
+/** Node and undici error codes for a provider that could not be reached */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ETIMEDOUT',
+  'EPIPE',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CLOSED',
+]);
+
+/** Error classes of the provider SDKs for a request that got no response (they keep name 'Error') */
+const NETWORK_ERROR_NAMES = new Set(['APIConnectionError', 'APIConnectionTimeoutError']);
+
+/**
+ * Utility functions for turning provider failures into typed adapter errors
+ */
+export class ErrorUtils {
+  /**
+   * Typed error for a failed HTTP response, keeping the given message
+   */
+  static fromStatus(
+    provider: string,
+    status: number,
+    message: string,
+    options: { retryAfter?: string | null; code?: string; cause?: unknown } = {}
+  ): AdapterError {
+    if (status === 429) {
+      return new AdapterRateLimitError(
+        message,
+        provider,
+        ErrorUtils.parseRetryAfter(options.retryAfter),
+        options.cause
+      );
+    }
+    if (status === 401 || status === 403) {
+      return new AdapterAuthError(message, provider, status, options.cause);
+    }
+    if (options.code === 'context_length_exceeded' || CONTEXT_LENGTH_PATTERN.test(message)) {
+      return new ContextLengthError(message, provider, status, options.cause);
+    }
+    return new AdapterError(message, provider, status, options.cause);
+  }
+
+  /**
+   * Typed error for an exception thrown by a provider SDK or fetch. Network failures become an
+   * AdapterNetworkError; other errors without an HTTP status (e.g. cancellation) and errors
+   * that are already typed are returned unchanged.
+   */
+  static fromError(provider: string, error: unknown): unknown {
+    if (error instanceof AgentError || !(error instanceof Error)) {
+      return error;
+    }
+    const { status, code, headers } = error as Error & {
+      status?: unknown;
+      code?: unknown;
+      headers?: Record<string, string> | { get?: (name: string) => string | null };
+    };
+    if (typeof status !== 'number') {
+      return ErrorUtils.isNetworkError(error)
+        ? new AdapterNetworkError(error.message, provider, error)
+        : error;
+    }
+
+    const retryAfter =
+      headers && typeof headers.get === 'function'
+        ? headers.get('retry-after')
+        : (headers as Record<string, string> | undefined)?.['retry-after'];
+    return ErrorUtils.fromStatus(provider, status, error.message, {
+      retryAfter,
+      code: typeof code === 'string' ? code : undefined,
+      cause: error,
+    });
+  }
+
+  /**
+   * Whether an error (or its cause, as fetch wraps the socket error) means the provider could
+   * not be reached
+   */
+  private static isNetworkError(error: Error): boolean {
+    if (NETWORK_ERROR_NAMES.has(error.constructor.name)) return true;
+    if (error instanceof TypeError && error.message === 'fetch failed') return true;
+    for (const candidate of [error, (error as { cause?: unknown }).cause]) {
+      const code = (candidate as { code?: unknown } | undefined)?.code;
+      if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Retry-After header value (seconds or an HTTP date) in milliseconds
+   */
+  private static parseRetryAfter(value?: string | null): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+}
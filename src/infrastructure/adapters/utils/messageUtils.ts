@@ -0,0 +1,48 @@
+import { Message } from '../../../shared/types/Message';
+import { PromptInput } from '../base/base';
+
+/**
+ * Utility functions for converting prompts into provider message formats
+ */
+export class MessageUtils {
+  /**
+   * Normalize a prompt string or message list into a message list.
+   * A plain string becomes a single user message.
+   */
+  static toMessages(prompt: PromptInput): Message[] {
+    return typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : prompt;
+  }
+
+  /**
+   * Separate system messages from conversation turns.
+   * Used by providers that take the system prompt as a dedicated field (e.g. Anthropic).
+   */
+  static splitSystem(prompt: PromptInput): { system?: string; messages: Message[] } {
+    const messages = MessageUtils.toMessages(prompt);
+    const system = messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    return {
+      system: system || undefined,
+      messages: messages.filter(message => message.role !== 'system'),
+    };
+  }
+
+  /**
+   * Render a tool message as user text, for providers that only accept tool results
+   * tied to a tool call id from the same request
+   */
+  static toolMessageAsText(message: Message): string {
+    return `Tool result${message.name ? ` (${message.name})` : ''}:\n${message.content}`;
+  }
+
+  /**
+   * Flatten a prompt into plain text, e.g. for logging or prompt-only endpoints
+   */
+  static toText(prompt: PromptInput): string {
+    if (typeof prompt === 'string') return prompt;
+    return prompt.map(message => `${message.role}: ${message.content}`).join('\n\n');
+  }
+}
@@ -1,10 +1,14 @@
 import { AgentLogger } from '../interfaces/AgentLogger';
+import { PlanRenderer } from '../../../core/execution/PlanRenderer';
+import { ExecutionPlan } from '../../../core/execution/types/ExecutionPlan';
 
 /**
  * Utility class that provides specialized logging methods using the basic AgentLogger interface.
  * This helps maintain rich logging semantics while using the injectable logger pattern.
  */
 export class LoggerUtils {
+  private planRenderer = new PlanRenderer();
+
   constructor(private logger: AgentLogger) {}
 
   logPrompt(prompt: string, meta?: any): void {
@@ -26,6 +30,21 @@ export class LoggerUtils {
       userMessage: message,
       availableTools: tools.map(t => t.name),
       planSteps: plan.steps?.length || 0,
+      planId: plan.id,
+      steps: plan.steps?.map((step: any) => ({
+        id: step.id,
+        toolName: step.toolName,
+        dependsOn: step.dependsOn,
+      })),
+      diagram: plan.steps ? this.planRenderer.toMermaid(plan) : undefined,
+    });
+  }
+
+  logPlanExecution(plan: ExecutionPlan): void {
+    this.logger.debug('Plan execution diagram', {
+      planId: plan.id,
+      statuses: Object.fromEntries(plan.steps.map(step => [step.id, step.status])),
+      diagram: this.planRenderer.toMermaid(plan),
     });
   }
 
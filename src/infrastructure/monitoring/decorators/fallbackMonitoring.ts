@@ -99,7 +99,7 @@ export function withPlannedMonitoring(
       logger.info('planned_execution_success', {
         execution_id: executionId,
         duration_ms: duration,
-        response_length: result.length,
+        response_length: result.content?.length || result.length || 0,
         timestamp: Date.now(),
       });
 
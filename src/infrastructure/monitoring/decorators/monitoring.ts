@@ -1,11 +1,12 @@
 import { AgentLogger } from '../../logging/interfaces/AgentLogger';
 import { assessComplexity, generateExecutionId } from '../utils/executionClassification';
 import { ExecutionContext } from '../../../core/execution/ExecutionEngine';
+import { RunResult } from '../../../core/agent/types/RunResult';
 
 interface ExecutionMetrics {
   id: string;
   startTime: number;
-  method: 'native' | 'planned';
+  method: 'native' | 'planned' | 'react';
   complexity: 'simple' | 'medium' | 'complex';
   requestLength: number;
   toolCount: number;
@@ -38,7 +39,12 @@ export function withExecutionMonitoring(
 
     try {
       const result = await originalMethod.apply(this, args);
-      logExecutionSuccess(metrics, result, logger);
+      if (typeof result === 'object' && result.success === false) {
+        // Structured results report failures instead of throwing
+        logExecutionFailure(metrics, resultError(result), logger);
+      } else {
+        logExecutionSuccess(metrics, result, logger);
+      }
       return result;
     } catch (error) {
       logExecutionFailure(metrics, error as Error, logger);
@@ -51,6 +57,15 @@ export function withExecutionMonitoring(
   };
 }
 
+/**
+ * First execution method attempted for a run
+ */
+function initialMethod(context: ExecutionContext): ExecutionMetrics['method'] {
+  const selected = context.options.executionMode ?? 'auto';
+  if (selected === 'react' || selected === 'planned') return selected;
+  return context.model.supportsNativeTools ? 'native' : 'planned';
+}
+
 /**
  * Start monitoring and log execution start event
  */
@@ -61,7 +76,7 @@ function startMonitoring(args: any[], logger: AgentLogger): ExecutionMetrics {
   const metrics: ExecutionMetrics = {
     id: generateExecutionId(),
     startTime: Date.now(),
-    method: context.model.supportsNativeTools ? 'native' : 'planned',
+    method: initialMethod(context),
     complexity: assessComplexity(context.message, context.tools),
     requestLength: context.message.length,
     toolCount: context.tools.length,
@@ -82,7 +97,11 @@ function startMonitoring(args: any[], logger: AgentLogger): ExecutionMetrics {
 /**
  * Log successful execution completion
  */
-function logExecutionSuccess(metrics: ExecutionMetrics, result: string, logger: AgentLogger): void {
+function logExecutionSuccess(
+  metrics: ExecutionMetrics,
+  result: string | RunResult,
+  logger: AgentLogger
+): void {
   const duration = Date.now() - metrics.startTime;
 
   logger.info('execution_complete', {
@@ -90,7 +109,7 @@ function logExecutionSuccess(metrics: ExecutionMetrics, result: string, logger:
     method: metrics.method,
     success: true,
     duration_ms: duration,
-    response_length: result.length,
+    response_length: typeof result === 'string' ? result.length : result.content.length,
     complexity: metrics.complexity,
   });
 }
@@ -110,3 +129,18 @@ function logExecutionFailure(metrics: ExecutionMetrics, error: Error, logger: Ag
     complexity: metrics.complexity,
   });
 }
+
+/**
+ * Error of a failed structured result: its `error` when set, else the last of its `errors`,
+ * else a fixed message so the failure is never logged as undefined
+ */
+function resultError(result: RunResult & { error?: unknown }): Error {
+  if (result.error instanceof Error) {
+    return result.error;
+  }
+  if (result.error !== undefined) {
+    return new Error(String(result.error));
+  }
+  const errors = result.errors ?? [];
+  return new Error(errors[errors.length - 1] || 'Execution failed');
+}
@@ -1,4 +1,22 @@
 import { Tool } from '../../../core/tools/types/Tool';
+import { AgentErrorCode, findAgentError } from '../../../shared/errors/AgentError';
+
+/** Fallback reason reported for each error type */
+const FALLBACK_REASONS: Record<AgentErrorCode, string> = {
+  plan_parse: 'plan_error',
+  plan_validation: 'plan_error',
+  reference: 'plan_error',
+  tool_not_found: 'tool_error',
+  tool_validation: 'tool_error',
+  tool_execution: 'tool_error',
+  adapter: 'adapter_error',
+  rate_limit: 'rate_limit',
+  auth: 'auth_error',
+  context_length: 'context_limit',
+  network: 'network_error',
+  timeout: 'timeout',
+  cancelled: 'cancelled',
+};
 
 /**
  * Assess the complexity of a request based on message and tools
@@ -48,18 +66,12 @@ function hasConditionalPattern(message: string): boolean {
 }
 
 /**
- * Categorize the reason for execution fallback
+ * Categorize the reason for execution fallback from the error type (or the typed error in its
+ * cause chain); untyped errors are reported as 'execution_error'
  */
 export function categorizeFallbackReason(error: Error): string {
-  const message = error.message.toLowerCase();
-
-  if (message.includes('token') || message.includes('context')) return 'context_limit';
-  if (message.includes('timeout') || message.includes('time')) return 'timeout';
-  if (message.includes('tool') && message.includes('not found')) return 'tool_error';
-  if (message.includes('rate') || message.includes('limit')) return 'rate_limit';
-  if (message.includes('network') || message.includes('connection')) return 'network_error';
-
-  return 'execution_error';
+  const typed = findAgentError(error);
+  return typed ? FALLBACK_REASONS[typed.code] : 'execution_error';
 }
 
 /**
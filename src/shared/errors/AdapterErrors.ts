@@ -0,0 +1,63 @@
+import { AgentError, AgentErrorCode } from './AgentError';
+
+/**
+ * A model provider request failed
+ */
+export class AdapterError extends AgentError {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly status?: number,
+    cause?: unknown,
+    code: AgentErrorCode = 'adapter'
+  ) {
+    super(code, message, cause);
+    this.name = 'AdapterError';
+  }
+}
+
+/**
+ * The provider rejected the request because of rate limits (HTTP 429)
+ */
+export class AdapterRateLimitError extends AdapterError {
+  constructor(
+    message: string,
+    provider: string,
+    /** Wait suggested by the provider, when it sent a retry-after header */
+    public readonly retryAfterMs?: number,
+    cause?: unknown
+  ) {
+    super(message, provider, 429, cause, 'rate_limit');
+    this.name = 'AdapterRateLimitError';
+  }
+}
+
+/**
+ * The provider rejected the credentials (HTTP 401 or 403)
+ */
+export class AdapterAuthError extends AdapterError {
+  constructor(message: string, provider: string, status?: number, cause?: unknown) {
+    super(message, provider, status, cause, 'auth');
+    this.name = 'AdapterAuthError';
+  }
+}
+
+/**
+ * The prompt does not fit the model's context window
+ */
+export class ContextLengthError extends AdapterError {
+  constructor(message: string, provider: string, status?: number, cause?: unknown) {
+    super(message, provider, status, cause, 'context_length');
+    this.name = 'ContextLengthError';
+  }
+}
+
+/**
+ * The provider could not be reached: the connection was refused, reset or timed out
+ */
+export class AdapterNetworkError extends AdapterError {
+  constructor(message: string, provider: string, cause?: unknown) {
+    super(message, provider, undefined, cause, 'network');
+    this.name = 'AdapterNetworkError';
+  }
+}
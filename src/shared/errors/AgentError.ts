@@ -0,0 +1,45 @@
+/**
+ * Category of a library error, stable across message wording
+ */
+export type AgentErrorCode =
+  | 'plan_parse'
+  | 'plan_validation'
+  | 'reference'
+  | 'tool_not_found'
+  | 'tool_validation'
+  | 'tool_execution'
+  | 'adapter'
+  | 'rate_limit'
+  | 'auth'
+  | 'context_length'
+  | 'network'
+  | 'timeout'
+  | 'cancelled';
+
+/**
+ * Base class of the errors thrown by the toolkit. Check the subclass (or `code`) instead of
+ * matching on the message.
+ */
+export class AgentError extends Error {
+  /** The underlying error, e.g. the exception thrown by a tool or a provider SDK */
+  readonly cause?: unknown;
+
+  constructor(public readonly code: AgentErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'AgentError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * The first AgentError in an error's cause chain
+ */
+export function findAgentError(error: unknown): AgentError | undefined {
+  const seen = new Set<unknown>();
+  for (let current = error; current && !seen.has(current); ) {
+    if (current instanceof AgentError) return current;
+    seen.add(current);
+    current = (current as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
@@ -0,0 +1,21 @@
+import { AgentError } from './AgentError';
+
+/**
+ * A time limit was exceeded: a run's maxDurationMs or a tool call's timeout
+ */
+export class TimeoutError extends AgentError {
+  constructor(message: string, public readonly timeoutMs?: number) {
+    super('timeout', message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * A run was cancelled through its AbortSignal
+ */
+export class CancelledError extends AgentError {
+  constructor(message = 'Execution cancelled') {
+    super('cancelled', message);
+    this.name = 'CancelledError';
+  }
+}
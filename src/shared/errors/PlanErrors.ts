@@ -0,0 +1,31 @@
+import { AgentError } from './AgentError';
+
+/**
+ * The model's plan could not be parsed or did not match the plan schema
+ */
+export class PlanParseError extends AgentError {
+  constructor(message: string, public readonly response?: string) {
+    super('plan_parse', message);
+    this.name = 'PlanParseError';
+  }
+}
+
+/**
+ * A plan is structurally invalid, e.g. it depends on missing steps or has a cycle
+ */
+export class PlanValidationError extends AgentError {
+  constructor(message: string, public readonly stepId?: string) {
+    super('plan_validation', message);
+    this.name = 'PlanValidationError';
+  }
+}
+
+/**
+ * A {{reference}} in step params could not be parsed or resolved (strict references only)
+ */
+export class ReferenceResolutionError extends AgentError {
+  constructor(message: string, public readonly reference: string) {
+    super('reference', message);
+    this.name = 'ReferenceResolutionError';
+  }
+}
@@ -0,0 +1,35 @@
+import { AgentError } from './AgentError';
+
+/**
+ * A plan step or tool call named a tool that is not registered
+ */
+export class ToolNotFoundError extends AgentError {
+  constructor(public readonly toolName: string, message = `Tool '${toolName}' not found`) {
+    super('tool_not_found', message);
+    this.name = 'ToolNotFoundError';
+  }
+}
+
+/**
+ * Tool params did not match the tool's paramsSchema, or could not be read at all
+ */
+export class ToolValidationError extends AgentError {
+  constructor(
+    public readonly toolName: string,
+    public readonly errors: unknown[],
+    message = `Invalid params for tool '${toolName}': ${JSON.stringify(errors)}`
+  ) {
+    super('tool_validation', message);
+    this.name = 'ToolValidationError';
+  }
+}
+
+/**
+ * A tool's action threw. The message is the tool's own error message; `cause` is the error.
+ */
+export class ToolExecutionError extends AgentError {
+  constructor(public readonly toolName: string, cause: unknown) {
+    super('tool_execution', cause instanceof Error ? cause.message : String(cause), cause);
+    this.name = 'ToolExecutionError';
+  }
+}
@@ -0,0 +1,13 @@
+// Shared error taxonomy - Public Interface
+export { AgentError, findAgentError } from './AgentError';
+export type { AgentErrorCode } from './AgentError';
+export { PlanParseError, PlanValidationError, ReferenceResolutionError } from './PlanErrors';
+export { ToolNotFoundError, ToolValidationError, ToolExecutionError } from './ToolErrors';
+export {
+  AdapterError,
+  AdapterRateLimitError,
+  AdapterAuthError,
+  ContextLengthError,
+  AdapterNetworkError,
+} from './AdapterErrors';
+export { TimeoutError, CancelledError } from './ExecutionErrors';
@@ -0,0 +1,14 @@
+/**
+ * Role of a message in a conversation sent to a model
+ */
+export type MessageRole = 'system' | 'user' | 'assistant' | 'tool';
+
+/**
+ * Message format for LLM conversations
+ */
+export interface Message {
+  role: MessageRole;
+  content: string;
+  /** Name of the tool that produced a 'tool' message */
+  name?: string;
+}
@@ -0,0 +1,108 @@
+/**
+ * Utilities for cooperative cancellation via AbortSignal
+ */
+import { CancelledError, TimeoutError } from '../errors/ExecutionErrors';
+
+/**
+ * Human-readable reason for an aborted signal
+ */
+export function abortReason(signal: AbortSignal): string {
+  const reason = signal.reason;
+  if (reason instanceof Error) return reason.message;
+  return typeof reason === 'string' ? reason : 'Execution cancelled';
+}
+
+/**
+ * Error for an aborted signal: its reason when that is a TimeoutError or CancelledError,
+ * otherwise a CancelledError carrying the reason
+ */
+export function abortError(signal: AbortSignal): CancelledError | TimeoutError {
+  const reason = signal.reason;
+  if (reason instanceof CancelledError || reason instanceof TimeoutError) return reason;
+  return new CancelledError(abortReason(signal));
+}
+
+/**
+ * Throw a CancelledError (or the TimeoutError that aborted the signal) if it has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortError(signal);
+  }
+}
+
+/**
+ * Settle with the given promise, or reject with abortError() as soon as the signal aborts.
+ * The underlying work is not stopped; this only stops waiting for it.
+ */
+export function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortError(signal));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Wait for the given time, rejecting as soon as the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const wait = new Promise<void>(resolve => {
+    timer = setTimeout(resolve, ms);
+  });
+  return raceWithSignal(wait, signal).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Create a signal that aborts when the parent signal aborts or when the timeout elapses.
+ * Returns no signal when neither is provided. Call dispose() once the run is over.
+ */
+export function linkAbortSignal(
+  parent?: AbortSignal,
+  timeoutMs?: number
+): { signal?: AbortSignal; dispose: () => void } {
+  if (!parent && timeoutMs === undefined) {
+    return { signal: undefined, dispose: () => undefined };
+  }
+
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parent?.reason);
+
+  if (parent?.aborted) {
+    onParentAbort();
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  const timer =
+    timeoutMs !== undefined
+      ? setTimeout(
+          () =>
+            controller.abort(
+              new TimeoutError(`Max duration of ${timeoutMs}ms exceeded`, timeoutMs)
+            ),
+          timeoutMs
+        )
+      : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
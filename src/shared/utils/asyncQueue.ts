@@ -0,0 +1,47 @@
+/**
+ * Minimal push-based async queue.
+ * Bridges callback-style producers to `for await` consumers.
+ */
+export class AsyncQueue<T> implements AsyncIterable<T> {
+  private items: T[] = [];
+  private waiters: Array<(result: IteratorResult<T>) => void> = [];
+  private closed = false;
+
+  /**
+   * Enqueue an item, handing it directly to a waiting consumer if there is one
+   */
+  push(item: T): void {
+    if (this.closed) return;
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter({ value: item, done: false });
+    } else {
+      this.items.push(item);
+    }
+  }
+
+  /**
+   * Signal that no more items will be pushed; consumers finish after draining
+   */
+  close(): void {
+    this.closed = true;
+    while (this.waiters.length > 0) {
+      this.waiters.shift()!({ value: undefined, done: true });
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: (): Promise<IteratorResult<T>> => {
+        if (this.items.length > 0) {
+          return Promise.resolve({ value: this.items.shift()!, done: false });
+        }
+        if (this.closed) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise(resolve => this.waiters.push(resolve));
+      },
+    };
+  }
+}
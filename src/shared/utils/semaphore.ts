@@ -0,0 +1,42 @@
+/**
+ * Counting semaphore: runs tasks with at most a fixed number in flight.
+ * Tasks waiting for a permit start in the order they asked for one.
+ */
+export class Semaphore {
+  private available: number;
+  private waiters: Array<() => void> = [];
+
+  constructor(permits: number) {
+    this.available = Math.max(1, permits);
+  }
+
+  /**
+   * Run a task once a permit is free, releasing the permit when the task settles
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.available > 0) {
+      this.available--;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiters.push(resolve));
+  }
+
+  private release(): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      // The permit passes straight to the next task
+      waiter();
+    } else {
+      this.available++;
+    }
+  }
+}
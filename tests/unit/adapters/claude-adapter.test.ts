@@ -38,4 +38,22 @@ describe('ClaudeAdapter structured output', () => {
     expect(callArgs.messages[0].content).toContain('JSON Schema:');
     expect(callArgs.messages[0].content).toContain('"name"');
   });
+
+  it('sends system messages through the system field', async () => {
+    await adapter.complete([
+      { role: 'system', content: 'You are terse.' },
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello.' },
+      { role: 'tool', name: 'lookup', content: '{"ok":true}' },
+      { role: 'user', content: 'And now?' },
+    ]);
+    const callArgs = mockCreate.mock.calls[0][0];
+    expect(callArgs.system).toBe('You are terse.');
+    expect(callArgs.messages).toEqual([
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello.' },
+      { role: 'user', content: 'Tool result (lookup):\n{"ok":true}' },
+      { role: 'user', content: 'And now?' },
+    ]);
+  });
 });
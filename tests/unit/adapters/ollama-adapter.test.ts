@@ -131,11 +131,14 @@ describe('OllamaAdapter', () => {
       });
 
       // Verify tool was called with correct arguments
-      expect(mockTool.action).toHaveBeenCalledWith({
-        operation: 'add',
-        a: 20,
-        b: 22,
-      });
+      expect(mockTool.action).toHaveBeenCalledWith(
+        {
+          operation: 'add',
+          a: 20,
+          b: 22,
+        },
+        {}
+      );
 
       // Verify Ollama API was called correctly
       expect(mockFetch).toHaveBeenCalledTimes(2);
@@ -273,4 +276,83 @@ describe('OllamaAdapter', () => {
       expect(requestBody.stream).toBe(false);
     });
   });
+
+  describe('Streaming', () => {
+    const ndjsonResponse = (chunks: any[]) => {
+      const encoder = new TextEncoder();
+      return {
+        ok: true,
+        body: new ReadableStream({
+          start(controller) {
+            for (const chunk of chunks) {
+              controller.enqueue(encoder.encode(JSON.stringify(chunk) + '\n'));
+            }
+            controller.close();
+          },
+        }),
+      };
+    };
+
+    it('should stream text deltas from the generate endpoint', async () => {
+      mockFetch.mockResolvedValueOnce(
+        ndjsonResponse([{ response: 'Hel' }, { response: 'lo' }, { response: '', done: true }])
+      );
+
+      const deltas: string[] = [];
+      for await (const delta of adapter.streamComplete('Say hello')) {
+        deltas.push(delta);
+      }
+
+      expect(deltas).toEqual(['Hel', 'lo']);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).stream).toBe(true);
+    });
+
+    it('should stream tool call boundaries and the final answer', async () => {
+      const tool = {
+        name: 'calculator',
+        description: 'Performs basic arithmetic operations',
+        paramsSchema: Type.Object({ a: Type.Number(), b: Type.Number() }),
+        action: vi.fn().mockResolvedValue(42),
+      };
+
+      mockFetch
+        .mockResolvedValueOnce(
+          ndjsonResponse([
+            {
+              message: {
+                role: 'assistant',
+                content: '',
+                tool_calls: [{ function: { name: 'calculator', arguments: { a: 20, b: 22 } } }],
+              },
+              done: true,
+            },
+          ])
+        )
+        .mockResolvedValueOnce(
+          ndjsonResponse([
+            { message: { role: 'assistant', content: 'The answer ' }, done: false },
+            { message: { role: 'assistant', content: 'is 42.' }, done: true },
+          ])
+        );
+
+      const events: any[] = [];
+      for await (const event of adapter.streamWithTools('Add 20 and 22', [tool])) {
+        events.push(event);
+      }
+
+      expect(events.map(e => e.type)).toEqual([
+        'tool_call_start',
+        'tool_call_end',
+        'text',
+        'text',
+        'final',
+      ]);
+      expect(events[1]).toMatchObject({ name: 'calculator', result: 42 });
+      expect(events[4]).toMatchObject({ content: 'The answer is 42.' });
+      expect(events[4].toolCalls).toHaveLength(1);
+
+      const followUpBody = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(followUpBody.messages[2]).toEqual({ role: 'tool', content: '42' });
+    });
+  });
 });
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { OpenAIAdapter } from '../../../src/infrastructure/adapters/openai/openaiAdapter';
 import { Type } from '@sinclair/typebox';
+import { ToolValidationError } from '../../../src/shared/errors';
 import {
   mockOpenAIResponse,
   mockOpenAIToolResponse,
@@ -49,11 +50,32 @@ describe('OpenAIAdapter', () => {
       const result = await adapter.complete('Hello, how are you?');
 
       expect(result).toBe('I can help you with that calculation. The answer is 42.');
-      expect(mockCreate).toHaveBeenCalledWith({
-        model: 'gpt-4o',
-        messages: [{ role: 'user', content: 'Hello, how are you?' }],
-        max_tokens: 4096,
-      });
+      expect(mockCreate).toHaveBeenCalledWith(
+        {
+          model: 'gpt-4o',
+          messages: [{ role: 'user', content: 'Hello, how are you?' }],
+          max_tokens: 4096,
+        },
+        { signal: undefined }
+      );
+    });
+
+    it('should send message arrays as chat messages', async () => {
+      mockCreate.mockResolvedValueOnce(mockOpenAIResponse);
+
+      await adapter.complete([
+        { role: 'system', content: 'You are terse.' },
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello.' },
+        { role: 'user', content: 'What is 6 * 7?' },
+      ]);
+
+      expect(mockCreate.mock.calls[0][0].messages).toEqual([
+        { role: 'system', content: 'You are terse.' },
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello.' },
+        { role: 'user', content: 'What is 6 * 7?' },
+      ]);
     });
 
     it('should handle empty responses', async () => {
@@ -84,7 +106,8 @@ describe('OpenAIAdapter', () => {
       expect(mockCreate).toHaveBeenCalledWith(
         expect.objectContaining({
           response_format: { type: 'json_object' },
-        })
+        }),
+        expect.anything()
       );
     });
 
@@ -104,7 +127,8 @@ describe('OpenAIAdapter', () => {
             type: 'json_schema',
             json_schema: expect.objectContaining({ schema }),
           }),
-        })
+        }),
+        expect.anything()
       );
     });
   });
@@ -141,16 +165,112 @@ describe('OpenAIAdapter', () => {
       });
 
       // Verify tool was called with correct arguments
-      expect(mockTool.action).toHaveBeenCalledWith({
-        operation: 'add',
-        a: 20,
-        b: 22,
-      });
+      expect(mockTool.action).toHaveBeenCalledWith(
+        {
+          operation: 'add',
+          a: 20,
+          b: 22,
+        },
+        {}
+      );
 
       // Verify OpenAI API was called correctly
       expect(mockCreate).toHaveBeenCalledTimes(2);
     });
 
+    it('should feed a rejected tool call back to the model without running it', async () => {
+      const refundTool = { ...mockTool, requiresApproval: true, action: vi.fn() };
+      const onApprovalRequired = vi.fn().mockResolvedValue({
+        action: 'reject',
+        reason: 'Amount too high',
+      });
+      mockCreate
+        .mockResolvedValueOnce(mockOpenAIToolResponse)
+        .mockResolvedValueOnce(mockOpenAIFollowUpResponse);
+
+      const result = await adapter.executeWithTools('Calculate 20 + 22', [refundTool], {
+        approval: { onApprovalRequired },
+      });
+
+      expect(onApprovalRequired).toHaveBeenCalledWith({
+        toolName: 'calculator',
+        params: { operation: 'add', a: 20, b: 22 },
+      });
+      expect(refundTool.action).not.toHaveBeenCalled();
+      const toolMessage = mockCreate.mock.calls[1][0].messages.find(
+        (message: any) => message.role === 'tool'
+      );
+      expect(JSON.parse(toolMessage.content)).toBe(
+        "Tool call 'calculator' was rejected by the reviewer: Amount too high"
+      );
+    });
+
+    it('should run a tool with arguments edited by the reviewer', async () => {
+      const action = vi.fn().mockResolvedValue(30);
+      mockCreate
+        .mockResolvedValueOnce(mockOpenAIToolResponse)
+        .mockResolvedValueOnce(mockOpenAIFollowUpResponse);
+
+      const result = await adapter.executeWithTools(
+        'Calculate 20 + 22',
+        [{ ...mockTool, action }],
+        {
+          approval: {
+            policy: (_tool, params) => params.a > 10,
+            onApprovalRequired: () => ({
+              action: 'edit',
+              params: { operation: 'add', a: 10, b: 20 },
+            }),
+          },
+        }
+      );
+
+      expect(action).toHaveBeenCalledWith({ operation: 'add', a: 10, b: 20 }, {});
+      expect(result.toolCalls[0]).toEqual({
+        name: 'calculator',
+        arguments: { operation: 'add', a: 10, b: 20 },
+        result: 30,
+      });
+    });
+
+    it('should not run a tool with edited arguments that do not match its schema', async () => {
+      const action = vi.fn().mockResolvedValue(30);
+      mockCreate.mockResolvedValueOnce(mockOpenAIToolResponse);
+
+      const result = await adapter.executeWithTools(
+        'Calculate 20 + 22',
+        [{ ...mockTool, action }],
+        {
+          approval: {
+            policy: () => true,
+            onApprovalRequired: () => ({ action: 'edit', params: { operation: 'add', a: '10' } }),
+          },
+        }
+      );
+
+      expect(action).not.toHaveBeenCalled();
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(ToolValidationError);
+    });
+
+    it('should retry failing tool calls with the run-level policy', async () => {
+      const action = vi.fn().mockRejectedValueOnce(new Error('HTTP 503')).mockResolvedValue(42);
+      mockCreate
+        .mockResolvedValueOnce(mockOpenAIToolResponse)
+        .mockResolvedValueOnce(mockOpenAIFollowUpResponse);
+
+      const result = await adapter.executeWithTools(
+        'Calculate 20 + 22',
+        [{ ...mockTool, action }],
+        {
+          invocation: { retry: { maxAttempts: 2, initialDelayMs: 1 } },
+        }
+      );
+
+      expect(action).toHaveBeenCalledTimes(2);
+      expect(result.toolCalls[0].result).toBe(42);
+    });
+
     it('should handle tool not found errors', async () => {
       mockCreate.mockResolvedValueOnce(mockOpenAIToolResponse);
 
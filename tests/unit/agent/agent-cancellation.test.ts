@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { Agent } from '../../../src/core/agent/Agent';
+import { SlidingWindowMemoryManager } from '../../../src/core/memory/memory';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+import {
+  ModelAdapter,
+  ToolExecutionOptions,
+  ToolExecutionResult,
+} from '../../../src/infrastructure/adapters/base/base';
+import { Tool, ToolContext } from '../../../src/core/tools/types/Tool';
+import { invokeTool } from '../../../src/core/tools/ToolInvocation';
+import { Planner } from '../../../src/core/execution/Planner';
+import { RunOptions } from '../../../src/core/agent/types/RunOptions';
+
+function createHangingTool(): Tool & { received: ToolContext[] } {
+  const received: ToolContext[] = [];
+  return {
+    name: 'hang',
+    description: 'Never resolves',
+    paramsSchema: Type.Object({}),
+    received,
+    action: (_params: any, context?: ToolContext) => {
+      received.push(context || {});
+      return new Promise(() => undefined);
+    },
+  };
+}
+
+class PlannedAdapter implements ModelAdapter {
+  name = 'planned';
+  supportsNativeTools = false;
+  complete = vi.fn(async () =>
+    JSON.stringify([
+      { id: 'step1', toolName: 'hang', params: {}, dependsOn: [] },
+      { id: 'step2', toolName: 'hang', params: {}, dependsOn: [] },
+    ])
+  );
+
+  async executeWithTools(): Promise<ToolExecutionResult> {
+    throw new Error('not implemented');
+  }
+}
+
+class NativeAdapter implements ModelAdapter {
+  name = 'native';
+  supportsNativeTools = true;
+  complete = vi.fn(async () => '[]');
+
+  async executeWithTools(
+    _prompt: string,
+    tools: Tool[],
+    options?: ToolExecutionOptions
+  ): Promise<ToolExecutionResult> {
+    try {
+      const result = await invokeTool(tools[0], {}, { signal: options?.signal });
+      return { content: String(result), toolCalls: [], success: true };
+    } catch (error) {
+      return { content: '', toolCalls: [], success: false, errors: [(error as Error).message] };
+    }
+  }
+}
+
+function createAgent(tool: Tool): Agent {
+  const agent = new Agent(new SlidingWindowMemoryManager(), new SilentLogger());
+  agent.addTool(tool);
+  return agent;
+}
+
+describe('Agent cancellation', () => {
+  it('stops a planned run and passes the signal to tools', async () => {
+    const tool = createHangingTool();
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const result = await createAgent(tool).runDetailed('hang', new PlannedAdapter(), {
+      signal: controller.signal,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.cancelled).toBe(true);
+    expect(tool.received).toHaveLength(1);
+    expect(tool.received[0].signal?.aborted).toBe(true);
+  });
+
+  it('does not fall back to planning when a native run is cancelled', async () => {
+    const adapter = new NativeAdapter();
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const response = await createAgent(createHangingTool()).run('hang', adapter, {
+      signal: controller.signal,
+    });
+
+    expect(response).toMatch(/^Execution cancelled:/);
+    expect(adapter.complete).not.toHaveBeenCalled();
+  });
+
+  it('enforces maxDurationMs during native execution', async () => {
+    const result = await createAgent(createHangingTool()).runDetailed('hang', new NativeAdapter(), {
+      maxDurationMs: 20,
+    });
+
+    expect(result.cancelled).toBe(true);
+    expect(result.errors[result.errors.length - 1]).toBe('Max duration of 20ms exceeded');
+  });
+
+  it('enforces maxDurationMs on a planning request that never returns', async () => {
+    const adapter = new PlannedAdapter();
+    adapter.complete.mockImplementation(() => new Promise<string>(() => undefined));
+
+    const result = await createAgent(createHangingTool()).runDetailed('hang', adapter, {
+      maxDurationMs: 20,
+    });
+
+    expect(result.cancelled).toBe(true);
+    expect(result.errors[result.errors.length - 1]).toBe('Max duration of 20ms exceeded');
+  });
+
+  it('gives planned execution only what is left of maxDurationMs after a fallback', async () => {
+    const executePlan = vi.spyOn(Planner.prototype, 'executePlan');
+    const adapter = new PlannedAdapter();
+    adapter.complete.mockResolvedValue(
+      JSON.stringify([{ id: 'step1', toolName: 'quick', params: {}, dependsOn: [] }])
+    );
+    const fallback = Object.assign(adapter, {
+      supportsNativeTools: true,
+      executeWithTools: async (): Promise<ToolExecutionResult> => {
+        await new Promise(resolve => setTimeout(resolve, 40));
+        return { content: '', toolCalls: [], success: false, errors: ['no native tools'] };
+      },
+    });
+    const quick: Tool = {
+      name: 'quick',
+      description: 'Resolves at once',
+      paramsSchema: Type.Object({}),
+      action: async () => 'done',
+    };
+
+    try {
+      const result = await createAgent(quick).runDetailed('quick', fallback, {
+        maxDurationMs: 1000,
+        responseMode: 'raw',
+      });
+
+      expect(result).toMatchObject({ success: true, mode: 'fallback', content: 'step1: done' });
+      const budget = (executePlan.mock.calls[0][2] as RunOptions).maxDurationMs as number;
+      expect(budget).toBeLessThanOrEqual(960);
+    } finally {
+      executePlan.mockRestore();
+    }
+  });
+
+  it('returns immediately when the signal is already aborted', async () => {
+    const tool = createHangingTool();
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await createAgent(tool).runDetailed('hang', new PlannedAdapter(), {
+      signal: controller.signal,
+    });
+
+    expect(result.cancelled).toBe(true);
+    expect(tool.received).toHaveLength(0);
+  });
+});
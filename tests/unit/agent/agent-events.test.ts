@@ -0,0 +1,156 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { Agent } from '../../../src/core/agent/Agent';
+import { SlidingWindowMemoryManager } from '../../../src/core/memory/memory';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+import {
+  ModelAdapter,
+  PromptInput,
+  ToolExecutionOptions,
+  ToolExecutionResult,
+} from '../../../src/infrastructure/adapters/base/base';
+import { Tool } from '../../../src/core/tools/types/Tool';
+import { invokeToolWithApproval } from '../../../src/core/tools/ToolInvocation';
+import { MessageUtils } from '../../../src/infrastructure/adapters/utils/messageUtils';
+
+const lookupTool: Tool = {
+  name: 'lookup_order',
+  description: 'Look up an order',
+  paramsSchema: Type.Object({ orderId: Type.String() }),
+  action: async () => 'shipped',
+};
+
+class PlannedAdapter implements ModelAdapter {
+  name = 'planned';
+  supportsNativeTools = false;
+  complete = vi.fn(async (prompt: PromptInput) =>
+    MessageUtils.toText(prompt).includes('Available Tools')
+      ? JSON.stringify([
+          { id: 'step1', toolName: 'lookup_order', params: { orderId: 'A1' }, dependsOn: [] },
+        ])
+      : 'Order A1 has shipped.'
+  );
+
+  async executeWithTools(): Promise<ToolExecutionResult> {
+    throw new Error('Native tool calling unavailable');
+  }
+}
+
+class NativeAdapter extends PlannedAdapter {
+  supportsNativeTools = true;
+
+  async executeWithTools(
+    _prompt: PromptInput,
+    tools: Tool[],
+    options?: ToolExecutionOptions
+  ): Promise<ToolExecutionResult> {
+    const { params, result } = await invokeToolWithApproval(
+      tools[0],
+      { orderId: 'A1' },
+      { signal: options?.signal },
+      options?.approval
+    );
+    return {
+      content: 'Order A1 has shipped.',
+      toolCalls: [{ name: tools[0].name, arguments: params, result }],
+      success: true,
+    };
+  }
+}
+
+function createAgent(): Agent {
+  const agent = new Agent(new SlidingWindowMemoryManager(), new SilentLogger());
+  agent.addTool(lookupTool);
+  return agent;
+}
+
+describe('Agent events', () => {
+  it('emits plan, step and tool events sharing the execution id', async () => {
+    const agent = createAgent();
+    const events: Array<{ name: string; payload: any }> = [];
+    for (const name of ['plan:created', 'step:start', 'step:end', 'tool:call'] as const) {
+      agent.on(name, payload => events.push({ name, payload }));
+    }
+
+    const result = await agent.runDetailed('Where is order A1?', new PlannedAdapter());
+
+    expect(events.map(event => event.name)).toEqual([
+      'plan:created',
+      'step:start',
+      'tool:call',
+      'step:end',
+    ]);
+    expect(events.every(event => event.payload.executionId === result.executionId)).toBe(true);
+    expect(events[0].payload.plan.steps[0].id).toBe('step1');
+    expect(events[2].payload).toMatchObject({
+      toolName: 'lookup_order',
+      params: { orderId: 'A1' },
+      result: 'shipped',
+    });
+    expect(events[3].payload).toMatchObject({ stepId: 'step1', status: 'completed' });
+  });
+
+  it('emits tool calls made by native tool loops', async () => {
+    const agent = createAgent();
+    const toolCalls = vi.fn();
+    agent.on('tool:call', toolCalls);
+
+    await agent.run('Where is order A1?', new NativeAdapter());
+
+    expect(toolCalls).toHaveBeenCalledWith(
+      expect.objectContaining({ toolName: 'lookup_order', result: 'shipped' })
+    );
+  });
+
+  it('emits a fallback event when native execution fails', async () => {
+    const agent = createAgent();
+    const adapter = new PlannedAdapter();
+    adapter.supportsNativeTools = true;
+    const fallback = vi.fn();
+    agent.on('fallback', fallback);
+
+    const result = await agent.runDetailed('Where is order A1?', adapter);
+
+    expect(result.mode).toBe('fallback');
+    expect(fallback).toHaveBeenCalledWith({
+      executionId: result.executionId,
+      from: 'native',
+      to: 'planned',
+      reason: expect.any(String),
+      error: 'Native tool calling unavailable',
+    });
+  });
+
+  it('tags streaming runs with an execution id', async () => {
+    const agent = createAgent();
+    const steps = vi.fn();
+    agent.on('step:start', steps);
+
+    for await (const _event of agent.stream('Where is order A1?', new PlannedAdapter())) {
+      // drain
+    }
+
+    expect(steps).toHaveBeenCalledWith(
+      expect.objectContaining({ executionId: expect.stringMatching(/^exec_/), stepId: 'step1' })
+    );
+  });
+
+  it('isolates failing listeners and supports unsubscribing', async () => {
+    const agent = createAgent();
+    agent.on('step:start', () => {
+      throw new Error('listener bug');
+    });
+    const listener = vi.fn();
+    const unsubscribe = agent.on('step:end', listener);
+    const once = vi.fn();
+    agent.once('tool:call', once);
+
+    const first = await agent.runDetailed('Where is order A1?', new PlannedAdapter());
+    unsubscribe();
+    await agent.runDetailed('Where is order A1?', new PlannedAdapter());
+
+    expect(first.success).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(once).toHaveBeenCalledTimes(1);
+  });
+});
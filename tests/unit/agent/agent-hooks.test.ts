@@ -0,0 +1,256 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { Agent } from '../../../src/core/agent/Agent';
+import { SlidingWindowMemoryManager } from '../../../src/core/memory/memory';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+import {
+  ModelAdapter,
+  PromptInput,
+  ToolExecutionResult,
+} from '../../../src/infrastructure/adapters/base/base';
+import { Tool } from '../../../src/core/tools/types/Tool';
+import { StreamEvent } from '../../../src/core/execution/types/StreamEvent';
+import { MessageUtils } from '../../../src/infrastructure/adapters/utils/messageUtils';
+
+function createLookupTool(action: Tool['action'] = async () => 'Order A1: shipped'): Tool {
+  return {
+    name: 'lookup_order',
+    description: 'Look up an order',
+    paramsSchema: Type.Object({ orderId: Type.String() }),
+    action: vi.fn(action),
+  };
+}
+
+/**
+ * Planner-only adapter: returns a one-step plan, then echoes the step results back as the answer
+ */
+class PlannedAdapter implements ModelAdapter {
+  name = 'planned';
+  supportsNativeTools = false;
+  complete = vi.fn(async (prompt: PromptInput) => {
+    const text = MessageUtils.toText(prompt);
+    if (text.includes('Available Tools')) {
+      return JSON.stringify([
+        { id: 'step1', toolName: 'lookup_order', params: { orderId: 'A1' }, dependsOn: [] },
+      ]);
+    }
+    return `Answer based on: ${text.slice(text.indexOf('step1'))}`;
+  });
+
+  async executeWithTools(): Promise<ToolExecutionResult> {
+    throw new Error('not implemented');
+  }
+}
+
+class FailingNativeAdapter extends PlannedAdapter {
+  name = 'native';
+  supportsNativeTools = true;
+
+  async executeWithTools(): Promise<ToolExecutionResult> {
+    throw new Error('Native tool calling unavailable');
+  }
+}
+
+function createAgent(tool: Tool = createLookupTool()): Agent {
+  const agent = new Agent(new SlidingWindowMemoryManager(), new SilentLogger());
+  agent.addTool(tool);
+  return agent;
+}
+
+describe('Agent lifecycle hooks', () => {
+  it('rewrites the request in beforeRun and the result in afterRun', async () => {
+    const agent = createAgent();
+    const adapter = new PlannedAdapter();
+    agent.use({
+      beforeRun: ({ message }) => ({ message: message.replace(/\d{4}-\d{4}/, '[card]') }),
+      afterRun: ({ result }) => ({ result: { ...result, content: result.content.toUpperCase() } }),
+    });
+
+    const result = await agent.runDetailed('Card 1234-5678, where is order A1?', adapter);
+
+    expect(MessageUtils.toText(adapter.complete.mock.calls[0][0])).not.toContain('1234-5678');
+    expect(agent.getMemory()[0].content).toBe('Card [card], where is order A1?');
+    expect(result.content).toMatch(/^ANSWER BASED ON/);
+  });
+
+  it('runs afterRun at the end of a streamed run', async () => {
+    const agent = createAgent();
+    const afterRun = vi.fn(({ result }) => ({
+      result: { ...result, content: `${result.content} (reviewed)` },
+    }));
+    agent.use({ afterRun });
+
+    const events: StreamEvent[] = [];
+    for await (const event of agent.stream('Where is order A1?', new PlannedAdapter())) {
+      events.push(event);
+    }
+
+    expect(afterRun).toHaveBeenCalledTimes(1);
+    expect(afterRun.mock.calls[0][0].result).toMatchObject({
+      success: true,
+      mode: 'planned',
+      steps: [expect.objectContaining({ stepId: 'step1', status: 'completed' })],
+    });
+    const final = events[events.length - 1];
+    expect(final).toEqual({
+      type: 'final',
+      content: expect.stringMatching(/\(reviewed\)$/),
+      result: expect.objectContaining({ content: expect.stringMatching(/\(reviewed\)$/) }),
+    });
+    expect(agent.getHistory()[1].content).toMatch(/\(reviewed\)$/);
+  });
+
+  it('short-circuits a run from beforeRun', async () => {
+    const agent = createAgent();
+    const adapter = new PlannedAdapter();
+    agent.use({ beforeRun: () => ({ response: 'Cached answer' }) });
+
+    const result = await agent.runDetailed('Where is order A1?', adapter);
+
+    expect(result).toMatchObject({ content: 'Cached answer', success: true });
+    expect(adapter.complete).not.toHaveBeenCalled();
+    expect(agent.getHistory()[1]).toEqual({ role: 'assistant', content: 'Cached answer' });
+  });
+
+  it('serves model calls from beforeModelCall and rewrites responses in afterModelCall', async () => {
+    const agent = createAgent();
+    const adapter = new PlannedAdapter();
+    const operations: string[] = [];
+    agent.use({
+      beforeModelCall: ({ operation, prompt }) => {
+        operations.push(operation);
+        return MessageUtils.toText(prompt).includes('Available Tools')
+          ? { response: '[]' }
+          : undefined;
+      },
+      afterModelCall: ({ response }) => ({ response: `${response} (checked)` }),
+    });
+
+    const response = await agent.run('Hello', adapter);
+
+    expect(operations).toEqual(['complete', 'complete']);
+    expect(adapter.complete).toHaveBeenCalledTimes(1);
+    expect(response).toMatch(/\(checked\)$/);
+  });
+
+  it('rewrites tool params and results around the tool call', async () => {
+    const tool = createLookupTool();
+    const agent = createAgent(tool);
+    const afterToolCall = vi.fn(({ result }) => ({ result: `${result} (redacted)` }));
+    agent.use({
+      beforeToolCall: ({ params }) => ({ params: { ...params, orderId: 'B2' } }),
+      afterToolCall,
+    });
+
+    const result = await agent.runDetailed('Where is order A1?', new PlannedAdapter());
+
+    expect(tool.action).toHaveBeenCalledWith({ orderId: 'B2' }, expect.anything());
+    expect(afterToolCall).toHaveBeenCalledWith(
+      expect.objectContaining({ toolName: 'lookup_order', params: { orderId: 'B2' } })
+    );
+    expect(result.plan?.context.step1).toBe('Order A1: shipped (redacted)');
+  });
+
+  it('rejects tool params rewritten by beforeToolCall that violate the schema', async () => {
+    const tool = createLookupTool();
+    const agent = createAgent(tool);
+    agent.use({ beforeToolCall: ({ params }) => ({ params: { ...params, orderId: 42 } }) });
+
+    const result = await agent.runDetailed('Where is order A1?', new PlannedAdapter());
+
+    expect(tool.action).not.toHaveBeenCalled();
+    expect(result.steps[0].status).toBe('failed');
+    expect(result.plan?.steps[0].result).toContain("Invalid params for tool 'lookup_order'");
+  });
+
+  it('asks for approval again when beforeToolCall rewrites approved params', async () => {
+    const tool = { ...createLookupTool(), requiresApproval: true };
+    const agent = createAgent(tool);
+    agent.use({ beforeToolCall: () => ({ params: { orderId: 'B2' } }) });
+    const onApprovalRequired = vi
+      .fn()
+      .mockReturnValueOnce({ action: 'approve' })
+      .mockReturnValueOnce({ action: 'reject', reason: 'Wrong order' });
+
+    const result = await agent.runDetailed('Where is order A1?', new PlannedAdapter(), {
+      onApprovalRequired,
+    });
+
+    expect(onApprovalRequired.mock.calls.map(([request]) => request.params)).toEqual([
+      { orderId: 'A1' },
+      { orderId: 'B2' },
+    ]);
+    expect(tool.action).not.toHaveBeenCalled();
+    expect(result.plan?.steps[0].result).toContain(
+      "Tool call 'lookup_order' was rejected by the reviewer: Wrong order"
+    );
+  });
+
+  it('recovers from tool errors through onError', async () => {
+    const tool = createLookupTool(async () => {
+      throw new Error('Orders service down');
+    });
+    const agent = createAgent(tool);
+    const onError = vi.fn(({ stage }) => (stage === 'tool' ? { result: 'unknown' } : undefined));
+    agent.use({ onError });
+
+    const result = await agent.runDetailed('Where is order A1?', new PlannedAdapter());
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ stage: 'tool', toolName: 'lookup_order' })
+    );
+    expect(result.steps[0].status).toBe('completed');
+    expect(result.plan?.context.step1).toBe('unknown');
+  });
+
+  it('sends failed native results to onError instead of afterModelCall', async () => {
+    const agent = createAgent();
+    const adapter = new PlannedAdapter();
+    adapter.supportsNativeTools = true;
+    adapter.executeWithTools = vi.fn(async () => ({
+      content: '',
+      toolCalls: [],
+      success: false,
+      errors: ['Rate limit reached'],
+    }));
+    const onError = vi.fn(({ stage }) =>
+      stage === 'model' ? { result: 'Please try again later' } : undefined
+    );
+    const afterModelCall = vi.fn();
+    agent.use({ onError, afterModelCall });
+
+    const result = await agent.runDetailed('Where is order A1?', adapter);
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        stage: 'model',
+        operation: 'executeWithTools',
+        error: expect.objectContaining({ message: 'Rate limit reached' }),
+      })
+    );
+    expect(afterModelCall).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      success: true,
+      mode: 'native',
+      content: 'Please try again later',
+    });
+  });
+
+  it('lets onFallback observe and veto the planner fallback', async () => {
+    const agent = createAgent();
+    const adapter = new FailingNativeAdapter();
+    const onFallback = vi.fn(() => ({ skip: true }));
+    const onError = vi.fn();
+    agent.use({ onFallback, onError });
+
+    const result = await agent.runDetailed('Where is order A1?', adapter);
+
+    expect(onFallback).toHaveBeenCalledWith(
+      expect.objectContaining({ from: 'native', to: 'planned', reason: expect.any(String) })
+    );
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(['Native tool calling unavailable']);
+    expect(adapter.complete).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ stage: 'run' }));
+  });
+});
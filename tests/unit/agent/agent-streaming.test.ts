@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { Agent } from '../../../src/core/agent/Agent';
+import { SlidingWindowMemoryManager } from '../../../src/core/memory/memory';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+import {
+  ModelAdapter,
+  ToolExecutionResult,
+  ToolStreamEvent,
+} from '../../../src/infrastructure/adapters/base/base';
+import { StreamEvent } from '../../../src/core/execution/types/StreamEvent';
+import { Tool } from '../../../src/core/tools/types/Tool';
+
+const multiplyTool: Tool = {
+  name: 'multiply',
+  description: 'Multiply two numbers',
+  paramsSchema: Type.Object({ a: Type.Number(), b: Type.Number() }),
+  action: async ({ a, b }: any) => String(a * b),
+};
+
+class StreamingNativeAdapter implements ModelAdapter {
+  name = 'streaming-native';
+  supportsNativeTools = true;
+
+  async complete(): Promise<string> {
+    return 'unused';
+  }
+
+  async executeWithTools(): Promise<ToolExecutionResult> {
+    throw new Error('executeWithTools should not be used when streaming is available');
+  }
+
+  async *streamWithTools(_prompt: string, tools: Tool[]): AsyncGenerator<ToolStreamEvent> {
+    yield { type: 'tool_call_start', name: 'multiply', arguments: { a: 6, b: 7 } };
+    const result = await tools[0].action({ a: 6, b: 7 });
+    yield { type: 'tool_call_end', name: 'multiply', arguments: { a: 6, b: 7 }, result };
+    yield { type: 'text', delta: 'The answer ' };
+    yield { type: 'text', delta: 'is 42.' };
+    yield {
+      type: 'final',
+      content: 'The answer is 42.',
+      toolCalls: [{ name: 'multiply', arguments: { a: 6, b: 7 }, result }],
+    };
+  }
+}
+
+class StreamingPlannedAdapter implements ModelAdapter {
+  name = 'streaming-planned';
+  supportsNativeTools = false;
+
+  async complete(): Promise<string> {
+    return JSON.stringify([
+      { id: 'step1', toolName: 'multiply', params: { a: 2, b: 3 }, dependsOn: [] },
+      { id: 'step2', toolName: 'multiply', params: { a: '{{step1}}', b: 4 }, dependsOn: ['step1'] },
+    ]);
+  }
+
+  async executeWithTools(): Promise<ToolExecutionResult> {
+    throw new Error('not implemented');
+  }
+
+  async *streamComplete(): AsyncGenerator<string> {
+    yield 'Two times three ';
+    yield 'times four is 24.';
+  }
+}
+
+async function collect(stream: AsyncIterable<StreamEvent>): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('Agent.stream', () => {
+  const createAgent = () => {
+    const agent = new Agent(new SlidingWindowMemoryManager(10), new SilentLogger());
+    agent.addTool(multiplyTool);
+    return agent;
+  };
+
+  it('streams native tool calls and text deltas', async () => {
+    const agent = createAgent();
+
+    const events = await collect(agent.stream('What is 6 * 7?', new StreamingNativeAdapter()));
+
+    expect(events.map(e => e.type)).toEqual([
+      'tool_call_start',
+      'tool_call_end',
+      'text',
+      'text',
+      'final',
+    ]);
+    expect(events[events.length - 1]).toEqual({
+      type: 'final',
+      content: 'The answer is 42.',
+      result: expect.objectContaining({
+        content: 'The answer is 42.',
+        success: true,
+        mode: 'native',
+        executionId: expect.any(String),
+        toolCalls: [{ name: 'multiply', arguments: { a: 6, b: 7 }, result: '42' }],
+        retrievedDocuments: [],
+      }),
+    });
+    expect(agent.getMemory().some(m => m.content.includes('The answer is 42.'))).toBe(true);
+  });
+
+  it('streams plan step events before the conversational answer', async () => {
+    const agent = createAgent();
+
+    const events = await collect(agent.stream('2 * 3 * 4?', new StreamingPlannedAdapter()));
+
+    expect(events.map(e => e.type)).toEqual([
+      'step_start',
+      'step_end',
+      'step_start',
+      'step_end',
+      'text',
+      'text',
+      'final',
+    ]);
+    expect(events[3]).toMatchObject({ stepId: 'step2', status: 'completed', result: '24' });
+    expect(events[events.length - 1]).toEqual({
+      type: 'final',
+      content: 'Two times three times four is 24.',
+      result: expect.objectContaining({
+        mode: 'planned',
+        plan: expect.objectContaining({ steps: expect.any(Array) }),
+        steps: [
+          expect.objectContaining({ stepId: 'step1', status: 'completed' }),
+          expect.objectContaining({ stepId: 'step2', status: 'completed' }),
+        ],
+      }),
+    });
+  });
+
+  it('reports the same mode and errors as runDetailed after a fallback', async () => {
+    class FailingNativeAdapter extends StreamingPlannedAdapter {
+      supportsNativeTools = true;
+
+      async executeWithTools(): Promise<ToolExecutionResult> {
+        throw new Error('Native tools unavailable');
+      }
+
+      // eslint-disable-next-line require-yield
+      async *streamWithTools(): AsyncGenerator<ToolStreamEvent> {
+        throw new Error('Native tools unavailable');
+      }
+    }
+
+    const detailed = await createAgent().runDetailed('2 * 3 * 4?', new FailingNativeAdapter());
+    const events = await collect(createAgent().stream('2 * 3 * 4?', new FailingNativeAdapter()));
+    const final = events[events.length - 1];
+
+    expect(final.type).toBe('final');
+    const streamed = final.type === 'final' ? final.result : undefined;
+    expect(detailed).toMatchObject({ mode: 'fallback', errors: ['Native tools unavailable'] });
+    expect(streamed).toMatchObject({
+      success: true,
+      mode: detailed.mode,
+      errors: detailed.errors,
+      steps: detailed.steps.map(({ stepId, status }) =>
+        expect.objectContaining({ stepId, status })
+      ),
+      retrievedDocuments: [],
+    });
+  });
+
+  it('emits an error and a failure final event instead of throwing', async () => {
+    const agent = createAgent();
+    const failingAdapter: ModelAdapter = {
+      name: 'failing',
+      supportsNativeTools: false,
+      complete: async () => {
+        throw new Error('API Error');
+      },
+      executeWithTools: async () => {
+        throw new Error('not implemented');
+      },
+    };
+
+    const events = await collect(agent.stream('Test', failingAdapter));
+
+    expect(events).toEqual([
+      { type: 'error', message: 'API Error' },
+      {
+        type: 'final',
+        content: 'Execution failed: API Error',
+        result: expect.objectContaining({ success: false, cancelled: false, content: '' }),
+      },
+    ]);
+  });
+});
@@ -1,4 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { Message } from '../../../src/shared/types/Message';
 import { Agent } from '../../../src/core/agent/Agent';
 import { SlidingWindowMemoryManager } from '../../../src/core/memory/memory';
 import { MockModelAdapter } from '../../utils/test-helpers';
@@ -109,6 +111,229 @@ describe('Agent', () => {
     });
   });
 
+  describe('runDetailed method', () => {
+    it('should return a structured result for native execution', async () => {
+      const result = await agent.runDetailed('Calculate 15 + 27', mockAdapter);
+
+      expect(result.success).toBe(true);
+      expect(result.mode).toBe('native');
+      expect(result.content).toBe('Mock tool execution result');
+      expect(result.toolCalls).toHaveLength(1);
+      expect(result.executionId).toMatch(/^exec_/);
+      expect(result.errors).toEqual([]);
+      expect(result.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should report the plan and step timings when falling back to planning', async () => {
+      agent.addTool(mockCalculatorTool);
+      const fallbackAdapter = new MockModelAdapter([mockClaudeResponse]);
+      fallbackAdapter.executeWithTools = async () => ({
+        content: '',
+        toolCalls: [],
+        success: false,
+        errors: ['native tools unavailable'],
+      });
+      const plan = JSON.stringify([
+        { id: 'step1', toolName: 'calculator', params: { expression: '15 + 27' }, dependsOn: [] },
+      ]);
+      fallbackAdapter.setResponses([
+        { content: [{ type: 'text', text: plan }] },
+        { content: [{ type: 'text', text: 'The answer is 42.' }] },
+      ]);
+
+      const result = await agent.runDetailed('Calculate 15 + 27', fallbackAdapter);
+
+      expect(result.success).toBe(true);
+      expect(result.mode).toBe('fallback');
+      expect(result.content).toBe('The answer is 42.');
+      expect(result.plan?.steps[0].result).toBe(42);
+      expect(result.steps).toEqual([
+        expect.objectContaining({ stepId: 'step1', toolName: 'calculator', status: 'completed' }),
+      ]);
+      expect(result.errors[0]).toContain('native tools unavailable');
+    });
+
+    it('should report failures instead of returning error text', async () => {
+      const errorAdapter = new MockModelAdapter([{ error: { message: 'API Error' } }]);
+
+      const result = await agent.runDetailed('Test', errorAdapter);
+
+      expect(result.success).toBe(false);
+      expect(result.content).toBe('');
+      expect(result.errors[result.errors.length - 1]).toContain('API Error');
+    });
+  });
+
+  describe('conversation messages', () => {
+    it('should send the system prompt and prior turns as messages', async () => {
+      agent.setPrompt('You are a calculator.');
+      await agent.run('What is 15 + 27?', mockAdapter);
+      await agent.run('And doubled?', mockAdapter);
+
+      const messages = mockAdapter.callHistory[1].prompt as Message[];
+      expect(messages[0]).toEqual({ role: 'system', content: 'You are a calculator.' });
+      expect(messages.slice(-3)).toEqual([
+        { role: 'user', content: 'What is 15 + 27?' },
+        { role: 'assistant', content: 'Mock tool execution result' },
+        { role: 'user', content: 'And doubled?' },
+      ]);
+      expect(agent.getHistory()).toHaveLength(4);
+    });
+  });
+
+  describe('conversation threads', () => {
+    it('should isolate memory and history per thread', async () => {
+      await agent.run('My name is Ada', mockAdapter, { threadId: 'a' });
+      await agent.run('My name is Bob', mockAdapter, { threadId: 'b' });
+      await agent.run('What is my name?', mockAdapter, { threadId: 'a' });
+
+      const messages = mockAdapter.callHistory[2].prompt as Message[];
+      expect(messages.map(message => message.content)).toContain('My name is Ada');
+      expect(messages.map(message => message.content)).not.toContain('My name is Bob');
+      expect(agent.getMemoryCount()).toBe(0);
+      expect(agent.getHistory()).toHaveLength(0);
+    });
+
+    it('should persist threads through the session store', async () => {
+      await agent.run('Hello', mockAdapter, { threadId: 'a' });
+
+      const session = await agent.getSession('a');
+      expect(session?.history).toEqual([
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Mock tool execution result' },
+      ]);
+      expect(session?.memories.length).toBeGreaterThan(0);
+      expect(await agent.getSessionStore().list()).toEqual(['a']);
+
+      await agent.deleteSession('a');
+      expect(await agent.getSession('a')).toBeUndefined();
+    });
+
+    it('should give threads memory with the settings of the agent memory manager', async () => {
+      for (let i = 0; i < 4; i++) {
+        await agent.run(`Message ${i}`, mockAdapter, { threadId: 'a' });
+      }
+      expect((await agent.getSession('a'))?.memories).toHaveLength(10);
+
+      const factory = vi.fn(() => new SlidingWindowMemoryManager(2));
+      agent.setThreadMemoryFactory(factory);
+      await agent.run('Hello', mockAdapter, { threadId: 'b' });
+      expect(factory).toHaveBeenCalledTimes(1);
+      expect((await agent.getSession('b'))?.memories).toHaveLength(2);
+    });
+
+    it('should keep every turn of concurrent runs on the same thread', async () => {
+      await Promise.all([
+        agent.run('First', mockAdapter, { threadId: 'a' }),
+        agent.run('Second', mockAdapter, { threadId: 'a' }),
+      ]);
+
+      const session = await agent.getSession('a');
+      expect(session?.history.filter(message => message.role === 'user')).toEqual([
+        { role: 'user', content: 'First' },
+        { role: 'user', content: 'Second' },
+      ]);
+    });
+  });
+
+  describe('runStructured method', () => {
+    const answerSchema = Type.Object({ total: Type.Number(), unit: Type.String() });
+
+    it('should return validated data after native tool execution', async () => {
+      const completeSpy = vi
+        .spyOn(mockAdapter, 'complete')
+        .mockResolvedValueOnce('```json\n{"total": 42, "unit": "apples"}\n```');
+
+      const data = await agent.runStructured('How many apples?', mockAdapter, answerSchema);
+
+      expect(data).toEqual({ total: 42, unit: 'apples' });
+      expect(completeSpy).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            role: 'user',
+            content: expect.stringContaining('Mock tool execution result'),
+          }),
+        ],
+        expect.objectContaining({ schema: answerSchema })
+      );
+    });
+
+    it('should re-prompt with validation errors until the output conforms', async () => {
+      const completeSpy = vi
+        .spyOn(mockAdapter, 'complete')
+        .mockResolvedValueOnce('{"total": "forty-two"}')
+        .mockResolvedValueOnce('{"total": 42, "unit": "apples"}');
+
+      const data = await agent.runStructured('How many apples?', mockAdapter, answerSchema);
+
+      expect(data.total).toBe(42);
+      expect(completeSpy).toHaveBeenCalledTimes(2);
+      const retryMessages = completeSpy.mock.calls[1][0] as Message[];
+      expect(retryMessages[1]).toEqual({ role: 'assistant', content: '{"total": "forty-two"}' });
+      expect(retryMessages[2].content).toContain("must have required property 'unit'");
+    });
+
+    it('should throw when the output never conforms', async () => {
+      vi.spyOn(mockAdapter, 'complete').mockResolvedValue('not json at all');
+
+      await expect(
+        agent.runStructured('How many apples?', mockAdapter, answerSchema, {
+          maxOutputAttempts: 2,
+        })
+      ).rejects.toThrow('Structured output did not match schema after 2 attempt(s)');
+    });
+  });
+
+  describe('requiredOutputRegex', () => {
+    it('should retry native execution with feedback until the output matches', async () => {
+      const outputs = ['The total is forty-two', 'ANSWER: 42'];
+      const prompts: Message[][] = [];
+      mockAdapter.executeWithTools = async (prompt: Message[]) => {
+        prompts.push(prompt);
+        return { content: outputs[prompts.length - 1], toolCalls: [], success: true };
+      };
+
+      const result = await agent.runDetailed('Calculate 15 + 27', mockAdapter, {
+        requiredOutputRegex: '^ANSWER: \\d+$',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.content).toBe('ANSWER: 42');
+      expect(prompts).toHaveLength(2);
+      const retryTurns = prompts[1].slice(-2);
+      expect(retryTurns[0]).toEqual({ role: 'assistant', content: 'The total is forty-two' });
+      expect(retryTurns[1].content).toContain('/^ANSWER: \\d+$/');
+    });
+
+    it('should regenerate the planned answer and fail after the attempt limit', async () => {
+      agent.addTool(mockCalculatorTool);
+      const plannedAdapter = new MockModelAdapter();
+      plannedAdapter.supportsNativeTools = false;
+      const plan = JSON.stringify([
+        { id: 'step1', toolName: 'calculator', params: { expression: '15 + 27' }, dependsOn: [] },
+      ]);
+      plannedAdapter.setResponses([
+        { content: [{ type: 'text', text: plan }] },
+        { content: [{ type: 'text', text: 'It is 42.' }] },
+        { content: [{ type: 'text', text: 'Still 42.' }] },
+      ]);
+
+      const result = await agent.runDetailed('Calculate 15 + 27', plannedAdapter, {
+        requiredOutputRegex: '^ANSWER:',
+        maxOutputAttempts: 2,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.content).toBe('Still 42.');
+      expect(result.errors[result.errors.length - 1]).toContain('after 2 attempt(s)');
+      expect(plannedAdapter.getCallCount()).toBe(3);
+      expect(plannedAdapter.callHistory[2].prompt).toContainEqual({
+        role: 'assistant',
+        content: 'It is 42.',
+      });
+    });
+  });
+
   describe('tool execution', () => {
     beforeEach(() => {
       agent.addTool(mockCalculatorTool);
@@ -0,0 +1,90 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { InMemoryCheckpointStore } from '../../../src/core/checkpoint/implementations/InMemoryCheckpointStore';
+import { FileCheckpointStore } from '../../../src/core/checkpoint/implementations/FileCheckpointStore';
+import { PlanCheckpoint } from '../../../src/core/checkpoint/types/PlanCheckpoint';
+
+function createCheckpoint(id: string): PlanCheckpoint {
+  return {
+    id,
+    plan: {
+      id,
+      steps: [
+        {
+          id: 'step1',
+          toolName: 'geocode',
+          params: { city: 'Rome' },
+          dependsOn: [],
+          status: 'completed',
+          result: '41.9,12.5',
+          durationMs: 12,
+        },
+        {
+          id: 'step2',
+          toolName: 'weather',
+          params: { coords: '{{step1}}' },
+          dependsOn: ['step1'],
+          status: 'pending',
+        },
+      ],
+      context: { step1: '41.9,12.5' },
+    },
+    completed: false,
+    createdAt: new Date('2025-01-01T10:00:00Z'),
+    updatedAt: new Date('2025-01-01T10:05:00Z'),
+  };
+}
+
+describe('InMemoryCheckpointStore', () => {
+  it('should save, load, list and delete checkpoints', async () => {
+    const store = new InMemoryCheckpointStore();
+    await store.save(createCheckpoint('plan-1'));
+
+    expect(await store.load('plan-1')).toEqual(createCheckpoint('plan-1'));
+    expect(await store.list()).toEqual(['plan-1']);
+
+    await store.delete('plan-1');
+    expect(await store.load('plan-1')).toBeUndefined();
+  });
+
+  it('should not share steps with callers', async () => {
+    const store = new InMemoryCheckpointStore();
+    const checkpoint = createCheckpoint('plan-1');
+    await store.save(checkpoint);
+    checkpoint.plan.steps[1].status = 'completed';
+    checkpoint.plan.context.step2 = 'sunny';
+
+    const loaded = await store.load('plan-1');
+    expect(loaded?.plan.steps[1].status).toBe('pending');
+    expect(loaded?.plan.context).toEqual({ step1: '41.9,12.5' });
+  });
+});
+
+describe('FileCheckpointStore', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  it('should round-trip checkpoints including dates', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'checkpoints-'));
+    const store = new FileCheckpointStore(join(directory, 'nested'));
+
+    expect(await store.load('plan/1')).toBeUndefined();
+    expect(await store.list()).toEqual([]);
+
+    await store.save(createCheckpoint('plan/1'));
+    const loaded = await store.load('plan/1');
+
+    expect(loaded).toEqual(createCheckpoint('plan/1'));
+    expect(loaded?.createdAt).toBeInstanceOf(Date);
+    expect(await store.list()).toEqual(['plan/1']);
+
+    await store.delete('plan/1');
+    expect(await store.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { Planner } from '../../../src/core/execution/Planner';
+import { ExecutionPlan } from '../../../src/core/execution/types/ExecutionPlan';
+import { Tool } from '../../../src/core/tools/types/Tool';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+
+function createTools(refund: Tool['action']): Tool[] {
+  return [
+    {
+      name: 'lookup_order',
+      description: 'Look up an order total',
+      paramsSchema: Type.Object({ orderId: Type.String() }),
+      action: async () => 120 as any,
+    },
+    {
+      name: 'issue_refund',
+      description: 'Refund an order',
+      paramsSchema: Type.Object({ orderId: Type.String(), amount: Type.Number() }),
+      requiresApproval: true,
+      action: refund,
+    },
+  ];
+}
+
+function createPlan(): ExecutionPlan {
+  return {
+    context: {},
+    steps: [
+      {
+        id: 'step1',
+        toolName: 'lookup_order',
+        params: { orderId: 'A1' },
+        dependsOn: [],
+        status: 'pending',
+      },
+      {
+        id: 'step2',
+        toolName: 'issue_refund',
+        params: { orderId: 'A1', amount: '{{step1}}' },
+        dependsOn: ['step1'],
+        status: 'pending',
+      },
+    ],
+  };
+}
+
+describe('Planner tool approval', () => {
+  const planner = new Planner(new SilentLogger());
+
+  it('asks for approval with resolved arguments before running the tool', async () => {
+    const refund = vi.fn().mockResolvedValue('refunded');
+    const onApprovalRequired = vi.fn().mockResolvedValue({ action: 'approve' });
+    const plan = createPlan();
+
+    await planner.executePlan(plan, createTools(refund), { onApprovalRequired });
+
+    expect(onApprovalRequired).toHaveBeenCalledTimes(1);
+    expect(onApprovalRequired).toHaveBeenCalledWith({
+      toolName: 'issue_refund',
+      params: { orderId: 'A1', amount: 120 },
+    });
+    expect(refund).toHaveBeenCalledWith({ orderId: 'A1', amount: 120 }, {});
+    expect(plan.steps[1].status).toBe('completed');
+  });
+
+  it('fails the step with the rejection reason', async () => {
+    const refund = vi.fn();
+    const plan = createPlan();
+
+    const output = await planner.executePlan(plan, createTools(refund), {
+      onApprovalRequired: () => ({ action: 'reject', reason: 'Customer is not eligible' }),
+    });
+
+    expect(refund).not.toHaveBeenCalled();
+    expect(plan.steps[1].status).toBe('failed');
+    expect(output).toContain(
+      "Tool call 'issue_refund' was rejected by the reviewer: Customer is not eligible"
+    );
+  });
+
+  it('validates and runs edited arguments', async () => {
+    const refund = vi.fn().mockResolvedValue('refunded');
+    const plan = createPlan();
+
+    await planner.executePlan(plan, createTools(refund), {
+      onApprovalRequired: ({ params }) => ({ action: 'edit', params: { ...params, amount: 60 } }),
+    });
+    expect(refund).toHaveBeenCalledWith({ orderId: 'A1', amount: 60 }, {});
+
+    const invalidPlan = createPlan();
+    await planner.executePlan(invalidPlan, createTools(refund), {
+      onApprovalRequired: () => ({ action: 'edit', params: { orderId: 'A1' } }),
+    });
+    expect(invalidPlan.steps[1].status).toBe('failed');
+    expect(refund).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects calls that need approval when no handler is configured', async () => {
+    const refund = vi.fn();
+    const plan = createPlan();
+
+    await planner.executePlan(plan, createTools(refund), {
+      approvalPolicy: tool => tool.name === 'lookup_order',
+      stopOnFirstToolError: true,
+    });
+
+    expect(plan.steps[0].status).toBe('failed');
+    expect(plan.steps[0].result).toContain('no approval handler is configured');
+    expect(refund).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { Agent } from '../../../src/core/agent/Agent';
+import { SlidingWindowMemoryManager } from '../../../src/core/memory/memory';
+import { EmbeddingPlanMatcher, PlanCache } from '../../../src/core/execution/PlanCache';
+import { Tool } from '../../../src/core/tools/types/Tool';
+import { Embedder } from '../../../src/core/retrieval/interfaces/Embedder';
+import { PlanStep } from '../../../src/core/execution/types/PlanStep';
+import { AgentLogger } from '../../../src/infrastructure/logging/interfaces/AgentLogger';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+import { Planner } from '../../../src/core/execution/Planner';
+
+function createTools(): Tool[] {
+  return [
+    {
+      name: 'getWeather',
+      description: 'Weather for a city',
+      paramsSchema: Type.Object({ city: Type.String() }),
+      action: async ({ city }: any) => {
+        if (city === 'Atlantis') throw new Error('Unknown city');
+        return `sunny in ${city}`;
+      },
+    },
+  ];
+}
+
+const planFor = (city: string) =>
+  JSON.stringify({
+    steps: [{ id: 'step1', toolName: 'getWeather', params: { city }, dependsOn: [] }],
+  });
+
+/** A planning adapter answering every plan request with a plan for the given city */
+function planningAdapter(city = 'Paris') {
+  return {
+    name: 'planning',
+    supportsNativeTools: false,
+    complete: vi.fn(async () => planFor(city)),
+    executeWithTools: vi.fn(),
+  };
+}
+
+function recordingLogger(): AgentLogger & { messages: string[] } {
+  const messages: string[] = [];
+  const log = (message: string) => {
+    messages.push(message);
+  };
+  return { messages, info: log, warn: log, error: log, debug: log };
+}
+
+function createAgent(cache: PlanCache, logger: AgentLogger = recordingLogger()): Agent {
+  const agent = new Agent(new SlidingWindowMemoryManager(), logger);
+  createTools().forEach(tool => agent.addTool(tool));
+  agent.setPlanCache(cache);
+  return agent;
+}
+
+const steps = (city: string): PlanStep[] => [
+  { id: 'step1', toolName: 'getWeather', params: { city }, dependsOn: [], status: 'completed' },
+];
+
+describe('Plan cache', () => {
+  it('reuses the plan of a repeated request without asking the model to plan', async () => {
+    const logger = recordingLogger();
+    const agent = createAgent(new PlanCache(), logger);
+    const model = planningAdapter();
+
+    const first = await agent.run('Weather in Paris?', model, { responseMode: 'raw' });
+    const second = await agent.runDetailed('weather in   PARIS', model, { responseMode: 'raw' });
+
+    expect(first).toBe('step1: sunny in Paris');
+    expect(second.content).toBe('step1: sunny in Paris');
+    expect(second.plan?.steps[0]).toMatchObject({ status: 'completed', result: 'sunny in Paris' });
+    expect(model.complete).toHaveBeenCalledTimes(1);
+    expect(logger.messages.filter(m => m.startsWith('Plan cache'))).toEqual([
+      'Plan cache miss',
+      'Plan cached',
+      'Plan cache hit',
+    ]);
+
+    // Opting out plans again
+    await agent.run('Weather in Paris', model, { responseMode: 'raw', usePlanCache: false });
+    expect(model.complete).toHaveBeenCalledTimes(2);
+  });
+
+  it('only caches plans whose steps all succeeded', async () => {
+    const cache = new PlanCache();
+    const agent = createAgent(cache);
+    const model = planningAdapter('Atlantis');
+
+    await agent.run('Weather in Atlantis', model, { responseMode: 'raw' });
+    await agent.run('Weather in Atlantis', model, { responseMode: 'raw' });
+
+    expect(cache.size).toBe(0);
+    expect(model.complete).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops a cached plan that fails validation or a step', async () => {
+    const cache = new PlanCache();
+    const agent = new Agent(new SlidingWindowMemoryManager(), new SilentLogger());
+    agent.setPlanCache(cache);
+    let outage = false;
+    agent.addTool({
+      name: 'getWeather',
+      description: 'Weather for a city',
+      paramsSchema: Type.Object({ city: Type.String() }),
+      action: async ({ city }: any) => {
+        if (outage) throw new Error('Weather service down');
+        return `sunny in ${city}`;
+      },
+    });
+    const model = planningAdapter();
+
+    await agent.run('Weather in Paris', model, { responseMode: 'raw' });
+    expect(cache.size).toBe(1);
+
+    outage = true;
+    await agent.run('Weather in Paris', model, { responseMode: 'raw' });
+    expect(cache.size).toBe(0);
+
+    outage = false;
+    await agent.run('Weather in Paris', model, { responseMode: 'raw' });
+    expect(model.complete).toHaveBeenCalledTimes(2);
+    expect(cache.size).toBe(1);
+
+    // A cached plan the current tools reject is dropped as well
+    const tools = createTools();
+    const planner = new Planner(new SilentLogger());
+    planner.setPlanCache(cache);
+    await cache.store('Weather in Rome', cache.fingerprint(tools, 'Be brief.'), [
+      { id: 'step1', toolName: 'getForecast', params: {}, dependsOn: [], status: 'pending' },
+    ]);
+    await expect(
+      planner.executeWithPlan('Weather in Rome', tools, '', 'Be brief.', planningAdapter())
+    ).rejects.toThrow();
+    expect(await cache.lookup('Weather in Rome', cache.fingerprint(tools, 'Be brief.'))).toBe(
+      undefined
+    );
+  });
+
+  it('expires entries and drops the entries of a fingerprint', async () => {
+    const cache = new PlanCache({ ttlMs: 1000 });
+    const tools = createTools();
+    const fingerprint = cache.fingerprint(tools);
+    await cache.store('Weather in Paris', fingerprint, steps('Paris'), 0);
+
+    const hit = await cache.lookup('weather in paris!', fingerprint, 500);
+    expect(hit).toMatchObject({ request: 'weather in paris', similarity: 1, ageMs: 500 });
+    expect(hit?.steps).toEqual([
+      {
+        id: 'step1',
+        toolName: 'getWeather',
+        params: { city: 'Paris' },
+        dependsOn: [],
+        status: 'pending',
+      },
+    ]);
+    expect(await cache.lookup('Weather in Paris', fingerprint, 1500)).toBeUndefined();
+
+    await cache.store('Weather in Paris', fingerprint, steps('Paris'));
+    const changed = cache.fingerprint([{ ...tools[0], description: 'Forecast for a city' }]);
+    expect(changed).not.toBe(fingerprint);
+    expect(cache.invalidate(changed)).toBe(0);
+    expect(cache.invalidate(fingerprint)).toBe(1);
+    expect(cache.size).toBe(0);
+  });
+
+  it('keeps the plans of agents sharing a cache and drops them when their tools change', async () => {
+    const cache = new PlanCache();
+    const logger = recordingLogger();
+    const weather = createAgent(cache, logger);
+    const support = createAgent(cache);
+    support.setPrompt('You are a support agent');
+    const model = planningAdapter();
+
+    await weather.run('Weather in Paris', model, { responseMode: 'raw' });
+    await support.run('Weather in Paris', model, { responseMode: 'raw' });
+    await weather.run('Weather in Paris', model, { responseMode: 'raw' });
+    await support.run('Weather in Paris', model, { responseMode: 'raw' });
+
+    expect(cache.size).toBe(2);
+    expect(model.complete).toHaveBeenCalledTimes(2);
+
+    weather.addTool({ ...createTools()[0], name: 'getForecast' });
+    await weather.run('Weather in Paris', model, { responseMode: 'raw' });
+
+    expect(logger.messages).toContain('Plan cache invalidated after a tool change');
+    expect(model.complete).toHaveBeenCalledTimes(3);
+    // The support agent's plan is still cached, next to the weather agent's new one
+    expect(cache.size).toBe(2);
+    await support.run('Weather in Paris', model, { responseMode: 'raw' });
+    expect(model.complete).toHaveBeenCalledTimes(3);
+  });
+
+  it('matches similar requests by embedding above the minimum score', async () => {
+    const vectors: Record<string, number[]> = {
+      'weather in paris': [1, 0, 0],
+      "what's the weather like in paris": [0.98, 0.2, 0],
+      'weather in rome': [0.8, 0.6, 0],
+    };
+    const embedder: Embedder = {
+      name: 'fake',
+      dimension: 3,
+      embed: vi.fn(async (text: string) => vectors[text]),
+      embedBatch: async texts => texts.map(text => vectors[text]),
+    };
+    const cache = new PlanCache({ matcher: new EmbeddingPlanMatcher(embedder, 0.95) });
+    const fingerprint = cache.fingerprint(createTools());
+    await cache.store('Weather in Paris', fingerprint, steps('Paris'));
+
+    const similar = await cache.lookup("What's the weather like in Paris?", fingerprint);
+    expect(similar?.request).toBe('weather in paris');
+    expect(similar?.similarity).toBeCloseTo(0.98, 2);
+    expect(await cache.lookup('Weather in Rome', fingerprint)).toBeUndefined();
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Type } from '@sinclair/typebox';
+import { Planner } from '../../../src/core/execution/Planner';
+import { ExecutionPlan } from '../../../src/core/execution/types/ExecutionPlan';
+import { InMemoryCheckpointStore } from '../../../src/core/checkpoint/implementations/InMemoryCheckpointStore';
+import { FileCheckpointStore } from '../../../src/core/checkpoint/implementations/FileCheckpointStore';
+import { CheckpointStore } from '../../../src/core/checkpoint/interfaces/CheckpointStore';
+import { Tool } from '../../../src/core/tools/types/Tool';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+
+function createTools(options: { weatherFails?: boolean; crash?: AbortController } = {}) {
+  const calls: string[] = [];
+  const tools: Tool[] = [
+    {
+      name: 'geocode',
+      description: 'Find coordinates for a city',
+      paramsSchema: Type.Object({ city: Type.String() }),
+      action: async ({ city }: any) => {
+        calls.push(`geocode:${city}`);
+        return { city, lat: 41.9 };
+      },
+    },
+    {
+      name: 'weather',
+      description: 'Weather at a latitude',
+      paramsSchema: Type.Object({ lat: Type.Number() }),
+      action: async ({ lat }: any) => {
+        calls.push(`weather:${lat}`);
+        if (options.weatherFails) throw new Error('Service unavailable');
+        if (options.crash) {
+          // Simulate the process dying while the call is in flight
+          options.crash.abort();
+          return new Promise(() => undefined);
+        }
+        return `sunny at ${lat}`;
+      },
+    },
+  ];
+  return { tools, calls };
+}
+
+function createPlan(): ExecutionPlan {
+  return {
+    id: 'plan-1',
+    context: {},
+    steps: [
+      {
+        id: 'step1',
+        toolName: 'geocode',
+        params: { city: 'Rome' },
+        dependsOn: [],
+        status: 'pending',
+      },
+      {
+        id: 'step2',
+        toolName: 'weather',
+        params: { lat: '{{step1.lat}}' },
+        dependsOn: ['step1'],
+        status: 'pending',
+      },
+    ],
+  };
+}
+
+function createPlanner(store: CheckpointStore): Planner {
+  const planner = new Planner(new SilentLogger());
+  planner.setCheckpointStore(store);
+  return planner;
+}
+
+describe('Plan checkpointing', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  it('saves the plan after every step', async () => {
+    const store = new InMemoryCheckpointStore();
+    const saves: string[][] = [];
+    const save = store.save.bind(store);
+    store.save = async checkpoint => {
+      saves.push(checkpoint.plan.steps.map(step => step.status));
+      await save(checkpoint);
+    };
+
+    await createPlanner(store).executePlan(createPlan(), createTools().tools);
+
+    expect(saves).toEqual([
+      ['pending', 'pending'],
+      ['completed', 'pending'],
+      ['completed', 'completed'],
+      ['completed', 'completed'],
+    ]);
+    const checkpoint = await store.load('plan-1');
+    expect(checkpoint?.completed).toBe(true);
+    expect(checkpoint?.plan.context).toEqual({
+      step1: { city: 'Rome', lat: 41.9 },
+      step2: 'sunny at 41.9',
+    });
+  });
+
+  it('resumes an interrupted plan without re-running completed steps', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'plan-checkpoints-'));
+    const controller = new AbortController();
+    const first = createTools({ crash: controller });
+    const running = createPlanner(new FileCheckpointStore(directory)).executePlan(
+      createPlan(),
+      first.tools,
+      { signal: controller.signal }
+    );
+    await expect(running).rejects.toThrow();
+    expect(first.calls).toEqual(['geocode:Rome', 'weather:41.9']);
+
+    // A new process with a fresh planner picks the plan up from disk
+    const second = createTools();
+    const { plan, output } = await createPlanner(new FileCheckpointStore(directory)).resume(
+      'plan-1',
+      second.tools
+    );
+
+    expect(second.calls).toEqual(['weather:41.9']);
+    expect(plan.steps.map(step => step.status)).toEqual(['completed', 'completed']);
+    expect(output).toContain('step1: {');
+    expect(output).toContain('step2: sunny at 41.9');
+    expect((await new FileCheckpointStore(directory).load('plan-1'))?.completed).toBe(true);
+  });
+
+  it('retries failed steps on resume', async () => {
+    const store = new InMemoryCheckpointStore();
+    const plan = createPlan();
+    await createPlanner(store).executePlan(plan, createTools({ weatherFails: true }).tools);
+    expect(plan.steps[1].status).toBe('failed');
+
+    const retry = createTools();
+    const resumed = await createPlanner(store).resume('plan-1', retry.tools);
+
+    expect(retry.calls).toEqual(['weather:41.9']);
+    expect(resumed.plan.steps[1]).toMatchObject({ status: 'completed', result: 'sunny at 41.9' });
+  });
+
+  it('assigns an id to plans without one', async () => {
+    const store = new InMemoryCheckpointStore();
+    const plan = { ...createPlan(), id: undefined };
+
+    await createPlanner(store).executePlan(plan, createTools().tools);
+
+    expect(plan.id).toMatch(/^plan_/);
+    expect(await store.list()).toEqual([plan.id]);
+  });
+
+  it('rejects unknown plans and planners without a store', async () => {
+    await expect(
+      createPlanner(new InMemoryCheckpointStore()).resume('missing', createTools().tools)
+    ).rejects.toThrow("No checkpoint found for plan 'missing'");
+    await expect(new Planner(new SilentLogger()).resume('plan-1', [])).rejects.toThrow(
+      'Cannot resume a plan without a checkpoint store'
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { Planner } from '../../../src/core/execution/Planner';
+import { ExecutionPlan } from '../../../src/core/execution/types/ExecutionPlan';
+import { Tool } from '../../../src/core/tools/types/Tool';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+
+/**
+ * Tool that sleeps for `ms` and tracks how many calls overlap
+ */
+function createFetchTool() {
+  const stats = { active: 0, maxActive: 0, started: [] as string[] };
+  const tool: Tool = {
+    name: 'fetch',
+    description: 'Fetch a resource',
+    paramsSchema: Type.Object({ id: Type.String(), ms: Type.Number(), fail: Type.Boolean() }),
+    action: async ({ id, ms, fail }: any) => {
+      stats.started.push(id);
+      stats.active += 1;
+      stats.maxActive = Math.max(stats.maxActive, stats.active);
+      await new Promise(resolve => setTimeout(resolve, ms));
+      stats.active -= 1;
+      if (fail) throw new Error(`${id} failed`);
+      return `data ${id}`;
+    },
+  };
+  return { tool, stats };
+}
+
+function createPlan(
+  steps: Array<{ id: string; ms?: number; fail?: boolean; dependsOn?: string[] }>
+): ExecutionPlan {
+  return {
+    context: {},
+    steps: steps.map(({ id, ms = 10, fail = false, dependsOn = [] }) => ({
+      id,
+      toolName: 'fetch',
+      params: { id, ms, fail },
+      dependsOn,
+      status: 'pending' as const,
+    })),
+  };
+}
+
+const sixIndependentSteps = ['s1', 's2', 's3', 's4', 's5', 's6'].map(id => ({ id }));
+
+describe('Planner concurrent execution', () => {
+  const planner = new Planner(new SilentLogger());
+
+  it('runs steps one at a time by default', async () => {
+    const { tool, stats } = createFetchTool();
+
+    await planner.executePlan(createPlan(sixIndependentSteps), [tool]);
+
+    expect(stats.maxActive).toBe(1);
+  });
+
+  it('runs a ready wave concurrently up to maxConcurrency, reporting in plan order', async () => {
+    const { tool, stats } = createFetchTool();
+    const plan = createPlan([
+      { id: 's1', ms: 30 },
+      { id: 's2', ms: 5 },
+      { id: 's3', ms: 15 },
+      { id: 's4' },
+      { id: 's5' },
+      { id: 's6', dependsOn: ['s1', 's2'] },
+    ]);
+
+    const output = await planner.executePlan(plan, [tool], { maxConcurrency: 3 });
+
+    expect(stats.maxActive).toBe(3);
+    expect(plan.steps.every(step => step.status === 'completed')).toBe(true);
+    expect(output.split('\n').map(line => line.split(':')[0])).toEqual([
+      's1',
+      's2',
+      's3',
+      's4',
+      's5',
+      's6',
+    ]);
+  });
+
+  it('counts the calls of map step items towards maxConcurrency', async () => {
+    const { tool, stats } = createFetchTool();
+    const listIds: Tool = {
+      name: 'listIds',
+      description: 'List resource ids',
+      paramsSchema: Type.Object({}),
+      action: async () => JSON.stringify(['m1', 'm2', 'm3', 'm4']),
+    };
+    const plan = createPlan([
+      { id: 's2', ms: 20 },
+      { id: 's3', ms: 20 },
+    ]);
+    plan.steps.unshift(
+      { id: 'ids', toolName: 'listIds', params: {}, dependsOn: [], status: 'pending' },
+      {
+        id: 'each',
+        toolName: 'fetch',
+        params: { id: '{{item}}', ms: 20, fail: false },
+        forEach: 'ids',
+        dependsOn: ['ids'],
+        status: 'pending',
+      }
+    );
+    plan.steps[2].dependsOn = ['ids'];
+    plan.steps[3].dependsOn = ['ids'];
+
+    await planner.executePlan(plan, [listIds, tool], { maxConcurrency: 2 });
+
+    expect(plan.steps.every(step => step.status === 'completed')).toBe(true);
+    expect(stats.started).toHaveLength(6);
+    expect(stats.maxActive).toBe(2);
+  });
+
+  it('never starts more than maxSteps steps', async () => {
+    const { tool, stats } = createFetchTool();
+    const plan = createPlan(sixIndependentSteps);
+
+    const output = await planner.executePlan(plan, [tool], { maxConcurrency: 4, maxSteps: 2 });
+
+    expect(stats.started).toEqual(['s1', 's2']);
+    expect(output).toMatch(/Max steps reached, stopping\.$/);
+  });
+
+  it('lets in-flight steps finish but starts no more after the first tool error', async () => {
+    const { tool, stats } = createFetchTool();
+    const plan = createPlan([
+      { id: 's1', ms: 5, fail: true },
+      { id: 's2', ms: 20 },
+      { id: 's3' },
+      { id: 's4' },
+    ]);
+
+    await planner.executePlan(plan, [tool], { maxConcurrency: 2, stopOnFirstToolError: true });
+
+    expect(stats.started).toEqual(['s1', 's2']);
+    expect(plan.steps.map(step => step.status)).toEqual([
+      'failed',
+      'completed',
+      'pending',
+      'pending',
+    ]);
+  });
+
+  it('stops starting steps once maxDurationMs is exceeded', async () => {
+    const { tool, stats } = createFetchTool();
+    const plan = createPlan(sixIndependentSteps.map(step => ({ ...step, ms: 20 })));
+
+    const output = await planner.executePlan(plan, [tool], {
+      maxConcurrency: 2,
+      maxDurationMs: 10,
+    });
+
+    expect(stats.started).toHaveLength(2);
+    expect(output).toMatch(/Max duration reached, stopping\.$/);
+  });
+});
@@ -0,0 +1,289 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { Planner } from '../../../src/core/execution/Planner';
+import { PlanValidator } from '../../../src/core/execution/PlanValidator';
+import { ConditionEvaluator } from '../../../src/core/execution/ConditionEvaluator';
+import { ExecutionPlan } from '../../../src/core/execution/types/ExecutionPlan';
+import { PlanStep } from '../../../src/core/execution/types/PlanStep';
+import { Tool } from '../../../src/core/tools/types/Tool';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+
+function createTools() {
+  const weatherCalls: string[] = [];
+  const tools: Tool[] = [
+    {
+      name: 'listCities',
+      description: 'List cities to check',
+      paramsSchema: Type.Object({}),
+      action: async () => JSON.stringify({ cities: ['Rome', 'Oslo', 'Lima'], count: 3 }),
+    },
+    {
+      name: 'weather',
+      description: 'Weather for a city',
+      paramsSchema: Type.Object({ city: Type.String(), position: Type.Number() }),
+      action: async ({ city, position }: any) => {
+        weatherCalls.push(city);
+        if (city === 'Atlantis') throw new Error('Unknown city');
+        return { city, position, sunny: city !== 'Oslo' };
+      },
+    },
+    {
+      name: 'notify',
+      description: 'Send a notification',
+      paramsSchema: Type.Object({ text: Type.String() }),
+      action: async ({ text }: any) => `sent: ${text}`,
+    },
+  ];
+  return { tools, weatherCalls };
+}
+
+function step(id: string, toolName: string, extra: Partial<PlanStep> = {}): PlanStep {
+  return { id, toolName, params: {}, dependsOn: [], status: 'pending', ...extra };
+}
+
+describe('ConditionEvaluator', () => {
+  const evaluator = new ConditionEvaluator();
+  const results = {
+    step1: JSON.stringify({ temperature: '28', unit: 'C', items: [{ name: 'a' }, { name: 'b' }] }),
+    step2: 'open',
+  };
+
+  it('evaluates comparisons, paths and boolean operators', () => {
+    expect(evaluator.evaluate('step1.temperature > 25', results)).toBe(true);
+    expect(evaluator.evaluate('step1.unit == \'F\' || step2 == "open"', results)).toBe(true);
+    expect(
+      evaluator.evaluate('step1.items.length >= 2 && !(step1.items[1].name == "b")', results)
+    ).toBe(false);
+    expect(evaluator.evaluate('{{step1.items[0].name}}', results)).toBe('a');
+    expect(evaluator.evaluate('step3.anything', results)).toBeUndefined();
+  });
+
+  it('reads the length of JSON array results as their item count', () => {
+    const listed = { step1: JSON.stringify(['a', 'b', 'c']), step2: 'open' };
+
+    expect(evaluator.evaluate('step1.length', listed)).toBe(3);
+    expect(evaluator.evaluate('step1.length > 0', { step1: '[]' })).toBe(false);
+    expect(evaluator.evaluate('step2.length', listed)).toBe(4);
+  });
+
+  it('does not expose prototype properties', () => {
+    expect(evaluator.evaluate('step1.constructor', { step1: {} })).toBeUndefined();
+  });
+
+  it('reports syntax errors and referenced steps', () => {
+    expect(() => evaluator.parse('step1.count >')).toThrow(
+      /Invalid expression .*end of expression/
+    );
+    expect(() => evaluator.parse('step1 = 2')).toThrow(/unexpected character '='/);
+    expect(evaluator.references('step1.a > 1 && (step2 || step1.b)')).toEqual(['step1', 'step2']);
+  });
+});
+
+describe('Planner conditional and map steps', () => {
+  it('skips a step whose condition is false while its dependents still run', async () => {
+    const { tools } = createTools();
+    const plan: ExecutionPlan = {
+      context: {},
+      steps: [
+        step('step1', 'listCities'),
+        step('step2', 'notify', {
+          params: { text: 'too many' },
+          condition: 'step1.count > 5',
+          dependsOn: ['step1'],
+        }),
+        step('step3', 'notify', { params: { text: 'done' }, dependsOn: ['step2'] }),
+      ],
+    };
+    const onStepEnd = vi.fn();
+
+    const output = await new Planner(new SilentLogger()).executePlan(
+      plan,
+      tools,
+      {},
+      { onStepEnd }
+    );
+
+    expect(plan.steps.map(s => s.status)).toEqual(['completed', 'skipped', 'completed']);
+    expect(output).toContain('step2: skipped (condition not met: step1.count > 5)');
+    expect(output).toContain('step3: sent: done');
+    expect(onStepEnd).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'step2' }),
+      expect.any(Number)
+    );
+  });
+
+  it('runs a map step once per element and collects the results in order', async () => {
+    const { tools, weatherCalls } = createTools();
+    const plan: ExecutionPlan = {
+      context: {},
+      steps: [
+        step('step1', 'listCities'),
+        step('step2', 'weather', {
+          params: { city: '{{item}}', position: '{{index}}' },
+          forEach: 'step1.cities',
+          dependsOn: ['step1'],
+        }),
+      ],
+    };
+
+    await new Planner(new SilentLogger()).executePlan(plan, tools, { maxConcurrency: 2 });
+
+    expect(weatherCalls.sort()).toEqual(['Lima', 'Oslo', 'Rome']);
+    expect(plan.steps[1].status).toBe('completed');
+    expect(plan.context.step2).toEqual([
+      { city: 'Rome', position: 0, sunny: true },
+      { city: 'Oslo', position: 1, sunny: false },
+      { city: 'Lima', position: 2, sunny: true },
+    ]);
+  });
+
+  it('fails a map step when an item fails or the reference is not an array', async () => {
+    const { tools } = createTools();
+    const plan: ExecutionPlan = {
+      context: {},
+      steps: [
+        step('step1', 'listCities'),
+        step('step2', 'weather', {
+          params: { city: '{{item}}', position: '{{index}}' },
+          forEach: 'step1.count',
+          dependsOn: ['step1'],
+        }),
+      ],
+    };
+
+    await new Planner(new SilentLogger()).executePlan(plan, tools);
+    expect(plan.steps[1].status).toBe('failed');
+    expect(plan.steps[1].result).toBe("Error: forEach 'step1.count' did not resolve to an array");
+
+    plan.context = { step0: ['Rome', 'Atlantis'] };
+    plan.steps = [
+      { ...step('step0', 'listCities'), status: 'completed' },
+      step('step3', 'weather', {
+        params: { city: '{{item}}', position: '{{index}}' },
+        forEach: 'step0',
+        dependsOn: ['step0'],
+      }),
+    ];
+    await new Planner(new SilentLogger()).executePlan(plan, tools);
+    expect(plan.steps[1].result).toBe('Error: Item 1: Unknown city');
+  });
+
+  it('calls the tool for no further items once an item fails', async () => {
+    const { tools, weatherCalls } = createTools();
+    const cities = ['Atlantis', 'Rome', 'Oslo', 'Lima', 'Paris', 'Quito', 'Doha', 'Baku', 'Riga'];
+    const plan: ExecutionPlan = {
+      context: { step0: cities },
+      steps: [
+        { ...step('step0', 'listCities'), status: 'completed' },
+        step('step1', 'weather', {
+          params: { city: '{{item}}', position: '{{index}}' },
+          forEach: 'step0',
+          dependsOn: ['step0'],
+        }),
+      ],
+    };
+
+    await new Planner(new SilentLogger()).executePlan(plan, tools, { maxConcurrency: 2 });
+    const callsWhenFailed = weatherCalls.length;
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(plan.steps[1].result).toBe('Error: Item 0: Unknown city');
+    expect(callsWhenFailed).toBe(2);
+    expect(weatherCalls).toHaveLength(callsWhenFailed);
+  });
+
+  it('parses condition and forEach from the model plan', async () => {
+    const adapter = {
+      name: 'planned',
+      supportsNativeTools: false,
+      complete: vi.fn(async () =>
+        JSON.stringify([
+          { id: 'step1', toolName: 'listCities', params: {}, dependsOn: [] },
+          {
+            id: 'step2',
+            toolName: 'weather',
+            params: { city: '{{item}}', position: '{{index}}' },
+            forEach: 'step1.cities',
+            condition: 'step1.count > 0',
+            dependsOn: ['step1'],
+          },
+        ])
+      ),
+      executeWithTools: vi.fn(),
+    };
+    const { tools } = createTools();
+
+    const plan = await new Planner(new SilentLogger()).createPlan(
+      'weather',
+      tools,
+      '',
+      '',
+      adapter
+    );
+
+    expect(plan.steps[1]).toMatchObject({ forEach: 'step1.cities', condition: 'step1.count > 0' });
+    expect(plan.steps[0]).not.toHaveProperty('condition');
+    const [messages] = adapter.complete.mock.calls[0] as unknown as [Array<{ content: string }>];
+    expect(messages[0].content).toContain('"forEach": a reference to an array');
+    expect(messages[0].content).toContain('"condition": an expression');
+  });
+});
+
+describe('PlanValidator conditional and map steps', () => {
+  const { tools } = createTools();
+  const validator = new PlanValidator(new SilentLogger());
+  const validate =
+    (...steps: PlanStep[]) =>
+    () =>
+      validator.validateStructure({ steps, context: {} }, tools);
+
+  it('accepts valid constructs', () => {
+    expect(
+      validate(
+        step('step1', 'listCities'),
+        step('step2', 'weather', {
+          params: { city: '{{item}}' },
+          forEach: 'step1.cities',
+          condition: 'step1.count > 0',
+          dependsOn: ['step1'],
+        })
+      )
+    ).not.toThrow();
+  });
+
+  it('rejects invalid or undeclared expressions', () => {
+    expect(
+      validate(
+        step('step1', 'listCities'),
+        step('step2', 'notify', { condition: 'step1 >', dependsOn: ['step1'] })
+      )
+    ).toThrow("Step 'step2' has an invalid condition");
+    expect(
+      validate(
+        step('step1', 'listCities'),
+        step('step2', 'notify', { condition: 'step1.count > 1' })
+      )
+    ).toThrow("Step 'step2' condition references 'step1', which must be listed in dependsOn");
+    expect(
+      validate(
+        step('step1', 'listCities'),
+        step('step2', 'weather', { forEach: 'step1.count > 1', dependsOn: ['step1'] })
+      )
+    ).toThrow('forEach must be a reference to an array');
+    expect(validate(step('step1', 'notify', { params: { text: '{{item}}' } }))).toThrow(
+      "Step 'step1' uses {{item}} but has no forEach"
+    );
+    expect(validate(step('step1', 'notify', { params: { text: 'No. {{ index }}' } }))).toThrow(
+      "Step 'step1' uses {{index}} but has no forEach"
+    );
+  });
+
+  it('treats {{item}} outside a map step as a reference to a step named item', () => {
+    expect(
+      validate(
+        step('item', 'listCities'),
+        step('step2', 'notify', { params: { text: '{{item.count}}' } })
+      )
+    ).not.toThrow();
+  });
+});
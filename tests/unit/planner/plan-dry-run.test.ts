@@ -0,0 +1,205 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { Planner } from '../../../src/core/execution/Planner';
+import { ExecutionPlan } from '../../../src/core/execution/types/ExecutionPlan';
+import { Agent } from '../../../src/core/agent/Agent';
+import { SlidingWindowMemoryManager } from '../../../src/core/memory/memory';
+import { Tool } from '../../../src/core/tools/types/Tool';
+import { ModelAdapter, ToolExecutionResult } from '../../../src/infrastructure/adapters/base/base';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+
+function createTools() {
+  const geocode = vi.fn(async () => ({ lat: 41.9 }));
+  const weather = vi.fn(async () => 'sunny');
+  const refund = vi.fn(async () => 'refunded');
+  const tools: Tool[] = [
+    {
+      name: 'geocode',
+      description: 'Find coordinates for a city',
+      paramsSchema: Type.Object({ city: Type.String() }),
+      action: geocode,
+    },
+    {
+      name: 'weather',
+      description: 'Weather at a location',
+      paramsSchema: Type.Object({
+        lat: Type.Number(),
+        units: Type.Union([Type.Literal('C'), Type.Literal('F')]),
+      }),
+      action: weather,
+    },
+    {
+      name: 'refund',
+      description: 'Refund an order',
+      paramsSchema: Type.Object({ orderId: Type.String(), amount: Type.Number() }),
+      requiresApproval: true,
+      action: refund,
+    },
+  ];
+  return { tools, actions: [geocode, weather, refund] };
+}
+
+function createPlan(): ExecutionPlan {
+  return {
+    id: 'plan-1',
+    context: {},
+    steps: [
+      {
+        id: 'step1',
+        toolName: 'geocode',
+        params: { city: 'Rome' },
+        dependsOn: [],
+        status: 'pending',
+      },
+      {
+        id: 'step2',
+        toolName: 'weather',
+        params: { lat: '{{step1.lat}}', units: 'K' },
+        dependsOn: ['step1'],
+        status: 'pending',
+      },
+      {
+        id: 'step3',
+        toolName: 'refund',
+        params: { orderId: 'A-1', amount: '12.5' },
+        dependsOn: [],
+        condition: 'step1.lat > 40',
+        status: 'pending',
+      },
+    ],
+  };
+}
+
+describe('Planner.preview', () => {
+  it('validates known params and explains the plan without calling tools', () => {
+    const { tools, actions } = createTools();
+
+    const preview = new Planner(new SilentLogger()).preview(createPlan(), tools);
+
+    actions.forEach(action => expect(action).not.toHaveBeenCalled());
+    expect(preview.steps[0]).toEqual({
+      stepId: 'step1',
+      toolName: 'geocode',
+      params: { city: 'Rome' },
+      references: [],
+      requiresApproval: false,
+      errors: [],
+    });
+    // The reference stays a template, the literal is still checked against the schema
+    expect(preview.steps[1].params).toEqual({ lat: '{{step1.lat}}', units: 'K' });
+    expect(preview.steps[1].references).toEqual(['step1']);
+    expect(preview.steps[1].errors).toEqual([
+      'Invalid params: /units must be equal to constant',
+      'Invalid params: /units must be equal to constant',
+      'Invalid params: /units must match a schema in anyOf',
+    ]);
+    // String literals are not coerced at run time either, so the amount would be rejected
+    expect(preview.steps[2].params).toEqual({ orderId: 'A-1', amount: '12.5' });
+    expect(preview.steps[2].errors).toEqual(['Invalid params: /amount must be number']);
+    expect(preview.steps[2].requiresApproval).toBe(true);
+    // The condition reads step1 without depending on it
+    expect(preview.errors).toEqual([
+      "Plan validation failed: Step 'step3' condition references 'step1', which must be listed in dependsOn",
+    ]);
+    expect(preview.valid).toBe(false);
+
+    expect(preview.explanation).toBe(
+      [
+        'Dry run: 3 planned step(s), no tools were called.',
+        '1. step1: geocode {"city":"Rome"}',
+        '2. step2: weather {"lat":"{{step1.lat}}","units":"K"}',
+        '   after: step1',
+        '   uses results of: step1',
+        '   problem: Invalid params: /units must be equal to constant',
+        '   problem: Invalid params: /units must be equal to constant',
+        '   problem: Invalid params: /units must match a schema in anyOf',
+        '3. step3: refund {"orderId":"A-1","amount":"12.5"}',
+        '   only if: step1.lat > 40',
+        '   requires approval',
+        '   problem: Invalid params: /amount must be number',
+        "Plan problem: Plan validation failed: Step 'step3' condition references 'step1', which must be listed in dependsOn",
+        '5 problem(s) found.',
+      ].join('\n')
+    );
+  });
+
+  it('reports unknown tools, unknown references and missing required params', () => {
+    const { tools } = createTools();
+    const plan: ExecutionPlan = {
+      context: {},
+      steps: [
+        { id: 'step1', toolName: 'teleport', params: {}, dependsOn: [], status: 'pending' },
+        {
+          id: 'step2',
+          toolName: 'weather',
+          params: { lat: '{{step9.lat}}' },
+          dependsOn: [],
+          status: 'pending',
+        },
+      ],
+    };
+
+    const preview = new Planner(new SilentLogger()).preview(plan, tools);
+
+    expect(preview.steps[0].errors).toEqual(["Tool 'teleport' not found"]);
+    expect(preview.steps[1].errors).toEqual([
+      "Params reference unknown step 'step9'",
+      "Invalid params: / must have required property 'units'",
+    ]);
+  });
+
+  it('resolves references whose results are already known', () => {
+    const { tools } = createTools();
+    const plan = createPlan();
+    plan.steps[0].status = 'completed';
+    plan.context.step1 = { lat: 41.9 };
+
+    const preview = new Planner(new SilentLogger()).preview(plan, tools);
+
+    expect(preview.steps[1].params).toEqual({ lat: 41.9, units: 'K' });
+    expect(preview.steps[1].references).toEqual([]);
+    expect(preview.explanation).toContain('1. step1: geocode {"city":"Rome"} (already completed)');
+  });
+
+  it('returns the explanation from executePlan with dryRun', async () => {
+    const { tools, actions } = createTools();
+    const plan = createPlan();
+
+    const output = await new Planner(new SilentLogger()).executePlan(plan, tools, { dryRun: true });
+
+    actions.forEach(action => expect(action).not.toHaveBeenCalled());
+    expect(output).toMatch(/^Dry run: 3 planned step\(s\)/);
+    expect(plan.steps.every(step => step.status === 'pending')).toBe(true);
+  });
+});
+
+describe('Agent dry run', () => {
+  it('plans instead of calling tools natively and does not record the turn', async () => {
+    const { tools, actions } = createTools();
+    const adapter: ModelAdapter & { executeWithTools: ReturnType<typeof vi.fn> } = {
+      name: 'native',
+      supportsNativeTools: true,
+      complete: vi.fn(async () =>
+        JSON.stringify([
+          { id: 'step1', toolName: 'geocode', params: { city: 'Rome' }, dependsOn: [] },
+        ])
+      ),
+      executeWithTools: vi.fn(async (): Promise<ToolExecutionResult> => {
+        throw new Error('should not be called');
+      }),
+    };
+    const agent = new Agent(new SlidingWindowMemoryManager(), new SilentLogger());
+    tools.forEach(tool => agent.addTool(tool));
+
+    const result = await agent.runDetailed('Weather in Rome', adapter, { dryRun: true });
+
+    expect(adapter.executeWithTools).not.toHaveBeenCalled();
+    actions.forEach(action => expect(action).not.toHaveBeenCalled());
+    expect(result.success).toBe(true);
+    expect(result.mode).toBe('planned');
+    expect(result.preview?.valid).toBe(true);
+    expect(result.plan).toBe(result.preview?.plan);
+    expect(result.content).toContain('1. step1: geocode {"city":"Rome"}');
+    expect(agent.getHistory()).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { PlanRenderer } from '../../../src/core/execution/PlanRenderer';
+import { Planner } from '../../../src/core/execution/Planner';
+import { ExecutionPlan } from '../../../src/core/execution/types/ExecutionPlan';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+
+function createPlan(): ExecutionPlan {
+  return {
+    id: 'plan_1',
+    context: {},
+    steps: [
+      {
+        id: 'step1',
+        toolName: 'search',
+        params: { q: 'cats' },
+        dependsOn: [],
+        status: 'completed',
+        durationMs: 12,
+      },
+      {
+        id: 'step-2',
+        toolName: 'summarize',
+        params: { text: '{{step1}}' },
+        dependsOn: ['step1'],
+        condition: 'step1.count > 0',
+        status: 'failed',
+        result: 'Error: "quota" exceeded',
+      },
+      {
+        id: 'step3',
+        toolName: 'email',
+        params: {},
+        dependsOn: ['step-2', 'step0'],
+        status: 'pending',
+      },
+    ],
+  };
+}
+
+describe('PlanRenderer', () => {
+  const renderer = new PlanRenderer();
+
+  it('renders a Mermaid flowchart with statuses and dependency edges', () => {
+    const diagram = renderer.toMermaid(createPlan(), { direction: 'LR' });
+    const lines = diagram.split('\n');
+
+    expect(lines[0]).toBe('flowchart LR');
+    expect(lines).toContain('  step1["step1: search<br/>completed (12ms)"]');
+    expect(lines).toContain(
+      '  step_2["step-2: summarize<br/>if step1.count #gt; 0<br/>failed<br/>Error: #quot;quota#quot; exceeded"]'
+    );
+    expect(lines).toContain('  step0["step0 (missing)"]');
+    expect(lines).toContain('  step1 --> step_2');
+    expect(lines).toContain('  step_2 --> step3');
+    expect(lines).toContain('  step0 --> step3');
+    expect(lines).toContain('  class step_2 failed');
+    expect(lines).toContain('  class step0 missing');
+  });
+
+  it('keeps Mermaid node ids unique and truncates long text', () => {
+    const plan: ExecutionPlan = {
+      context: {},
+      steps: [
+        { id: 'a.b', toolName: 't', params: {}, dependsOn: [], status: 'pending' },
+        {
+          id: 'a-b',
+          toolName: 't',
+          params: { text: 'x'.repeat(50) },
+          dependsOn: ['a.b'],
+          status: 'pending',
+        },
+      ],
+    };
+
+    const diagram = renderer.toMermaid(plan, { includeParams: true, maxTextLength: 20 });
+
+    expect(diagram).toContain('a_b["a.b: t<br/>{}<br/>pending"]');
+    expect(diagram).toContain('a_b_2["a-b: t<br/>{#quot;text#quot;:#quot;xxxxxxxx...<br/>pending"]');
+    expect(diagram).toContain('a_b --> a_b_2');
+  });
+
+  it('renders a DOT digraph', () => {
+    const diagram = renderer.toDot(createPlan());
+    const lines = diagram.split('\n');
+
+    expect(lines[0]).toBe('digraph plan {');
+    expect(lines).toContain('  rankdir=TB;');
+    expect(lines).toContain(
+      '  "step-2" [label="step-2: summarize\\nif step1.count > 0\\nfailed\\nError: \\"quota\\" exceeded", fillcolor="#f8d7da", color="#dc3545"];'
+    );
+    expect(lines).toContain(
+      '  "step0" [label="step0 (missing)", fillcolor="#ffffff", color="#dc3545", style="rounded,dashed"];'
+    );
+    expect(lines).toContain('  "step1" -> "step-2";');
+    expect(lines[lines.length - 1]).toBe('}');
+  });
+});
+
+describe('Planner plan diagrams', () => {
+  it('logs a diagram with the final step statuses', async () => {
+    const logger = new SilentLogger();
+    const debug = vi.spyOn(logger, 'debug');
+    const plan: ExecutionPlan = {
+      context: {},
+      steps: [{ id: 'step1', toolName: 'echo', params: {}, dependsOn: [], status: 'pending' }],
+    };
+
+    await new Planner(logger).executePlan(plan, [
+      {
+        name: 'echo',
+        description: 'Echo',
+        paramsSchema: Type.Object({}),
+        action: async () => 'ok',
+      },
+    ]);
+
+    expect(debug).toHaveBeenCalledWith(
+      'Plan execution diagram',
+      expect.objectContaining({
+        statuses: { step1: 'completed' },
+        diagram: expect.stringContaining('class step1 completed'),
+      })
+    );
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { Planner } from '../../../src/core/execution/Planner';
+import { ExecutionPlan } from '../../../src/core/execution/types/ExecutionPlan';
+import { ReplanContext } from '../../../src/core/execution/types/ReplanContext';
+import { Tool } from '../../../src/core/tools/types/Tool';
+import { ModelAdapter, ToolExecutionResult } from '../../../src/infrastructure/adapters/base/base';
+import { MessageUtils } from '../../../src/infrastructure/adapters/utils/messageUtils';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+
+const tools: Tool[] = [
+  {
+    name: 'geocode',
+    description: 'Find coordinates for a city',
+    paramsSchema: Type.Object({ city: Type.String() }),
+    action: async ({ city }: any) => {
+      if (city === 'Pariss') throw new Error(`Unknown city '${city}'`);
+      return `coords of ${city}`;
+    },
+  },
+  {
+    name: 'weather',
+    description: 'Weather at coordinates',
+    paramsSchema: Type.Object({ coords: Type.String() }),
+    action: async ({ coords }: any) => `sunny at ${coords}`,
+  },
+];
+
+function createPlan(): ExecutionPlan {
+  return {
+    context: {},
+    steps: [
+      {
+        id: 'step1',
+        toolName: 'geocode',
+        params: { city: 'Rome' },
+        dependsOn: [],
+        status: 'pending',
+      },
+      {
+        id: 'step2',
+        toolName: 'geocode',
+        params: { city: 'Pariss' },
+        dependsOn: [],
+        status: 'pending',
+      },
+      {
+        id: 'step3',
+        toolName: 'weather',
+        params: { coords: '{{step2}}' },
+        dependsOn: ['step2'],
+        status: 'pending',
+      },
+    ],
+  };
+}
+
+class ReplanningAdapter implements ModelAdapter {
+  name = 'replanning';
+  supportsNativeTools = false;
+  complete: ReturnType<typeof vi.fn>;
+
+  constructor(...revisions: unknown[]) {
+    this.complete = vi.fn();
+    for (const revision of revisions) {
+      this.complete.mockResolvedValueOnce(JSON.stringify(revision));
+    }
+  }
+
+  async executeWithTools(): Promise<ToolExecutionResult> {
+    throw new Error('not implemented');
+  }
+}
+
+function createReplanContext(model: ModelAdapter): ReplanContext {
+  return { message: 'Weather in Paris', memoryContext: '', systemPrompt: '', model };
+}
+
+describe('Planner adaptive replanning', () => {
+  const planner = new Planner(new SilentLogger());
+
+  it('replaces the remainder of the plan with a validated revision', async () => {
+    const model = new ReplanningAdapter([
+      { id: 'step2b', toolName: 'geocode', params: { city: 'Paris' }, dependsOn: [] },
+      {
+        id: 'step3b',
+        toolName: 'weather',
+        params: { coords: '{{step2b}}' },
+        dependsOn: ['step2b'],
+      },
+    ]);
+    const plan = createPlan();
+
+    const output = await planner.executePlan(
+      plan,
+      tools,
+      { maxReplans: 1 },
+      {},
+      createReplanContext(model)
+    );
+
+    expect(plan.steps.map(step => [step.id, step.status])).toEqual([
+      ['step1', 'completed'],
+      ['step2', 'failed'],
+      ['step2b', 'completed'],
+      ['step3b', 'completed'],
+    ]);
+    expect(output).toContain('step3b: sunny at coords of Paris');
+
+    const prompt = MessageUtils.toText(model.complete.mock.calls[0][0]);
+    expect(prompt).toContain('Original request: Weather in Paris');
+    expect(prompt).toContain('step1 (geocode) params {"city":"Rome"} -> "coords of Rome"');
+    expect(prompt).toContain("Error: Unknown city 'Pariss'");
+    expect(prompt).toContain('step3 (weather)');
+  });
+
+  it('keeps the previous behaviour when replanning is not enabled', async () => {
+    const model = new ReplanningAdapter();
+
+    await expect(
+      planner.executePlan(createPlan(), tools, {}, {}, createReplanContext(model))
+    ).rejects.toThrow('Plan execution deadlocked');
+    expect(model.complete).not.toHaveBeenCalled();
+  });
+
+  it('stops replanning once maxReplans is used up', async () => {
+    const model = new ReplanningAdapter([
+      { id: 'retry', toolName: 'geocode', params: { city: 'Pariss' }, dependsOn: [] },
+    ]);
+    const plan = createPlan();
+
+    await planner.executePlan(plan, tools, { maxReplans: 1 }, {}, createReplanContext(model));
+
+    expect(model.complete).toHaveBeenCalledTimes(1);
+    expect(plan.steps.find(step => step.id === 'retry')?.status).toBe('failed');
+  });
+
+  it('rejects revisions that depend on failed steps and leaves the plan unchanged', async () => {
+    const model = new ReplanningAdapter([
+      { id: 'step4', toolName: 'weather', params: { coords: '{{step2}}' }, dependsOn: ['step2'] },
+    ]);
+    const plan = createPlan();
+
+    const output = await planner.executePlan(
+      plan,
+      tools,
+      { maxReplans: 1, stopOnFirstToolError: true },
+      {},
+      createReplanContext(model)
+    );
+
+    expect(plan.steps.map(step => step.id)).toEqual(['step1', 'step2', 'step3']);
+    expect(plan.steps[2].status).toBe('pending');
+    expect(output).toContain("step2: Error: Unknown city 'Pariss'");
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { Planner } from '../../../src/core/execution/Planner';
+import { invokeTool, ToolTimeoutError } from '../../../src/core/tools/ToolInvocation';
+import { ExecutionPlan } from '../../../src/core/execution/types/ExecutionPlan';
+import { Tool } from '../../../src/core/tools/types/Tool';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+
+/** A tool that fails the given number of times before succeeding */
+function flakyTool(failures: number, extra: Partial<Tool> = {}): Tool & { calls: number } {
+  const tool = {
+    name: 'fetchPage',
+    description: 'Fetch a page',
+    paramsSchema: Type.Object({}),
+    calls: 0,
+    action: async () => {
+      tool.calls += 1;
+      if (tool.calls <= failures) throw new Error(`HTTP 503 (call ${tool.calls})`);
+      return 'page';
+    },
+    ...extra,
+  };
+  return tool;
+}
+
+/** A tool that only settles when its signal aborts */
+function hangingTool(): Tool & { signals: AbortSignal[] } {
+  const tool = {
+    name: 'hang',
+    description: 'Never resolves',
+    paramsSchema: Type.Object({}),
+    signals: [] as AbortSignal[],
+    action: (_params: any, context?: { signal?: AbortSignal }) => {
+      tool.signals.push(context!.signal!);
+      return new Promise<string>(() => undefined);
+    },
+  };
+  return tool;
+}
+
+describe('invokeTool retries and timeouts', () => {
+  it('retries failed calls with exponential backoff', async () => {
+    const tool = flakyTool(2);
+    const onRetry = vi.fn();
+
+    const result = await invokeTool(
+      tool,
+      {},
+      {},
+      { retry: { maxAttempts: 3, initialDelayMs: 1, jitter: false }, onRetry }
+    );
+
+    expect(result).toBe('page');
+    expect(tool.calls).toBe(3);
+    expect(onRetry.mock.calls.map(([info]) => [info.attempt, info.delayMs])).toEqual([
+      [1, 1],
+      [2, 2],
+    ]);
+  });
+
+  it('throws the last error once attempts are exhausted', async () => {
+    const tool = flakyTool(5);
+
+    await expect(
+      invokeTool(tool, {}, {}, { retry: { maxAttempts: 2, initialDelayMs: 1 } })
+    ).rejects.toThrow('HTTP 503 (call 2)');
+    expect(tool.calls).toBe(2);
+  });
+
+  it('only retries errors accepted by retryOn', async () => {
+    const tool = flakyTool(1);
+    const retryOn = vi.fn((error: unknown) => !String(error).includes('503'));
+
+    await expect(
+      invokeTool(tool, {}, {}, { retry: { maxAttempts: 3, initialDelayMs: 1, retryOn } })
+    ).rejects.toThrow('HTTP 503');
+    expect(retryOn).toHaveBeenCalledWith(expect.any(Error), 1);
+    expect(tool.calls).toBe(1);
+  });
+
+  it("lets the tool's own policy override the run-level one", async () => {
+    const tool = flakyTool(1, { retry: { maxAttempts: 1 } });
+
+    await expect(
+      invokeTool(tool, {}, {}, { retry: { maxAttempts: 3, initialDelayMs: 1 } })
+    ).rejects.toThrow('HTTP 503');
+    expect(tool.calls).toBe(1);
+  });
+
+  it('times out each attempt and aborts the signal given to the tool', async () => {
+    const tool = hangingTool();
+
+    const call = invokeTool(
+      tool,
+      {},
+      {},
+      { timeoutMs: 10, retry: { maxAttempts: 2, initialDelayMs: 1 } }
+    );
+
+    await expect(call).rejects.toThrow(ToolTimeoutError);
+    await expect(call).rejects.toThrow("Tool 'hang' timed out after 10ms");
+    expect(tool.signals).toHaveLength(2);
+    expect(tool.signals.every(signal => signal.aborted)).toBe(true);
+  });
+
+  it('does not retry a cancelled call', async () => {
+    const tool = hangingTool();
+    const controller = new AbortController();
+    setTimeout(() => controller.abort('stop'), 10);
+
+    await expect(
+      invokeTool(tool, {}, { signal: controller.signal }, { retry: { maxAttempts: 3 } })
+    ).rejects.toThrow('stop');
+    expect(tool.signals).toHaveLength(1);
+  });
+});
+
+describe('Planner tool retries', () => {
+  function createPlan(toolName: string): ExecutionPlan {
+    return {
+      context: {},
+      steps: [{ id: 'step1', toolName, params: {}, dependsOn: [], status: 'pending' }],
+    };
+  }
+
+  it('completes a step after a transient failure', async () => {
+    const logger = new SilentLogger();
+    const warn = vi.spyOn(logger, 'warn');
+    const tool = flakyTool(1);
+    const plan = createPlan('fetchPage');
+
+    await new Planner(logger).executePlan(plan, [tool], {
+      toolRetry: { maxAttempts: 2, initialDelayMs: 1 },
+    });
+
+    expect(plan.steps[0].status).toBe('completed');
+    expect(warn).toHaveBeenCalledWith(
+      'Retrying tool call',
+      expect.objectContaining({ stepId: 'step1', attempt: 1, error: 'HTTP 503 (call 1)' })
+    );
+  });
+
+  it('fails a step whose tool exceeds the timeout', async () => {
+    const plan = createPlan('hang');
+
+    await new Planner(new SilentLogger()).executePlan(plan, [hangingTool()], {
+      toolTimeoutMs: 10,
+    });
+
+    expect(plan.steps[0].status).toBe('failed');
+    expect(plan.steps[0].result).toBe("Error: Tool 'hang' timed out after 10ms");
+  });
+});
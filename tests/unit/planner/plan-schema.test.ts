@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { Planner } from '../../../src/core/execution/Planner';
+import { PlanValidator } from '../../../src/core/execution/PlanValidator';
+import { buildPlanSchema } from '../../../src/core/execution/PlanSchema';
+import { Tool } from '../../../src/core/tools/types/Tool';
+import { Message } from '../../../src/shared/types/Message';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+
+const tools: Tool[] = [
+  {
+    name: 'findCity',
+    description: 'Find a city',
+    paramsSchema: Type.Object({ name: Type.String() }),
+    action: async () => 'Paris',
+  },
+  {
+    name: 'getWeather',
+    description: 'Weather for a city',
+    paramsSchema: Type.Object({ city: Type.String(), days: Type.Number() }),
+    action: async () => 'sunny',
+  },
+];
+
+/** An adapter without native tools whose completions are replayed in order */
+function scriptedAdapter(...responses: string[]) {
+  const calls: Message[][] = [];
+  return {
+    name: 'scripted',
+    supportsNativeTools: false,
+    calls,
+    complete: vi.fn(async (messages: any, _options?: any) => {
+      calls.push(JSON.parse(JSON.stringify(messages)));
+      const response = responses.shift();
+      if (response === undefined) throw new Error('No scripted response left');
+      return response;
+    }),
+    executeWithTools: vi.fn(),
+  };
+}
+
+const plan = (...steps: any[]) => JSON.stringify({ steps });
+
+describe('Plan schema', () => {
+  it('discriminates steps by tool name with each tool params schema', () => {
+    const schema = buildPlanSchema(tools);
+    const variants = schema.properties.steps.items.anyOf;
+
+    expect(schema.required).toEqual(['steps']);
+    expect(variants.map((variant: any) => variant.properties.toolName.enum)).toEqual([
+      ['findCity'],
+      ['getWeather'],
+    ]);
+    expect(variants[1].properties.params.required).toEqual(['city', 'days']);
+    expect(variants[1].properties.params.properties.days.anyOf).toEqual([
+      { type: 'number' },
+      { type: 'string', pattern: '\\{\\{.+\\}\\}' },
+    ]);
+    expect(buildPlanSchema([]).properties.steps).toEqual({ type: 'array', maxItems: 0 });
+  });
+
+  it('accepts references in typed params and reports readable problems', () => {
+    const validator = new PlanValidator(new SilentLogger());
+
+    expect(
+      validator.validatePlanSchema(
+        [
+          { id: 'step1', toolName: 'findCity', params: { name: 'Paris' }, dependsOn: [] },
+          {
+            id: 'step2',
+            toolName: 'getWeather',
+            params: { city: '{{step1}}', days: '{{step1.days}}' },
+            dependsOn: ['step1'],
+          },
+        ],
+        tools
+      )
+    ).toEqual([]);
+
+    expect(
+      validator.validatePlanSchema(
+        [
+          { id: 'step1', toolName: 'getWeather', params: { city: 'Paris', days: 'two' } },
+          { id: 'step2', toolName: 'getForecast', params: {}, dependsOn: [] },
+        ],
+        tools
+      )
+    ).toEqual([
+      "/steps/0 must have required property 'dependsOn'",
+      '/steps/0/params/days must be number',
+      "/steps/1/toolName 'getForecast' is not one of the available tools: findCity, getWeather",
+    ]);
+  });
+
+  it('sends the schema and re-asks the model with the errors', async () => {
+    const model = scriptedAdapter(
+      plan({ id: 'step1', toolName: 'getWeather', params: { city: 'Paris' }, dependsOn: [] }),
+      plan({
+        id: 'step1',
+        toolName: 'getWeather',
+        params: { city: 'Paris', days: 2 },
+        dependsOn: [],
+      })
+    );
+
+    const created = await new Planner(new SilentLogger()).createPlan(
+      'Weather in Paris',
+      tools,
+      '',
+      '',
+      model
+    );
+
+    expect(created.steps).toEqual([
+      expect.objectContaining({ id: 'step1', params: { city: 'Paris', days: 2 } }),
+    ]);
+    expect(model.complete.mock.calls[0][1]).toMatchObject({
+      json: true,
+      schema: buildPlanSchema(tools),
+    });
+    const retry = model.calls[1];
+    expect(retry[retry.length - 2].role).toBe('assistant');
+    expect(retry[retry.length - 1].content).toBe(
+      "Your plan was rejected for these reasons:\n- /steps/0/params must have required property 'days'\n\nReturn a corrected plan as JSON only."
+    );
+  });
+
+  it('gives up after maxPlanAttempts responses', async () => {
+    const model = scriptedAdapter('no plan', plan({ id: 'step1', toolName: 'missing' }));
+
+    await expect(
+      new Planner(new SilentLogger()).createPlan('Hi', tools, '', '', model, {
+        maxPlanAttempts: 2,
+      })
+    ).rejects.toThrow(
+      /^Failed to parse execution plan after 2 attempt\(s\): \/steps\/0\/toolName 'missing'/
+    );
+    expect(model.complete).toHaveBeenCalledTimes(2);
+  });
+});
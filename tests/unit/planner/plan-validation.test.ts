@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { Planner } from '../../../src/core/execution/Planner';
+import { PlanValidator } from '../../../src/core/execution/PlanValidator';
+import { ExecutionPlan } from '../../../src/core/execution/types/ExecutionPlan';
+import { PlanStep } from '../../../src/core/execution/types/PlanStep';
+import { Tool } from '../../../src/core/tools/types/Tool';
+import { Message } from '../../../src/shared/types/Message';
+import { PlanValidationError } from '../../../src/shared/errors';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+
+function createTools() {
+  const calls: string[] = [];
+  const tools: Tool[] = [
+    {
+      name: 'findCity',
+      description: 'Find a city',
+      paramsSchema: Type.Object({ name: Type.String() }),
+      action: async ({ name }: any) => {
+        calls.push(`findCity ${name}`);
+        return { city: name };
+      },
+    },
+    {
+      name: 'getWeather',
+      description: 'Weather for a city',
+      paramsSchema: Type.Object({ city: Type.String() }),
+      action: async ({ city }: any) => {
+        calls.push(`getWeather ${city}`);
+        return 'sunny';
+      },
+    },
+  ];
+  return { tools, calls };
+}
+
+function step(id: string, toolName: string, extra: Partial<PlanStep> = {}): PlanStep {
+  return { id, toolName, params: {}, dependsOn: [], status: 'pending', ...extra };
+}
+
+const plan = (...steps: PlanStep[]): ExecutionPlan => ({ steps, context: {} });
+
+describe('Plan validation report', () => {
+  const { tools } = createTools();
+  const validator = new PlanValidator(new SilentLogger());
+
+  it('reports every issue of a plan at once', () => {
+    const report = validator.validatePlan(
+      plan(
+        step('step1', 'teleport'),
+        step('step1', 'findCity', { params: { name: '{{step9.city}}' } }),
+        step('step2', 'getWeather', { params: { city: '{{step3}}' }, dependsOn: ['step0'] }),
+        step('step3', 'getWeather', { params: { city: '{{step3}}' }, dependsOn: ['step2'] })
+      ),
+      tools
+    );
+
+    expect(report.valid).toBe(false);
+    expect(report.issues).toEqual([
+      {
+        kind: 'unknown_tool',
+        stepId: 'step1',
+        message: "Step 'step1' uses unknown tool 'teleport'. Available tools: findCity, getWeather",
+      },
+      {
+        kind: 'duplicate_step_id',
+        stepId: 'step1',
+        message: "Step id 'step1' is used by more than one step",
+      },
+      {
+        kind: 'unknown_reference',
+        stepId: 'step1',
+        message: "Step 'step1' params reference unknown step 'step9'",
+      },
+      {
+        kind: 'unknown_dependency',
+        stepId: 'step2',
+        message: "Step 'step2' depends on non-existent step 'step0'",
+      },
+      {
+        kind: 'downstream_reference',
+        stepId: 'step2',
+        message: "Step 'step2' params reference 'step3', which runs after it",
+      },
+      {
+        kind: 'downstream_reference',
+        stepId: 'step3',
+        message: "Step 'step3' params reference its own result",
+      },
+    ]);
+    expect(report.inferredDependencies).toEqual([]);
+  });
+
+  it('infers dependencies from params references and still detects cycles', () => {
+    const inferred = plan(
+      step('step2', 'getWeather', { params: { city: '{{step1.city}}' } }),
+      step('step1', 'findCity', { params: { name: 'Paris' } })
+    );
+    expect(validator.validatePlan(inferred, tools)).toEqual({
+      valid: true,
+      issues: [],
+      inferredDependencies: [{ stepId: 'step2', dependsOn: ['step1'] }],
+    });
+    // validatePlan leaves the plan unchanged, validateStructure applies the inferred dependencies
+    expect(inferred.steps[0].dependsOn).toEqual([]);
+    validator.validateStructure(inferred, tools);
+    expect(inferred.steps[0].dependsOn).toEqual(['step1']);
+
+    const cyclic = plan(
+      step('step1', 'findCity', { dependsOn: ['step2'] }),
+      step('step2', 'getWeather', { dependsOn: ['step1'] })
+    );
+    expect(validator.validatePlan(cyclic, tools).issues).toEqual([
+      {
+        kind: 'circular_dependency',
+        message: 'Circular dependency detected: step1 -> step2 -> step1',
+      },
+    ]);
+    expect(() => validator.validateStructure(cyclic, tools)).toThrow(PlanValidationError);
+  });
+
+  it('runs a step after the step its params read, even when dependsOn omits it', async () => {
+    const { tools, calls } = createTools();
+
+    const output = await new Planner(new SilentLogger()).executePlan(
+      plan(
+        step('step2', 'getWeather', { params: { city: '{{step1.city}}' } }),
+        step('step1', 'findCity', { params: { name: 'Paris' } })
+      ),
+      tools
+    );
+
+    expect(calls).toEqual(['findCity Paris', 'getWeather Paris']);
+    expect(output).toContain('step2: sunny');
+  });
+
+  it('sends the issues back to the model when asking for a repaired plan', async () => {
+    const calls: Message[][] = [];
+    const responses = [
+      JSON.stringify({
+        steps: [
+          { id: 'step1', toolName: 'getWeather', params: { city: '{{step2}}' }, dependsOn: [] },
+          { id: 'step2', toolName: 'findCity', params: { name: 'Paris' }, dependsOn: ['step1'] },
+        ],
+      }),
+      JSON.stringify({
+        steps: [
+          { id: 'step1', toolName: 'findCity', params: { name: 'Paris' }, dependsOn: [] },
+          { id: 'step2', toolName: 'getWeather', params: { city: '{{step1}}' }, dependsOn: [] },
+        ],
+      }),
+    ];
+    const model = {
+      name: 'scripted',
+      supportsNativeTools: false,
+      complete: vi.fn(async (messages: any) => {
+        calls.push(JSON.parse(JSON.stringify(messages)));
+        return responses.shift() as string;
+      }),
+      executeWithTools: vi.fn(),
+    };
+
+    const created = await new Planner(new SilentLogger()).createPlan(
+      'Weather in Paris',
+      createTools().tools,
+      '',
+      '',
+      model
+    );
+
+    expect(model.complete).toHaveBeenCalledTimes(2);
+    expect(calls[1][calls[1].length - 1].content).toBe(
+      "Your plan was rejected for these reasons:\n- Step 'step1' params reference 'step2', which runs after it\n\nReturn a corrected plan as JSON only."
+    );
+    expect(created.steps.map(s => s.id)).toEqual(['step1', 'step2']);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { Planner } from '../../../src/core/execution/Planner';
+import { ResponseProcessor } from '../../../src/core/execution/ResponseProcessor';
+import {
+  DEFAULT_PLANNING_TEMPLATE,
+  renderPromptTemplate,
+} from '../../../src/core/execution/PromptTemplates';
+import { describeTool } from '../../../src/core/tools/ToolDescription';
+import { Agent } from '../../../src/core/agent/Agent';
+import { SlidingWindowMemoryManager } from '../../../src/core/memory/memory';
+import { Tool } from '../../../src/core/tools/types/Tool';
+import { Message } from '../../../src/shared/types/Message';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+
+const lookupTool: Tool = {
+  name: 'lookupOrder',
+  description: 'Look up an order',
+  paramsSchema: Type.Object({ orderId: Type.String() }),
+  examples: [
+    { description: 'Order A1', params: { orderId: 'A1' }, result: { status: 'shipped' } },
+    { params: { orderId: 'B2' } },
+  ],
+  action: async () => 'shipped',
+};
+
+function recordingAdapter(response: string) {
+  return {
+    name: 'recording',
+    supportsNativeTools: false,
+    complete: vi.fn(async (_messages: Message[]) => response),
+    executeWithTools: vi.fn(),
+  };
+}
+
+const planJson = JSON.stringify([
+  { id: 'step1', toolName: 'lookupOrder', params: { orderId: 'A1' }, dependsOn: [] },
+]);
+
+describe('Prompt templates', () => {
+  it('fills slots in one pass and keeps other placeholders', () => {
+    expect(
+      renderPromptTemplate('{{ request }} uses {{step1}} and {{tools}}', {
+        request: 'Say {{tools}}',
+        tools: 'lookup',
+      })
+    ).toBe('Say {{tools}} uses {{step1}} and lookup');
+  });
+
+  it('renders tool examples into descriptions', () => {
+    expect(describeTool(lookupTool)).toBe(
+      'Look up an order\nExamples:\n- Order A1: {"orderId":"A1"} returns {"status":"shipped"}\n- {"orderId":"B2"}'
+    );
+    expect(describeTool({ ...lookupTool, examples: undefined })).toBe('Look up an order');
+  });
+
+  it('keeps the built-in planning prompt when no template is set', async () => {
+    const model = recordingAdapter(planJson);
+
+    await new Planner(new SilentLogger()).createPlan(
+      'Where is A1?',
+      [lookupTool],
+      'none',
+      'Be brief',
+      model
+    );
+
+    const [messages] = model.complete.mock.calls[0];
+    expect(messages[0]).toEqual({ role: 'system', content: 'Be brief' });
+    expect(messages[1].content).toBe(
+      renderPromptTemplate(DEFAULT_PLANNING_TEMPLATE, {
+        memory: 'none',
+        request: 'Where is A1?',
+        tools: `Tool: lookupOrder\nDescription: ${describeTool(
+          lookupTool
+        )}\nParams: ${JSON.stringify(lookupTool.paramsSchema)}`,
+        examples: '',
+      })
+    );
+  });
+
+  it('renders a custom planning template with few-shot plans', async () => {
+    const planner = new Planner(new SilentLogger());
+    planner.setPromptTemplates({
+      planning: '{{systemPrompt}}\nTools:\n{{tools}}\nTask: {{request}}{{examples}}\nJSON only.',
+      planExamples: [
+        {
+          request: 'Status of B2',
+          steps: [
+            { id: 'step1', toolName: 'lookupOrder', params: { orderId: 'B2' }, dependsOn: [] },
+          ],
+        },
+      ],
+    });
+    const model = recordingAdapter(planJson);
+
+    const plan = await planner.createPlan('Where is A1?', [lookupTool], '', 'Be brief', model);
+
+    expect(plan.steps).toHaveLength(1);
+    const [messages] = model.complete.mock.calls[0];
+    expect(messages).toHaveLength(1);
+    const prompt = messages[0].content as string;
+    expect(prompt.startsWith('Be brief\nTools:\nTool: lookupOrder')).toBe(true);
+    expect(prompt).toContain(
+      'Task: Where is A1?\n\nExamples of good plans:\n\nRequest: Status of B2\nPlan:\n['
+    );
+    expect(prompt).toContain('"orderId": "B2"');
+    expect(prompt.endsWith(']\nJSON only.')).toBe(true);
+  });
+
+  it('rejects templates without required slots', () => {
+    expect(() =>
+      new Planner(new SilentLogger()).setPromptTemplates({ planning: 'Plan {{tools}}' })
+    ).toThrow('The planning prompt template must contain {{request}}');
+    expect(() =>
+      new ResponseProcessor().setPromptTemplates({ conversational: 'Answer {{request}}' })
+    ).toThrow('The conversational prompt template must contain {{results}}');
+  });
+
+  it('applies agent templates to planned runs and their answers', async () => {
+    const agent = new Agent(new SlidingWindowMemoryManager(), new SilentLogger());
+    agent.addTool(lookupTool);
+    agent.setPromptTemplates({
+      planning: 'PLAN {{request}} with {{tools}}',
+      conversational: 'ANSWER {{request}} from {{results}}',
+    });
+    const model = recordingAdapter('');
+    model.complete.mockImplementation(async (messages: Message[]) =>
+      String(messages[messages.length - 1].content).startsWith('PLAN') ? planJson : 'A1 shipped.'
+    );
+
+    const result = await agent.runDetailed('Where is A1?', model);
+
+    expect(result).toMatchObject({ success: true, mode: 'planned', content: 'A1 shipped.' });
+    const prompts = model.complete.mock.calls.map(([messages]) =>
+      String(messages[messages.length - 1].content)
+    );
+    expect(prompts[1]).toBe('ANSWER Where is A1? from step1: shipped');
+    expect(agent.getPromptTemplates().conversational).toBe('ANSWER {{request}} from {{results}}');
+  });
+});
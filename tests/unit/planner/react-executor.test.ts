@@ -0,0 +1,251 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { ReActExecutor } from '../../../src/core/execution/ReActExecutor';
+import { Agent } from '../../../src/core/agent/Agent';
+import { SlidingWindowMemoryManager } from '../../../src/core/memory/memory';
+import { Tool } from '../../../src/core/tools/types/Tool';
+import { Message } from '../../../src/shared/types/Message';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+
+const tools: Tool[] = [
+  {
+    name: 'findUser',
+    description: 'Find a user by name',
+    paramsSchema: Type.Object({ name: Type.String() }),
+    action: async ({ name }: any) => JSON.stringify({ id: name === 'Ada' ? 7 : 0 }),
+  },
+  {
+    name: 'getOrders',
+    description: 'Orders of a user',
+    paramsSchema: Type.Object({ userId: Type.Number() }),
+    action: async ({ userId }: any) => {
+      if (userId !== 7) throw new Error(`No user ${userId}`);
+      return ['A1', 'B2'];
+    },
+  },
+];
+
+/** An adapter without native tools whose completions are replayed in order */
+function scriptedAdapter(...responses: string[]) {
+  const calls: Message[][] = [];
+  return {
+    name: 'scripted',
+    supportsNativeTools: false,
+    calls,
+    complete: vi.fn(async (messages: any) => {
+      calls.push(JSON.parse(JSON.stringify(messages)));
+      const response = responses.shift();
+      if (response === undefined) throw new Error('No scripted response left');
+      return response;
+    }),
+    executeWithTools: vi.fn(),
+  };
+}
+
+const action = (tool: string, params: any, thought = '') =>
+  JSON.stringify({ thought, action: { tool, params } });
+const answer = (text: string) => JSON.stringify({ thought: 'done', answer: text });
+
+function lastMessage(messages: Message[]): string {
+  return messages[messages.length - 1].content as string;
+}
+
+describe('ReActExecutor', () => {
+  it('feeds each observation back until the model answers', async () => {
+    const model = scriptedAdapter(
+      action('findUser', { name: 'Ada' }, 'I need her id'),
+      action('getOrders', { userId: 7 }),
+      answer('Ada has orders A1 and B2.')
+    );
+    const onStepEnd = vi.fn();
+
+    const result = await new ReActExecutor(new SilentLogger()).execute(
+      'Which orders does Ada have?',
+      tools,
+      '',
+      'Be brief.',
+      model,
+      {},
+      { onStepEnd }
+    );
+
+    expect(result.answer).toBe('Ada has orders A1 and B2.');
+    expect(result.steps.map(step => [step.id, step.toolName, step.status])).toEqual([
+      ['step1', 'findUser', 'completed'],
+      ['step2', 'getOrders', 'completed'],
+    ]);
+    expect(result.steps[0].thought).toBe('I need her id');
+    expect(result.output).toBe('step1: {"id":7}\nstep2: [\n  "A1",\n  "B2"\n]');
+    expect(onStepEnd).toHaveBeenCalledTimes(2);
+
+    expect(model.complete).toHaveBeenCalledWith(expect.any(Array), {
+      json: true,
+      signal: undefined,
+    });
+    expect(model.calls[0][0]).toEqual({ role: 'system', content: 'Be brief.' });
+    expect(lastMessage(model.calls[0])).toContain('"action": {"tool": "name"');
+    expect(lastMessage(model.calls[1])).toBe('Observation (step1, findUser): {"id":7}');
+  });
+
+  it('reports tool errors and invalid params to the model', async () => {
+    const model = scriptedAdapter(
+      action('getOrders', { userId: 3 }),
+      action('getOrders', { userId: 'seven' }),
+      action('missing', {}),
+      answer('I could not find the orders.')
+    );
+
+    const result = await new ReActExecutor(new SilentLogger()).execute(
+      'Orders of user 3',
+      tools,
+      '',
+      '',
+      model
+    );
+
+    expect(result.steps.map(step => step.status)).toEqual(['failed', 'failed', 'failed']);
+    expect(lastMessage(model.calls[1])).toBe('Observation (step1, getOrders): Error: No user 3');
+    expect(lastMessage(model.calls[2])).toContain("Error: Invalid params for tool 'getOrders'");
+    expect(lastMessage(model.calls[3])).toContain(
+      "Error: Tool 'missing' not found. Available tools: findUser, getOrders"
+    );
+  });
+
+  it('runs tool calls through the approval gate with edited params', async () => {
+    const refund = vi.fn().mockResolvedValue('refunded');
+    const refundTool: Tool = {
+      name: 'refund',
+      description: 'Refund an order',
+      paramsSchema: Type.Object({ amount: Type.Number() }),
+      requiresApproval: true,
+      action: refund,
+    };
+    const model = scriptedAdapter(
+      action('refund', { amount: 120 }),
+      action('refund', { amount: 120 }),
+      answer('Refunded 100.')
+    );
+    const onApprovalRequired = vi
+      .fn()
+      .mockResolvedValueOnce({ action: 'edit', params: { amount: 'all' } })
+      .mockResolvedValueOnce({ action: 'edit', params: { amount: 100 } });
+
+    const result = await new ReActExecutor(new SilentLogger()).execute(
+      'Refund order A1',
+      [refundTool],
+      '',
+      '',
+      model,
+      { onApprovalRequired }
+    );
+
+    expect(result.steps.map(step => step.status)).toEqual(['failed', 'completed']);
+    expect(lastMessage(model.calls[1])).toContain("Error: Invalid params for tool 'refund'");
+    expect(refund).toHaveBeenCalledTimes(1);
+    expect(refund).toHaveBeenCalledWith({ amount: 100 }, {});
+    expect(result.steps[1].params).toEqual({ amount: 100 });
+  });
+
+  it('asks again after invalid responses and gives up after three', async () => {
+    const recovered = scriptedAdapter('not json', JSON.stringify({ thought: 'hm' }), answer('ok'));
+    const executor = new ReActExecutor(new SilentLogger());
+
+    await expect(executor.execute('Hi', tools, '', '', recovered)).resolves.toMatchObject({
+      answer: 'ok',
+    });
+    expect(lastMessage(recovered.calls[2])).toContain(
+      'Your response was invalid: expected either "answer" or "action"'
+    );
+
+    const broken = scriptedAdapter('a', 'b', 'c');
+    await expect(executor.execute('Hi', tools, '', '', broken)).rejects.toThrow(
+      'ReAct loop stopped after 3 invalid responses'
+    );
+  });
+
+  it('asks for an answer once maxSteps tool calls were made', async () => {
+    const model = scriptedAdapter(
+      action('findUser', { name: 'Ada' }),
+      action('findUser', { name: 'Bob' }),
+      answer('Ada is user 7.')
+    );
+
+    const result = await new ReActExecutor(new SilentLogger()).execute(
+      'Who is Ada?',
+      tools,
+      '',
+      '',
+      model,
+      { maxSteps: 1 }
+    );
+
+    expect(result.steps).toHaveLength(1);
+    expect(result.answer).toBe('Ada is user 7.');
+    expect(lastMessage(model.calls[2])).toContain('You cannot call any more tools.');
+
+    const stubborn = scriptedAdapter(
+      action('findUser', { name: 'Ada' }),
+      action('findUser', { name: 'Bob' })
+    );
+    await expect(
+      new ReActExecutor(new SilentLogger()).execute('Who?', tools, '', '', stubborn, {
+        maxSteps: 0,
+      })
+    ).rejects.toThrow('ReAct loop reached maxSteps (0) without an answer');
+  });
+});
+
+describe('Agent ReAct execution', () => {
+  function createAgent(): Agent {
+    const agent = new Agent(new SlidingWindowMemoryManager(), new SilentLogger());
+    tools.forEach(tool => agent.addTool(tool));
+    return agent;
+  }
+
+  it('runs the ReAct loop when selected', async () => {
+    const model = scriptedAdapter(action('findUser', { name: 'Ada' }), answer('Ada is user 7.'));
+
+    const result = await createAgent().runDetailed('Who is Ada?', model, {
+      executionMode: 'react',
+    });
+
+    expect(result).toMatchObject({ success: true, mode: 'react', content: 'Ada is user 7.' });
+    expect(result.steps).toEqual([
+      expect.objectContaining({ stepId: 'step1', toolName: 'findUser', status: 'completed' }),
+    ]);
+    expect(model.complete).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to ReAct when the plan cannot be created', async () => {
+    const model = scriptedAdapter(
+      'I cannot produce a plan',
+      action('findUser', { name: 'Ada' }),
+      answer('Ada is user 7.')
+    );
+    const agent = createAgent();
+    const fallback = vi.fn();
+    agent.on('fallback', fallback);
+
+    const result = await agent.runDetailed('Who is Ada?', model, { maxPlanAttempts: 1 });
+
+    expect(result).toMatchObject({ success: true, mode: 'react', content: 'Ada is user 7.' });
+    expect(result.errors[0]).toMatch(/^Failed to parse execution plan/);
+    expect(fallback).toHaveBeenCalledWith(
+      expect.objectContaining({ from: 'planned', to: 'react' })
+    );
+  });
+
+  it('streams ReAct steps and the answer', async () => {
+    const model = scriptedAdapter(action('findUser', { name: 'Ada' }), answer('Ada is user 7.'));
+    const events: any[] = [];
+
+    for await (const event of createAgent().stream('Who is Ada?', model, {
+      executionMode: 'react',
+    })) {
+      events.push(event);
+    }
+
+    expect(events.map(event => event.type)).toEqual(['step_start', 'step_end', 'text', 'final']);
+    expect(events[3].content).toBe('Ada is user 7.');
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { ReferenceResolver } from '../../../src/core/execution/ReferenceResolver';
+import { Planner } from '../../../src/core/execution/Planner';
+import { ExecutionPlan } from '../../../src/core/execution/types/ExecutionPlan';
+import { Tool } from '../../../src/core/tools/types/Tool';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+
+const results = {
+  step1: JSON.stringify({
+    city: 'Rome',
+    location: { coords: [{ lat: 41.9, lon: 12.5 }], 'time zone': 'CET' },
+  }),
+  step2: {
+    products: [
+      { name: 'pen', price: 2, tags: ['office'] },
+      { name: 'desk', price: 150, tags: ['office', 'furniture'] },
+      { name: 'mug', price: 8, tags: ['kitchen'] },
+    ],
+  },
+  step3: 'plain text',
+};
+
+function resolve(params: any, strict = false, schema?: any) {
+  const logger = new SilentLogger();
+  const warn = vi.spyOn(logger, 'warn');
+  const value = new ReferenceResolver(logger).resolveReferences(
+    params,
+    { results, metadata: {}, strict },
+    schema
+  );
+  return { value, warn };
+}
+
+describe('ReferenceResolver paths', () => {
+  it('resolves nested properties, array indices and quoted keys', () => {
+    expect(resolve('{{step1.location.coords[0].lat}}').value).toBe(41.9);
+    expect(resolve("{{step1.location['time zone']}}").value).toBe('CET');
+    expect(resolve('{{step2.products[-1].name}}').value).toBe('mug');
+    expect(resolve('{{step2.products.1.tags[1]}}').value).toBe('furniture');
+    expect(resolve('{{ step1.city }}').value).toBe('Rome');
+    expect(resolve('{{step3}}').value).toBe('plain text');
+  });
+
+  it('supports wildcards and filters', () => {
+    expect(resolve('{{step2.products[*].name}}').value).toEqual(['pen', 'desk', 'mug']);
+    expect(resolve('{{step2.products[?(@.price < 10)].name}}').value).toEqual(['pen', 'mug']);
+    expect(
+      resolve("{{step2.products[?(@.tags[0] == 'office' && @.price > 100)].name}}").value
+    ).toEqual(['desk']);
+    expect(resolve('{{step2.products[?(@.price > 1000)].name}}').value).toEqual([]);
+  });
+
+  it('interpolates values inside strings', () => {
+    expect(resolve('{{step1.city}} at {{step1.location.coords[0]}}').value).toBe(
+      'Rome at {"lat":41.9,"lon":12.5}'
+    );
+    expect(resolve('Cheap: {{step2.products[?(@.price < 10)].name}}').value).toBe(
+      'Cheap: ["pen","mug"]'
+    );
+  });
+
+  it('uses defaults for missing paths and steps', () => {
+    expect(resolve('{{step1.country | "Italy"}}').value).toBe('Italy');
+    expect(resolve("{{step9.city | 'Paris'}}").value).toBe('Paris');
+    expect(resolve('{{step1.location.coords[3].lat | 0}}').value).toBe(0);
+    expect(resolve('{{step1.city | "Paris"}}').value).toBe('Rome');
+    expect(resolve('Hello {{step9.name | friend}}').value).toBe('Hello friend');
+  });
+
+  it('coerces resolved values to the parameter schema', () => {
+    expect(
+      resolve(
+        { lat: '{{step1.location.coords[0].lat}}' },
+        false,
+        Type.Object({ lat: Type.String() })
+      ).value
+    ).toEqual({ lat: '41.9' });
+  });
+
+  it('warns and resolves to an empty string when not strict', () => {
+    const { value, warn } = resolve('{{step1.location.zip}}');
+    expect(value).toBe('');
+    expect(warn).toHaveBeenCalledWith(
+      "Property 'location.zip' not found in step1. Available properties: coords, time zone"
+    );
+  });
+
+  it('throws in strict mode', () => {
+    expect(() => resolve('{{step1.location.zip}}', true)).toThrow(
+      "Unresolved reference {{step1.location.zip}}: Property 'location.zip' not found in step1."
+    );
+    expect(() => resolve('{{step9}}', true)).toThrow('Step result not found for reference: step9');
+    expect(() => resolve('{{step1.location[}}', true)).toThrow('Invalid reference');
+  });
+
+  it('leaves text that is not a reference untouched when not strict', () => {
+    expect(resolve('{{not a reference}}').value).toBe('{{not a reference}}');
+  });
+
+  it('extracts references with their first property', () => {
+    expect(
+      new ReferenceResolver(new SilentLogger()).extractTemplateReferences(
+        '{"a":"{{step1.location.coords[0].lat}}","b":"{{step2}}"}'
+      )
+    ).toEqual([
+      { stepId: 'step1', property: 'location', fullMatch: '{{step1.location.coords[0].lat}}' },
+      { stepId: 'step2', property: undefined, fullMatch: '{{step2}}' },
+    ]);
+  });
+});
+
+describe('Planner strict references', () => {
+  const tools: Tool[] = [
+    {
+      name: 'lookup',
+      description: 'Look up a city',
+      paramsSchema: Type.Object({}),
+      action: async () => ({ city: 'Rome' }),
+    },
+    {
+      name: 'weather',
+      description: 'Weather for a city',
+      paramsSchema: Type.Object({ city: Type.String() }),
+      action: async ({ city }: any) => `sunny in ${city}`,
+    },
+  ];
+
+  function createPlan(params: any): ExecutionPlan {
+    return {
+      context: {},
+      steps: [
+        { id: 'step1', toolName: 'lookup', params: {}, dependsOn: [], status: 'pending' },
+        { id: 'step2', toolName: 'weather', params, dependsOn: ['step1'], status: 'pending' },
+      ],
+    };
+  }
+
+  it('fails the step on an unresolved reference', async () => {
+    const plan = createPlan({ city: '{{step1.town}}' });
+
+    await new Planner(new SilentLogger()).executePlan(plan, tools, { strictReferences: true });
+
+    expect(plan.steps[1].status).toBe('failed');
+    expect(plan.steps[1].result).toMatch(/^Error: Unresolved reference \{\{step1\.town\}\}/);
+  });
+
+  it('passes an empty string by default', async () => {
+    const plan = createPlan({ city: '{{step1.town}}' });
+
+    await new Planner(new SilentLogger()).executePlan(plan, tools);
+
+    expect(plan.steps[1].result).toBe('sunny in ');
+  });
+});
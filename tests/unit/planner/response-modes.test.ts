@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { Agent } from '../../../src/core/agent/Agent';
+import { SlidingWindowMemoryManager } from '../../../src/core/memory/memory';
+import { Tool } from '../../../src/core/tools/types/Tool';
+import { Message } from '../../../src/shared/types/Message';
+import { StreamEvent } from '../../../src/core/execution/types/StreamEvent';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+
+const tools: Tool[] = [
+  {
+    name: 'getWeather',
+    description: 'Weather for a city',
+    paramsSchema: Type.Object({ city: Type.String() }),
+    action: async ({ city }: any) => {
+      if (city === 'Atlantis') throw new Error('Unknown city Atlantis');
+      return { city, forecast: 'sunny' };
+    },
+  },
+];
+
+const planJson = JSON.stringify({
+  steps: [
+    { id: 'step1', toolName: 'getWeather', params: { city: 'Paris' }, dependsOn: [] },
+    { id: 'step2', toolName: 'getWeather', params: { city: 'Atlantis' }, dependsOn: [] },
+  ],
+});
+
+/** A planning adapter that answers the plan request, then the conversational request */
+function planningAdapter() {
+  const calls: Message[][] = [];
+  return {
+    name: 'planning',
+    supportsNativeTools: false,
+    calls,
+    complete: vi.fn(async (messages: any) => {
+      calls.push(JSON.parse(JSON.stringify(messages)));
+      return calls.length === 1 ? planJson : 'Paris is sunny; Atlantis could not be found.';
+    }),
+    executeWithTools: vi.fn(),
+  };
+}
+
+function createAgent(): Agent {
+  const agent = new Agent(new SlidingWindowMemoryManager(), new SilentLogger());
+  tools.forEach(tool => agent.addTool(tool));
+  return agent;
+}
+
+describe('Response modes', () => {
+  it('returns the raw step output without a conversational model call', async () => {
+    const model = planningAdapter();
+
+    const content = await createAgent().run('Weather in Paris and Atlantis', model, {
+      responseMode: 'raw',
+    });
+
+    expect(content).toBe(
+      'step1: {\n  "city": "Paris",\n  "forecast": "sunny"\n}\nstep2: Error: Unknown city Atlantis'
+    );
+    expect(model.complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns step results as JSON with failures as errors', async () => {
+    const content = await createAgent().run('Weather in Paris and Atlantis', planningAdapter(), {
+      responseMode: 'json',
+    });
+
+    expect(JSON.parse(content)).toEqual({
+      steps: [
+        expect.objectContaining({
+          id: 'step1',
+          toolName: 'getWeather',
+          status: 'completed',
+          result: { city: 'Paris', forecast: 'sunny' },
+        }),
+        expect.objectContaining({ id: 'step2', status: 'failed', error: 'Unknown city Atlantis' }),
+      ],
+    });
+  });
+
+  it('passes the request, plan and output to a custom formatter', async () => {
+    const formatter = vi.fn(
+      ({ plan }) => `${plan.steps.filter((step: any) => step.status === 'completed').length} ok`
+    );
+
+    const result = await createAgent().runDetailed('Weather in Paris', planningAdapter(), {
+      responseMode: formatter,
+    });
+
+    expect(result.content).toBe('1 ok');
+    expect(formatter).toHaveBeenCalledWith(
+      expect.objectContaining({
+        request: 'Weather in Paris',
+        output: expect.stringContaining('step2: Error'),
+      })
+    );
+  });
+
+  it('lists failed steps apart from the results in the conversational prompt', async () => {
+    const model = planningAdapter();
+
+    const content = await createAgent().run('Weather in Paris and Atlantis', model);
+
+    expect(content).toBe('Paris is sunny; Atlantis could not be found.');
+    const prompt = model.calls[1][model.calls[1].length - 1].content as string;
+    expect(prompt).toContain(
+      'I executed the following tools to fulfill their request:\n\nstep1: {\n  "city": "Paris",\n  "forecast": "sunny"\n}\n\nThese tool calls did not succeed.'
+    );
+    expect(prompt).toContain('- step2 (getWeather) failed: Unknown city Atlantis');
+    expect(prompt).not.toContain('step2: Error');
+  });
+
+  it('streams a formatted response as a single text event', async () => {
+    const events: StreamEvent[] = [];
+
+    for await (const event of createAgent().stream('Weather in Paris', planningAdapter(), {
+      responseMode: () => 'done',
+    })) {
+      events.push(event);
+    }
+
+    expect(events.slice(-2)).toEqual([
+      { type: 'text', delta: 'done' },
+      { type: 'final', content: 'done', result: expect.objectContaining({ content: 'done' }) },
+    ]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { InMemorySessionStore } from '../../../src/core/session/implementations/InMemorySessionStore';
+import { FileSessionStore } from '../../../src/core/session/implementations/FileSessionStore';
+import { Session } from '../../../src/core/session/types/Session';
+
+function createSession(id: string): Session {
+  return {
+    id,
+    memories: [
+      {
+        id: 'm1',
+        type: 'conversation',
+        content: 'User said hello',
+        importance: 0.8,
+        timestamp: new Date('2025-01-01T10:00:00Z'),
+      },
+    ],
+    history: [
+      { role: 'user', content: 'Hello' },
+      { role: 'assistant', content: 'Hi!' },
+    ],
+    createdAt: new Date('2025-01-01T10:00:00Z'),
+    updatedAt: new Date('2025-01-01T10:05:00Z'),
+  };
+}
+
+describe('InMemorySessionStore', () => {
+  it('should save, load, list and delete sessions', async () => {
+    const store = new InMemorySessionStore();
+    await store.save(createSession('thread-1'));
+
+    expect(await store.load('thread-1')).toEqual(createSession('thread-1'));
+    expect(await store.list()).toEqual(['thread-1']);
+
+    await store.delete('thread-1');
+    expect(await store.load('thread-1')).toBeUndefined();
+  });
+
+  it('should not share arrays with callers', async () => {
+    const store = new InMemorySessionStore();
+    const session = createSession('thread-1');
+    await store.save(session);
+    session.history.push({ role: 'user', content: 'Mutated' });
+
+    expect((await store.load('thread-1'))?.history).toHaveLength(2);
+  });
+});
+
+describe('FileSessionStore', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  it('should round-trip sessions including dates', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'sessions-'));
+    const store = new FileSessionStore(join(directory, 'nested'));
+    await store.save(createSession('user/42'));
+
+    const loaded = await store.load('user/42');
+    expect(loaded).toEqual(createSession('user/42'));
+    expect(loaded?.memories[0].timestamp).toBeInstanceOf(Date);
+    expect(await store.list()).toEqual(['user/42']);
+  });
+
+  it('should return undefined for missing sessions and ignore missing deletes', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'sessions-'));
+    const store = new FileSessionStore(directory);
+
+    expect(await store.load('missing')).toBeUndefined();
+    await expect(store.delete('missing')).resolves.toBeUndefined();
+    expect(await store.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import { ErrorUtils } from '../../../src/infrastructure/adapters/utils/errorUtils';
+import { categorizeFallbackReason } from '../../../src/infrastructure/monitoring/utils/executionClassification';
+import { invokeTool, ToolTimeoutError } from '../../../src/core/tools/ToolInvocation';
+import { Planner } from '../../../src/core/execution/Planner';
+import { Agent } from '../../../src/core/agent/Agent';
+import { SlidingWindowMemoryManager } from '../../../src/core/memory/memory';
+import { OllamaAdapter } from '../../../src/infrastructure/adapters/ollama/ollamaAdapter';
+import { SilentLogger } from '../../../src/infrastructure/logging/implementations/defaultLoggers';
+import { linkAbortSignal, throwIfAborted } from '../../../src/shared/utils/abort';
+import {
+  AdapterAuthError,
+  AdapterError,
+  AdapterNetworkError,
+  AdapterRateLimitError,
+  CancelledError,
+  ContextLengthError,
+  PlanParseError,
+  TimeoutError,
+  ToolExecutionError,
+  ToolNotFoundError,
+} from '../../../src/shared/errors';
+import { Tool } from '../../../src/core/tools/types/Tool';
+
+/** An error shaped like the ones thrown by the OpenAI and Anthropic SDKs */
+function sdkError(status: number, message: string, extra: Record<string, unknown> = {}) {
+  return Object.assign(new Error(message), { status, ...extra });
+}
+
+const echoTool: Tool = {
+  name: 'echo',
+  description: 'Echo the text',
+  paramsSchema: Type.Object({ text: Type.String() }),
+  action: async ({ text }: any) => text,
+};
+
+describe('Error taxonomy', () => {
+  it('types provider errors by HTTP status and keeps their message', () => {
+    const limited = ErrorUtils.fromError(
+      'openai',
+      sdkError(429, 'Rate limit reached', { headers: { 'retry-after': '2' } })
+    );
+    expect(limited).toBeInstanceOf(AdapterRateLimitError);
+    expect(limited).toMatchObject({
+      message: 'Rate limit reached',
+      provider: 'openai',
+      status: 429,
+      retryAfterMs: 2000,
+    });
+
+    expect(ErrorUtils.fromError('claude', sdkError(401, 'invalid x-api-key'))).toBeInstanceOf(
+      AdapterAuthError
+    );
+    expect(
+      ErrorUtils.fromError('openai', sdkError(400, 'Too long', { code: 'context_length_exceeded' }))
+    ).toBeInstanceOf(ContextLengthError);
+    expect(
+      ErrorUtils.fromError('claude', sdkError(400, 'prompt is too long: 210000 tokens'))
+    ).toBeInstanceOf(ContextLengthError);
+
+    const server = ErrorUtils.fromError('openai', sdkError(500, 'Internal error'));
+    expect(server).toBeInstanceOf(AdapterError);
+    expect((server as AdapterError).cause).toBeInstanceOf(Error);
+
+    const network = Object.assign(new TypeError('fetch failed'), {
+      cause: Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }),
+    });
+    const unreachable = ErrorUtils.fromError('ollama', network);
+    expect(unreachable).toBeInstanceOf(AdapterNetworkError);
+    expect(unreachable).toMatchObject({ code: 'network', provider: 'ollama', cause: network });
+
+    class APIConnectionError extends Error {}
+    expect(
+      ErrorUtils.fromError('openai', new APIConnectionError('Connection error.'))
+    ).toBeInstanceOf(AdapterNetworkError);
+
+    const aborted = Object.assign(new Error('This operation was aborted'), { name: 'AbortError' });
+    expect(ErrorUtils.fromError('ollama', aborted)).toBe(aborted);
+  });
+
+  it('throws typed errors from the Ollama adapter', async () => {
+    const fetchMock = vi.fn(async () => ({
+      ok: false,
+      status: 429,
+      statusText: 'Too Many Requests',
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+    try {
+      await expect(new OllamaAdapter().complete('Hi')).rejects.toThrow(AdapterRateLimitError);
+
+      const result = await new OllamaAdapter().executeWithTools('Hi', [echoTool]);
+      expect(result.errors).toEqual(['Ollama API error: 429 Too Many Requests']);
+      expect(result.error).toBeInstanceOf(AdapterRateLimitError);
+
+      fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+      const adapter = new OllamaAdapter();
+      await expect(adapter.complete('Hi')).rejects.toThrow(AdapterNetworkError);
+      await expect(adapter.streamComplete('Hi').next()).rejects.toThrow(AdapterNetworkError);
+      await expect(adapter.streamWithTools('Hi', [echoTool]).next()).rejects.toThrow(
+        AdapterNetworkError
+      );
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('classifies fallback reasons by type, including causes', () => {
+    expect(categorizeFallbackReason(new ContextLengthError('too long', 'openai'))).toBe(
+      'context_limit'
+    );
+    expect(categorizeFallbackReason(new ToolNotFoundError('missing'))).toBe('tool_error');
+    expect(categorizeFallbackReason(new PlanParseError('bad plan'))).toBe('plan_error');
+
+    const wrapped = Object.assign(new Error('Native execution failed: limited'), {
+      cause: new AdapterRateLimitError('limited', 'claude'),
+    });
+    expect(categorizeFallbackReason(wrapped)).toBe('rate_limit');
+    expect(categorizeFallbackReason(new AdapterNetworkError('fetch failed', 'ollama'))).toBe(
+      'network_error'
+    );
+
+    // Untyped errors are no longer guessed from their wording
+    expect(categorizeFallbackReason(new Error('connection timeout'))).toBe('execution_error');
+  });
+
+  it('wraps tool failures and keeps timeouts and cancellation typed', async () => {
+    const failing: Tool = {
+      ...echoTool,
+      action: async () => {
+        throw new Error('disk full');
+      },
+    };
+    const failure = await invokeTool(failing, { text: 'a' }).catch(error => error);
+    expect(failure).toBeInstanceOf(ToolExecutionError);
+    expect(failure).toMatchObject({ message: 'disk full', toolName: 'echo' });
+    expect(failure.cause).toBeInstanceOf(Error);
+
+    const slow: Tool = { ...echoTool, action: () => new Promise(() => undefined) };
+    const timeout = await invokeTool(slow, { text: 'a' }, {}, { timeoutMs: 5 }).catch(e => e);
+    expect(timeout).toBeInstanceOf(ToolTimeoutError);
+    expect(timeout).toBeInstanceOf(TimeoutError);
+
+    const controller = new AbortController();
+    controller.abort();
+    expect(() => throwIfAborted(controller.signal)).toThrow(CancelledError);
+
+    const { signal, dispose } = linkAbortSignal(undefined, 1);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(() => throwIfAborted(signal)).toThrow(TimeoutError);
+    dispose();
+  });
+
+  it('reports unusable plans as PlanParseError and falls back with reason plan_error', async () => {
+    const model = {
+      name: 'scripted',
+      supportsNativeTools: false,
+      complete: vi.fn(async () => 'no plan here'),
+      executeWithTools: vi.fn(),
+    };
+
+    await expect(
+      new Planner(new SilentLogger()).createPlan('Hi', [echoTool], '', '', model, {
+        maxPlanAttempts: 1,
+      })
+    ).rejects.toThrow(PlanParseError);
+
+    const agent = new Agent(new SlidingWindowMemoryManager(), new SilentLogger());
+    agent.addTool(echoTool);
+    const fallback = vi.fn();
+    agent.on('fallback', fallback);
+    await agent.runDetailed('Hi', model, { maxPlanAttempts: 1 });
+
+    expect(fallback).toHaveBeenCalledWith(
+      expect.objectContaining({ from: 'planned', to: 'react', reason: 'plan_error' })
+    );
+  });
+});
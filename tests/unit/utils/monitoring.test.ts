@@ -0,0 +1,39 @@
+import { describe, it, expect, vi } from 'vitest';
+import { withExecutionMonitoring } from '../../../src/infrastructure/monitoring/decorators/monitoring';
+import { RunResult } from '../../../src/core/agent/types/RunResult';
+
+/** An object whose execute() is wrapped by the decorator and resolves to the given result */
+function monitored(result: Partial<RunResult> & { error?: unknown }) {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  const descriptor: PropertyDescriptor = { value: async () => result };
+  withExecutionMonitoring({}, 'execute', descriptor);
+  const instance = { logger, execute: descriptor.value };
+  const context = { message: 'Hi', tools: [], options: {}, model: { supportsNativeTools: false } };
+  return { logger, run: () => instance.execute(context) };
+}
+
+function failureMessage(logger: { error: ReturnType<typeof vi.fn> }): unknown {
+  const [event, data] = logger.error.mock.calls[0];
+  expect(event).toBe('execution_failed');
+  return data.error_message;
+}
+
+describe('withExecutionMonitoring', () => {
+  it('logs the last error of a failed result', async () => {
+    const { logger, run } = monitored({ success: false, errors: ['first', 'last'] });
+
+    await run();
+
+    expect(failureMessage(logger)).toBe('last');
+  });
+
+  it('prefers the result error and falls back to a fixed message', async () => {
+    const withError = monitored({ success: false, errors: ['old'], error: new Error('Boom') });
+    await withError.run();
+    expect(failureMessage(withError.logger)).toBe('Boom');
+
+    const withoutErrors = monitored({ success: false, errors: [] });
+    await withoutErrors.run();
+    expect(failureMessage(withoutErrors.logger)).toBe('Execution failed');
+  });
+});
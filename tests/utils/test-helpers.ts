@@ -1,5 +1,5 @@
 import { vi } from 'vitest';
-import { ModelAdapter } from '../../src/infrastructure/adapters/base/base';
+import { ModelAdapter, PromptInput } from '../../src/infrastructure/adapters/base/base';
 import { mockClaudeResponse, mockClaudeToolResponse } from '../fixtures/claude-fixtures';
 
 // Mock Model Adapter for testing
@@ -10,7 +10,7 @@ export class MockModelAdapter implements ModelAdapter {
   private responses: any[];
   private currentResponseIndex = 0;
   public callHistory: Array<{
-    prompt: string;
+    prompt: PromptInput;
     tools?: any[];
     options?: any;
     timestamp: Date;
@@ -20,7 +20,7 @@ export class MockModelAdapter implements ModelAdapter {
     this.responses = responses;
   }
 
-  async complete(prompt: string): Promise<string> {
+  async complete(prompt: PromptInput): Promise<string> {
     // Record the call
     this.callHistory.push({
       prompt,
@@ -49,7 +49,7 @@ export class MockModelAdapter implements ModelAdapter {
     return 'Mock response';
   }
 
-  async executeWithTools(prompt: string, tools: any[]): Promise<any> {
+  async executeWithTools(prompt: PromptInput, tools: any[]): Promise<any> {
     // Record the call
     this.callHistory.push({
       prompt,